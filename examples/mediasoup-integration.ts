@@ -5,7 +5,7 @@
  * for server-to-server voice communication
  */
 
-import { WebRTCServer, WebSocketServer, VoiceAgent } from '../src';
+import { WebRTCServer, WebSocketServer, VoiceAgent, endCallTool, transferCallTool, TransferRequest } from '../src';
 import { Agent, tool, run } from '@tawk/voice-agents-sdk/core';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
@@ -76,21 +76,9 @@ const CONFIG = {
 // ============================================
 
 // Define tools
-const transferToHuman = tool({
-  description: 'Transfer the conversation to a human agent',
-  parameters: z.object({
-    reason: z.string().describe('Reason for transfer'),
-    department: z.enum(['sales', 'support', 'technical']).describe('Which department'),
-  }),
-  execute: async ({ reason, department }) => {
-    console.log(`[Tool] Transferring to ${department}: ${reason}`);
-    return {
-      success: true,
-      message: `Transferring you to ${department}. Please hold...`,
-      estimatedWaitTime: '2 minutes',
-    };
-  },
-});
+// Built-in call control: the agent hangs up or asks the host for a transfer
+const endCall = endCallTool();
+const transferCall = transferCallTool({ targets: ['sales', 'support', 'technical'] });
 
 const getCallInfo = tool({
   description: 'Get information about the current call',
@@ -112,12 +100,14 @@ const voiceAssistant = new Agent({
   
 Your capabilities:
 - Answer questions clearly and concisely
-- Transfer to human agents when needed
+- Transfer to human agents when needed (tell the caller first)
 - Provide call information
+- End the call once the caller is done (say goodbye first)
 
 Keep responses short (1-2 sentences) for voice interactions.`,
   tools: {
-    transferToHuman,
+    end_call: endCall,
+    transfer_call: transferCall,
     getCallInfo,
   },
   modelSettings: {
@@ -201,6 +191,18 @@ webrtcServer.on('connection-created', async (sessionId, connection) => {
     console.log(`[${sessionId}] Metrics:`, metrics);
   });
 
+  // The agent asked for a transfer: hand the caller over (SIP REFER, queue, ...)
+  voiceAgent.on('session.transfer_requested', async (request: TransferRequest) => {
+    console.log(`[${sessionId}] Transfer to ${request.target}: ${request.reason}`);
+    console.log(`[${sessionId}] Handoff summary: ${request.summary}`);
+    await voiceAgent.endSession('transferred');
+  });
+
+  // end_call: the goodbye has played out, hang up
+  voiceAgent.on('session.ended', () => {
+    connection.close();
+  });
+
   // Handle disconnection
   connection.on('closed', async () => {
     console.log(`[${sessionId}] RTC connection closed`);
@@ -321,6 +323,10 @@ wsServer.on('connection', async (sessionId, connection) => {
     connection.sendError('voice_agent_error', error.message);
   });
 
+  voiceAgent.on('session.ended', () => {
+    connection.close(1000, 'Session ended');
+  });
+
   // Handle close
   connection.on('close', async () => {
     console.log(`[${sessionId}] WebSocket closed`);
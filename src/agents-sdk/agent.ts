@@ -76,6 +76,7 @@ export interface RunOptions<TContext = any> {
   stream?: boolean;
   sessionInputCallback?: (history: CoreMessage[], newInput: CoreMessage[]) => CoreMessage[];
   maxTurns?: number;
+  signal?: AbortSignal;  // Cancels in-flight model calls (e.g. voice barge-in)
 }
 
 export interface RunResult<TOutput = string> {
@@ -107,6 +108,11 @@ export interface AgentMetric {
   duration: number;
 }
 
+/**
+ * A tool that declares the speech a voice agent plays while it runs
+ */
+type FillerTool = CoreTool & { filler?: string | false };
+
 export interface StreamResult<TOutput = string> {
   textStream: AsyncIterable<string>;
   fullStream: AsyncIterable<StreamChunk>;
@@ -344,6 +350,47 @@ export class Agent<TContext = any, TOutput = string> extends AgentHooks<TContext
     };
   }
 
+  /**
+   * The `filler` a tool declares next to its definition (speech a voice agent
+   * plays while it runs; false never plays one). Tools of the agents this one
+   * hands off to are looked up too, so the filler is found whichever agent ran it.
+   */
+  getToolFiller(toolName: string): string | false | undefined {
+    for (const agent of this.reachableAgents()) {
+      const declared = agent.tools[toolName] as FillerTool | undefined;
+      if (declared) {
+        return declared.filler;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Every filler phrase declared on the tools of this agent and the agents it hands off to
+   */
+  getToolFillers(): string[] {
+    return this.reachableAgents().flatMap((agent) =>
+      Object.values(agent.tools)
+        .map((declared) => (declared as FillerTool).filler)
+        .filter((filler): filler is string => typeof filler === 'string' && filler.trim().length > 0)
+    );
+  }
+
+  /**
+   * This agent followed by every agent reachable through handoffs
+   */
+  private reachableAgents(): Agent<TContext, any>[] {
+    const agents: Agent<TContext, any>[] = [this];
+    for (let i = 0; i < agents.length; i++) {
+      for (const next of agents[i].handoffs) {
+        if (!agents.includes(next)) {
+          agents.push(next);
+        }
+      }
+    }
+    return agents;
+  }
+
   // Getters for internal access
   get _model() { return this.model; }
   get _tools() { return this.tools; }
@@ -541,7 +588,8 @@ class Runner<TContext = any, TOutput = string> extends RunHooks<TContext, TOutpu
         topP: currentAgent._modelSettings?.topP,
         maxTokens: currentAgent._modelSettings?.maxTokens,
         presencePenalty: currentAgent._modelSettings?.presencePenalty,
-        frequencyPenalty: currentAgent._modelSettings?.frequencyPenalty
+        frequencyPenalty: currentAgent._modelSettings?.frequencyPenalty,
+        abortSignal: this.options.signal
       });
 
       // Update token usage
@@ -729,7 +777,8 @@ class Runner<TContext = any, TOutput = string> extends RunHooks<TContext, TOutpu
       maxSteps: this.agent._maxSteps,
       temperature: this.agent._modelSettings?.temperature,
       topP: this.agent._modelSettings?.topP,
-      maxTokens: this.agent._modelSettings?.maxTokens
+      maxTokens: this.agent._modelSettings?.maxTokens,
+      abortSignal: this.options.signal
     });
 
     // Create text stream
@@ -785,6 +834,7 @@ class Runner<TContext = any, TOutput = string> extends RunHooks<TContext, TOutpu
   ): Promise<RunResult<TOutput>> {
     let fullText = '';
     const toolCalls: Array<{ toolName: string; args: any; result: any }> = [];
+    let failed = false;
 
     for await (const chunk of result.fullStream) {
       if (chunk.type === 'text-delta') {
@@ -795,14 +845,27 @@ class Runner<TContext = any, TOutput = string> extends RunHooks<TContext, TOutpu
           args: chunk.args,
           result: chunk.result
         });
+      } else if (chunk.type === 'error') {
+        failed = true;
       }
     }
 
-    // Add assistant message
-    messages.push({
-      role: 'assistant',
-      content: fullText
-    });
+    // An aborted run must not persist its partial output
+    if (this.options.signal?.aborted) {
+      throw new Error('Run aborted');
+    }
+
+    // Add the response messages: tool calls and results as well as the final text
+    // (a failed stream never resolves its response)
+    const response = failed ? undefined : await result.response;
+    if (response?.messages?.length) {
+      messages.push(...response.messages);
+    } else {
+      messages.push({
+        role: 'assistant',
+        content: fullText
+      });
+    }
 
     // Run output guardrails
     await this.runOutputGuardrails(fullText);
@@ -1,5 +1,7 @@
 import { EventEmitter } from 'events';
 import WebSocket from 'isomorphic-ws';
+import { decodeAlaw, decodeMulaw, isSessionAudioFormat, parseAudioFormat } from '../utils/audio-codec';
+import type { SessionAudioFormat } from '../utils/audio-codec';
 
 /**
  * Voice Agent SDK - Client
@@ -14,11 +16,15 @@ export class VoiceAgentClient extends EventEmitter {
   private audioContext: any = null;
   private audioQueue: AudioBuffer[] = [];
   private isPlaying: boolean = false;
+  private outputAudioFormat: SessionAudioFormat;
+  // Trailing byte of a PCM16 sample split across audio deltas
+  private playbackRemainder: Uint8Array = new Uint8Array(0);
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
 
   constructor(private config: ClientConfig) {
     super();
+    this.outputAudioFormat = config.outputAudioFormat || 'pcm16';
   }
 
   /**
@@ -76,6 +82,8 @@ export class VoiceAgentClient extends EventEmitter {
         },
         voice: this.config.voice || 'alloy',
         instructions: this.config.instructions || 'You are a helpful assistant',
+        input_audio_format: this.config.inputAudioFormat,
+        output_audio_format: this.config.outputAudioFormat,
         turn_detection: {
           type: 'server_vad',
           threshold: this.config.vadThreshold || 0.5,
@@ -191,6 +199,7 @@ export class VoiceAgentClient extends EventEmitter {
   interrupt(): void {
     this.send({ type: 'response.cancel' });
     this.audioQueue = [];
+    this.playbackRemainder = new Uint8Array(0);
     this.emit('interrupted');
     console.log('[SDK] Response interrupted');
   }
@@ -262,26 +271,51 @@ export class VoiceAgentClient extends EventEmitter {
     switch (event.type) {
       case 'session.created':
         this.sessionId = event.session.id;
+        this.setOutputAudioFormat(event.session.output_audio_format);
         this.emit('session.created', event.session);
         console.log('[SDK] Session created:', this.sessionId);
         break;
 
       case 'session.updated':
+        this.setOutputAudioFormat(event.session.output_audio_format);
         this.emit('session.updated', event.session);
         break;
 
+      case 'session.ending':
+        this.emit('session.ending', { reason: event.reason, message: event.message });
+        break;
+
+      case 'call.amd_result':
+        this.emit('call.amd_result', event);
+        break;
+
+      case 'session.transfer_requested':
+        this.emit('session.transfer_requested', { target: event.target, reason: event.reason, summary: event.summary });
+        break;
+
       case 'input_audio_buffer.speech_started':
+      case 'audio.input.buffer.speech_started':
         this.emit('speech.started', event);
         break;
 
       case 'input_audio_buffer.speech_stopped':
+      case 'audio.input.buffer.speech_stopped':
         this.emit('speech.stopped', event);
         break;
 
       case 'input_audio_buffer.committed':
+      case 'audio.input.buffer.committed':
         this.emit('audio.committed', event);
         break;
 
+      case 'audio.input.buffer.cleared':
+        this.emit('audio.cleared', event);
+        break;
+
+      case 'transcription.delta':
+        this.emit('transcription.delta', event);
+        break;
+
       case 'conversation.item.created':
         this.emit('conversation.item.created', event.item);
         break;
@@ -318,6 +352,14 @@ export class VoiceAgentClient extends EventEmitter {
         this.emit('response.audio.done');
         break;
 
+      case 'response.audio_transcript.delta':
+        this.emit('response.audio_transcript.delta', event);
+        break;
+
+      case 'response.viseme.delta':
+        this.emit('response.viseme.delta', event);
+        break;
+
       case 'response.function_call_arguments.delta':
         this.emit('tool.arguments.delta', {
           callId: event.call_id,
@@ -326,6 +368,7 @@ export class VoiceAgentClient extends EventEmitter {
         break;
 
       case 'response.function_call_arguments.done':
+      case 'response.tool.call':
         const toolCall = {
           id: event.call_id,
           name: event.name,
@@ -344,6 +387,14 @@ export class VoiceAgentClient extends EventEmitter {
         this.emit('response.cancelled');
         break;
 
+      case 'conversation.item.truncated':
+        this.emit('conversation.item.truncated', event);
+        break;
+
+      case 'agent.handoff':
+        this.emit('agent.handoff', event.chain);
+        break;
+
       case 'error':
         const error = new Error(event.error.message);
         (error as any).code = event.error.code;
@@ -374,6 +425,9 @@ export class VoiceAgentClient extends EventEmitter {
       }
 
       const audioBuffer = await this.pcmToAudioBuffer(audioData);
+      if (!audioBuffer) {
+        return;
+      }
       this.audioQueue.push(audioBuffer);
 
       if (!this.isPlaying) {
@@ -409,20 +463,52 @@ export class VoiceAgentClient extends EventEmitter {
   }
 
   /**
-   * Convert PCM16 to AudioBuffer
+   * Use the output audio format negotiated by the server
+   */
+  private setOutputAudioFormat(format: unknown): void {
+    if (isSessionAudioFormat(format) && format !== this.outputAudioFormat) {
+      this.outputAudioFormat = format;
+      this.playbackRemainder = new Uint8Array(0);
+    }
+  }
+
+  /**
+   * Convert response audio in the session output format to an AudioBuffer
    */
-  private async pcmToAudioBuffer(pcmData: Uint8Array): Promise<AudioBuffer> {
-    const audioBuffer = this.audioContext.createBuffer(
-      1,
-      pcmData.length / 2,
-      16000
-    );
+  private async pcmToAudioBuffer(audioData: Uint8Array): Promise<AudioBuffer | null> {
+    const format = parseAudioFormat(this.outputAudioFormat);
+    let pcmData: Uint8Array;
 
+    switch (format.encoding) {
+      case 'mulaw':
+        pcmData = decodeMulaw(Buffer.from(audioData));
+        break;
+      case 'alaw':
+        pcmData = decodeAlaw(Buffer.from(audioData));
+        break;
+      default: {
+        // Deltas are not guaranteed to end on a sample boundary
+        const data = new Uint8Array(this.playbackRemainder.length + audioData.length);
+        data.set(this.playbackRemainder);
+        data.set(audioData, this.playbackRemainder.length);
+        const whole = data.length - (data.length % 2);
+        this.playbackRemainder = data.slice(whole);
+        pcmData = data.subarray(0, whole);
+      }
+    }
+
+    const sampleCount = pcmData.length / 2;
+    if (sampleCount === 0) {
+      return null;
+    }
+
+    const audioBuffer = this.audioContext.createBuffer(1, sampleCount, format.sampleRate);
     const channelData = audioBuffer.getChannelData(0);
-    for (let i = 0; i < pcmData.length / 2; i++) {
-      const int16 = (pcmData[i * 2 + 1] << 8) | pcmData[i * 2];
-      const float32 = int16 / (int16 < 0 ? 32768 : 32767);
-      channelData[i] = float32;
+    const view = new DataView(pcmData.buffer, pcmData.byteOffset, pcmData.byteLength);
+
+    for (let i = 0; i < sampleCount; i++) {
+      const int16 = view.getInt16(i * 2, true);
+      channelData[i] = int16 / (int16 < 0 ? 32768 : 32767);
     }
 
     return audioBuffer;
@@ -513,6 +599,8 @@ export interface ClientConfig {
   tts?: string;
   voice?: string;
   instructions?: string;
+  inputAudioFormat?: SessionAudioFormat; // Format of audio passed to sendAudio() (default: pcm16)
+  outputAudioFormat?: SessionAudioFormat; // Format of response audio (default: pcm16)
   vadThreshold?: number;
   silenceDurationMs?: number;
   speechDurationMs?: number;
@@ -531,6 +619,8 @@ export interface SessionConfig {
   };
   voice?: string;
   instructions?: string;
+  input_audio_format?: SessionAudioFormat;
+  output_audio_format?: SessionAudioFormat;
   turn_detection?: {
     type: 'server_vad';
     threshold?: number;
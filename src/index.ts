@@ -14,7 +14,7 @@
 // ============================================
 // CORE EXPORTS - Agents SDK
 // ============================================
-export * from './agents-sdk';
+export * from './agents-sdk/index';
 
 // ============================================
 // TRANSPORT LAYER
@@ -40,7 +40,10 @@ export {
   DeepgramSTTProvider,
   AssemblyAISTTProvider,
   OpenAIWhisperSTTProvider,
+  FallbackSTTProvider,
   createSTTProvider,
+  registerSTTProvider,
+  getSTTProviderNames,
   
   // TTS Providers
   ElevenLabsTTSProvider,
@@ -48,17 +51,67 @@ export {
   OpenAITTSProvider,
   DeepgramTTSProvider,
   AzureTTSProvider,
+  FallbackTTSProvider,
   createTTSProvider,
+  registerTTSProvider,
+  getTTSProviderNames,
   
   // VAD Providers
   EnergyVADProvider,
+  SpectralVADProvider,
   createVADProvider,
+  registerVADProvider,
+  getVADProviderNames,
 } from './providers';
+export type { FallbackSTTConfig, FallbackTTSConfig, SpectralVADConfig, ProviderDefinition } from './providers';
 
 // ============================================
 // VOICE AGENT
 // ============================================
-export { VoiceAgent, VoiceAgentConfig } from './voice-agent';
+export {
+  VoiceAgent,
+  VoiceAgentConfig,
+  TurnDetector,
+  EndOfTurnDetector,
+  HeuristicEndOfTurnScorer,
+  LLMEndOfTurnScorer,
+  SynthesisPipeline,
+  TurnTimer,
+  TurnMetricsWindow,
+  ToolFillerScheduler,
+  SessionPolicies,
+  endCallTool,
+  transferCallTool,
+  generateGreeting,
+  AnsweringMachineDetector,
+} from './voice-agent';
+export type {
+  TurnState,
+  TurnDetectorConfig,
+  TurnBoundary,
+  EndOfTurnConfig,
+  EndOfTurnContext,
+  EndOfTurnDecision,
+  EndOfTurnScore,
+  EndOfTurnScorer,
+  LLMEndOfTurnScorerConfig,
+  SynthesisPipelineConfig,
+  SynthesisEvent,
+  SentenceSynthesizer,
+  AudioTranscriptDelta,
+  ToolFillerConfig,
+  ToolFiller,
+  SessionPolicyConfig,
+  SessionEndReason,
+  SessionEnding,
+  CallControlConfig,
+  EndCallToolOptions,
+  TransferCallToolOptions,
+  TransferRequest,
+  GreetingConfig,
+  AnsweringMachineConfig,
+  AnsweringMachineResult,
+} from './voice-agent';
 
 // ============================================
 // TYPES
@@ -70,6 +123,9 @@ export type {
   VoiceAgentEventEmitter,
   SessionCreatedEvent,
   SessionUpdatedEvent,
+  SessionEndingEvent,
+  SessionTransferRequestedEvent,
+  CallAmdResultEvent,
   AudioInputStartedEvent,
   AudioOutputStartedEvent,
   TranscriptionDeltaEvent,
@@ -77,6 +133,8 @@ export type {
   ResponseCreatedEvent,
   ResponseTextDeltaEvent,
   ResponseAudioDeltaEvent,
+  ResponseAudioTranscriptDeltaEvent,
+  ResponseVisemeDeltaEvent,
   ResponseDoneEvent,
   ResponseToolCallEvent,
   ErrorEvent,
@@ -93,9 +151,20 @@ export type {
   STTProvider,
   LLMProvider,
   TTSProvider,
+  TimedAudioChunk,
+  WordTiming,
+  Viseme,
+  VisemeTiming,
   VADProvider,
+  VADFrameResult,
+  STTStreamResult,
+  FallbackProviderEntry,
+  ProviderFailoverEvent,
   
   // Configuration types
+  STTProviderName,
+  TTSProviderName,
+  VADProviderName,
   STTConfig,
   LLMConfig,
   TTSConfig,
@@ -108,6 +177,10 @@ export type {
   LLMChunk,
   AudioFormat,
   Metrics,
+  TurnTimeline,
+  TurnMetrics,
+  TurnMetricsSummary,
+  LatencyPercentiles,
 } from './types';
 
 // ============================================
@@ -118,6 +191,55 @@ export {
   AudioBuffer,
   ConversationManager,
   retry,
+  CircuitBreaker,
+  CircuitOpenError,
+  AsyncQueue,
+  AudioTranscoder,
+  normalizeAudioStream,
+  Resampler,
+  WavParser,
+  AudioProcessor,
+  EchoSuppressor,
+  SpeechNormalizer,
+  parseSpeechMarkup,
+  validateSpeechMarkup,
+  renderSpeechMarkup,
+  stripSpeechMarkup,
+  escapeXml,
+  PronunciationLexicon,
+  validatePronunciations,
+  synthesizeWithTimings,
+  estimateWordTimings,
+  textToVisemes,
+  visemesForWords,
+  ToneDetector,
+  parseAudioFormat,
+  isSessionAudioFormat,
+  encodeMulaw,
+  decodeMulaw,
+  encodeAlaw,
+  decodeAlaw,
+} from './utils';
+export type {
+  SessionAudioFormat,
+  CircuitBreakerOptions,
+  CircuitState,
+  AudioProcessorConfig,
+  AudioQualityReport,
+  AudioQualityIssue,
+  EchoSuppressorConfig,
+  EchoAnalysis,
+  SpeechNormalizerConfig,
+  SpeechNormalizerRule,
+  TextNormalizer,
+  SpeechNode,
+  ParsedSpeechMarkup,
+  SpeechMarkupDialect,
+  RenderedSpeech,
+  PronunciationEntry,
+  VisemeDelta,
+  ToneDetectorConfig,
+  Tone,
 } from './utils';
 
 /**
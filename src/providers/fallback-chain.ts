@@ -0,0 +1,70 @@
+/**
+ * Fallback Chain - Ordered providers with one circuit breaker each
+ *
+ * Shared by FallbackSTTProvider and FallbackTTSProvider. Tracks which
+ * provider currently serves requests and reports switches as failover events.
+ */
+
+import { CircuitBreaker, CircuitBreakerOptions } from '../utils/retry';
+import type { FallbackProviderEntry, ProviderFailoverEvent } from '../types';
+
+export interface FallbackChainEntry<T> extends FallbackProviderEntry<T> {
+  breaker: CircuitBreaker;
+}
+
+export class FallbackChain<T> {
+  readonly entries: FallbackChainEntry<T>[];
+  private kind: ProviderFailoverEvent['kind'];
+  private active = 0;
+  private onFailover: (event: ProviderFailoverEvent) => void;
+
+  constructor(
+    kind: ProviderFailoverEvent['kind'],
+    providers: FallbackProviderEntry<T>[],
+    breakerOptions: CircuitBreakerOptions | undefined,
+    onFailover: (event: ProviderFailoverEvent) => void
+  ) {
+    if (providers.length === 0) {
+      throw new Error(`Fallback ${kind.toUpperCase()} provider requires at least one provider`);
+    }
+
+    this.kind = kind;
+    this.onFailover = onFailover;
+    this.entries = providers.map((entry) => ({
+      ...entry,
+      breaker: new CircuitBreaker(breakerOptions),
+    }));
+  }
+
+  /**
+   * Name of the provider that served the last request
+   */
+  get activeProvider(): string {
+    return this.entries[this.active].name;
+  }
+
+  /**
+   * Record that entries[index] served a request; emits a failover event on a switch
+   *
+   * @param lastError - error from a provider tried earlier for this request
+   * @param skipped - whether an earlier provider was skipped because its circuit was open
+   */
+  served(index: number, lastError: any, skipped: boolean): void {
+    if (index === this.active) {
+      return;
+    }
+
+    const event: ProviderFailoverEvent = {
+      kind: this.kind,
+      from: this.entries[this.active].name,
+      to: this.entries[index].name,
+      reason: lastError !== undefined ? 'error' : skipped ? 'circuit_open' : 'recovered',
+    };
+    if (lastError !== undefined) {
+      event.error = lastError;
+    }
+
+    this.active = index;
+    this.onFailover(event);
+  }
+}
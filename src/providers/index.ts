@@ -15,3 +15,6 @@ export * from './tts';
 // VAD Providers
 export * from './vad';
 
+// Registry
+export type { ProviderDefinition } from './registry';
+
@@ -0,0 +1,58 @@
+/**
+ * Provider Registry - Named provider factories with option schemas
+ *
+ * Built-in STT, TTS and VAD providers are registered through the same
+ * mechanism as custom ones, so an in-house provider only needs a name, a zod
+ * schema for its options and a create function.
+ */
+
+import { z } from 'zod';
+
+export interface ProviderDefinition<P, S extends z.ZodTypeAny = z.ZodTypeAny> {
+  /** Validates (and may default) the options before create() is called; make it strict to reject unknown keys */
+  schema: S;
+  create: (options: z.infer<S>) => P;
+}
+
+export class ProviderRegistry<P> {
+  private kind: string;
+  private definitions = new Map<string, ProviderDefinition<P>>();
+
+  constructor(kind: string) {
+    this.kind = kind;
+  }
+
+  /**
+   * Register a provider; registering an existing name replaces it
+   */
+  register<S extends z.ZodTypeAny>(name: string, definition: ProviderDefinition<P, S>): void {
+    this.definitions.set(name, definition as unknown as ProviderDefinition<P>);
+  }
+
+  /**
+   * Registered provider names
+   */
+  names(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Validate options against the provider's schema and create it
+   */
+  create(name: string, options: unknown): P {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`Unknown ${this.kind} provider: ${name}`);
+    }
+
+    const parsed = definition.schema.safeParse(options);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join(', ');
+      throw new Error(`Invalid options for ${this.kind} provider '${name}': ${issues}`);
+    }
+
+    return definition.create(parsed.data);
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 import { createClient, LiveTranscriptionEvents } from '@deepgram/sdk';
-import { STTProvider } from '../../types';
+import { STTProvider, STTStreamResult } from '../../types';
 import { EventEmitter } from 'events';
 
 export class DeepgramSTTProvider extends EventEmitter implements STTProvider {
@@ -51,6 +51,17 @@ export class DeepgramSTTProvider extends EventEmitter implements STTProvider {
   }
 
   async *transcribeStream(audioStream: AsyncIterable<Buffer>): AsyncIterable<string> {
+    for await (const result of this.transcribeStreamResults(audioStream)) {
+      if (result.isFinal && result.text) {
+        yield result.text;
+      }
+    }
+  }
+
+  /**
+   * Streaming transcription with interim results and utterance boundaries
+   */
+  async *transcribeStreamResults(audioStream: AsyncIterable<Buffer>): AsyncIterable<STTStreamResult> {
     // Create live transcription connection
     this.liveConnection = this.client.listen.live({
       model: this.model,
@@ -64,20 +75,32 @@ export class DeepgramSTTProvider extends EventEmitter implements STTProvider {
     });
 
     // Setup event handlers
-    const transcripts: string[] = [];
-    let resolveNext: ((value: string) => void) | null = null;
+    const results: STTStreamResult[] = [];
+    let resolveNext: ((value: STTStreamResult) => void) | null = null;
     let rejectNext: ((error: Error) => void) | null = null;
     let connectionClosed = false;
 
     this.liveConnection.on(LiveTranscriptionEvents.Transcript, (data: any) => {
       const transcript = data.channel?.alternatives[0]?.transcript;
-      if (transcript && data.is_final) {
-        if (resolveNext) {
-          resolveNext(transcript);
-          resolveNext = null;
-        } else {
-          transcripts.push(transcript);
-        }
+      if (!transcript) {
+        return;
+      }
+      // Without interim results, only final transcripts are surfaced
+      if (!data.is_final && !this.interimResults) {
+        return;
+      }
+
+      const result: STTStreamResult = {
+        text: transcript,
+        isFinal: Boolean(data.is_final),
+        speechFinal: Boolean(data.speech_final),
+      };
+
+      if (resolveNext) {
+        resolveNext(result);
+        resolveNext = null;
+      } else {
+        results.push(result);
       }
     });
 
@@ -108,22 +131,22 @@ export class DeepgramSTTProvider extends EventEmitter implements STTProvider {
       }
     })();
 
-    // Yield transcripts as they arrive
-    while (!connectionClosed) {
-      if (transcripts.length > 0) {
-        yield transcripts.shift()!;
+    // Yield results as they arrive
+    while (!connectionClosed || results.length > 0) {
+      if (results.length > 0) {
+        yield results.shift()!;
       } else {
         try {
-          const transcript = await Promise.race([
-            new Promise<string>((resolve, reject) => {
+          const result = await Promise.race([
+            new Promise<STTStreamResult>((resolve, reject) => {
               resolveNext = resolve;
               rejectNext = reject;
             }),
-            new Promise<string>((_, reject) =>
+            new Promise<STTStreamResult>((_, reject) =>
               setTimeout(() => reject(new Error('Timeout')), 5000)
             ),
           ]);
-          yield transcript;
+          yield result;
         } catch (error) {
           if (connectionClosed) break;
         }
@@ -0,0 +1,194 @@
+/**
+ * Fallback STT Provider
+ *
+ * Transcribes with the first provider in the chain whose circuit is closed and
+ * fails over to the next one on error. For streaming, audio since the last
+ * final result is kept so the next provider can replay the current utterance
+ * instead of losing it.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  STTProvider,
+  STTStreamResult,
+  FallbackProviderEntry,
+  ProviderFailoverEvent,
+} from '../../types';
+import { CircuitBreakerOptions, CircuitOpenError, RetryOptions } from '../../utils/retry';
+import { FallbackChain } from '../fallback-chain';
+
+export interface FallbackSTTConfig {
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Attempts per provider for batch transcription before failing over (default: 1 attempt) */
+  retry?: RetryOptions;
+}
+
+export class FallbackSTTProvider extends EventEmitter implements STTProvider {
+  private chain: FallbackChain<STTProvider>;
+  private retryOptions: RetryOptions;
+
+  constructor(providers: FallbackProviderEntry<STTProvider>[], config: FallbackSTTConfig = {}) {
+    super();
+    this.chain = new FallbackChain('stt', providers, config.circuitBreaker, (event: ProviderFailoverEvent) =>
+      this.emit('provider.failover', event)
+    );
+    this.retryOptions = { maxAttempts: 1, initialDelay: 200, ...config.retry };
+  }
+
+  /**
+   * Name of the provider currently serving requests
+   */
+  get activeProvider(): string {
+    return this.chain.activeProvider;
+  }
+
+  async transcribe(audio: Buffer): Promise<string> {
+    let lastError: any;
+    let skipped = false;
+
+    for (let index = 0; index < this.chain.entries.length; index++) {
+      const entry = this.chain.entries[index];
+
+      try {
+        const transcript = await entry.breaker.execute(() => entry.provider.transcribe(audio), this.retryOptions);
+        this.chain.served(index, lastError, skipped);
+        return transcript;
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          skipped = true;
+          continue;
+        }
+        console.error(`[Fallback STT] ${entry.name} failed:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError ?? new CircuitOpenError('All STT provider circuits are open');
+  }
+
+  async *transcribeStream(audioStream: AsyncIterable<Buffer>): AsyncIterable<string> {
+    for await (const result of this.transcribeStreamResults(audioStream)) {
+      if (result.isFinal && result.text) {
+        yield result.text;
+      }
+    }
+  }
+
+  async *transcribeStreamResults(audioStream: AsyncIterable<Buffer>): AsyncIterable<STTStreamResult> {
+    const audio = new ReplayableAudio(audioStream);
+    let lastError: any;
+    let skipped = false;
+
+    for (let index = 0; index < this.chain.entries.length; index++) {
+      const entry = this.chain.entries[index];
+      if (!entry.breaker.canRequest()) {
+        skipped = true;
+        continue;
+      }
+
+      let served = false;
+      let settled = false;
+
+      try {
+        for await (const result of this.open(entry.provider, audio.replay())) {
+          if (!served) {
+            served = true;
+            this.chain.served(index, lastError, skipped);
+          }
+          yield result;
+
+          // Finalized audio is never replayed to a fallback provider
+          if (result.isFinal) {
+            audio.commit();
+          }
+        }
+
+        settled = true;
+        if (!served) {
+          this.chain.served(index, lastError, skipped);
+        }
+        entry.breaker.recordSuccess();
+        return;
+      } catch (error) {
+        settled = true;
+        entry.breaker.recordFailure();
+        console.error(`[Fallback STT] ${entry.name} failed:`, error);
+        lastError = error;
+      } finally {
+        // The consumer stopped early: no verdict for the breaker
+        if (!settled) {
+          entry.breaker.releaseProbe();
+        }
+      }
+    }
+
+    throw lastError ?? new CircuitOpenError('All STT provider circuits are open');
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.chain.entries.map((entry) => entry.provider.stop()));
+  }
+
+  private async *open(provider: STTProvider, audio: AsyncIterable<Buffer>): AsyncIterable<STTStreamResult> {
+    if (provider.transcribeStreamResults) {
+      yield* provider.transcribeStreamResults(audio);
+      return;
+    }
+
+    for await (const text of provider.transcribeStream(audio)) {
+      yield { text, isFinal: true };
+    }
+  }
+}
+
+/**
+ * Reads a source stream once and lets later readers replay what has not
+ * been committed yet
+ */
+class ReplayableAudio {
+  private iterator: AsyncIterator<Buffer>;
+  private chunks: Buffer[] = [];
+  // Absolute index of chunks[0] in the source stream
+  private offset = 0;
+  private done = false;
+
+  constructor(source: AsyncIterable<Buffer>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Drop everything read so far from the replay buffer
+   */
+  commit(): void {
+    this.offset += this.chunks.length;
+    this.chunks = [];
+  }
+
+  /**
+   * Uncommitted chunks followed by the rest of the source
+   */
+  async *replay(): AsyncIterable<Buffer> {
+    let position = this.offset;
+
+    while (true) {
+      position = Math.max(position, this.offset);
+
+      if (position < this.offset + this.chunks.length) {
+        yield this.chunks[position - this.offset];
+        position++;
+        continue;
+      }
+
+      if (this.done) {
+        return;
+      }
+
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.done = true;
+        return;
+      }
+      this.chunks.push(next.value);
+    }
+  }
+}
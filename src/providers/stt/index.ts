@@ -1,45 +1,69 @@
 /**
  * STT Provider Factory
+ *
+ * Providers are looked up by name in a registry; register custom ones with
+ * registerSTTProvider().
  */
 
+import { z } from 'zod';
 import { STTProvider, STTConfig } from '../../types';
+import { ProviderRegistry, ProviderDefinition } from '../registry';
 import { DeepgramSTTProvider } from './deepgram';
 import { AssemblyAISTTProvider } from './assemblyai';
 import { OpenAIWhisperSTTProvider } from './openai';
 
+const registry = new ProviderRegistry<STTProvider>('STT');
+
+/**
+ * Register an STT provider under a name usable in STTConfig.provider
+ */
+export function registerSTTProvider<S extends z.ZodTypeAny>(
+  name: string,
+  definition: ProviderDefinition<STTProvider, S>
+): void {
+  registry.register(name, definition);
+}
+
+/**
+ * Names of all registered STT providers
+ */
+export function getSTTProviderNames(): string[] {
+  return registry.names();
+}
+
+/**
+ * Create a registered STT provider; config.config is merged into the options
+ */
 export function createSTTProvider(config: STTConfig): STTProvider {
-  switch (config.provider) {
-    case 'deepgram':
-      return new DeepgramSTTProvider({
-        apiKey: config.apiKey,
-        model: config.model,
-        language: config.language,
-        interimResults: config.interimResults,
-      });
-
-    case 'assemblyai':
-      return new AssemblyAISTTProvider({
-        apiKey: config.apiKey,
-      });
-
-    case 'openai':
-      return new OpenAIWhisperSTTProvider({
-        apiKey: config.apiKey,
-        model: config.model,
-      });
-
-    case 'google':
-      throw new Error('Google STT provider not yet implemented');
-
-    case 'azure':
-      throw new Error('Azure STT provider not yet implemented');
-
-    default:
-      throw new Error(`Unknown STT provider: ${config.provider}`);
-  }
+  const { provider, config: extra, ...options } = config;
+  return registry.create(provider, { ...options, ...extra });
 }
 
+// STTConfig fields, accepted by every built-in provider; unknown keys are rejected
+const sttOptions = z.object({
+  apiKey: z.string().min(1),
+  model: z.string().optional(),
+  language: z.string().optional(),
+  streaming: z.boolean().optional(),
+  interimResults: z.boolean().optional(),
+});
+
+registerSTTProvider('deepgram', {
+  schema: sttOptions.strict(),
+  create: (options) => new DeepgramSTTProvider(options),
+});
+
+registerSTTProvider('assemblyai', {
+  schema: sttOptions.strict(),
+  create: (options) => new AssemblyAISTTProvider(options),
+});
+
+registerSTTProvider('openai', {
+  schema: sttOptions.strict(),
+  create: (options) => new OpenAIWhisperSTTProvider(options),
+});
+
 export * from './deepgram';
 export * from './assemblyai';
 export * from './openai';
-
+export * from './fallback';
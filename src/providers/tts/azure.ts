@@ -1,34 +1,55 @@
 /**
  * Azure Neural TTS Provider
+ *
+ * Plain synthesis uses the REST endpoint. Word timings need the Speech
+ * service websocket, which reports word boundaries (and visemes, when asked)
+ * alongside the audio.
  */
 
-import { TTSProvider } from '../../types';
+import { randomUUID } from 'crypto';
+import WebSocket from 'ws';
+import { TTSProvider, SynthesizeOptions, AudioFormat, TimedAudioChunk, VisemeTiming, WordTiming } from '../../types';
 import axios from 'axios';
+import { AsyncQueue } from '../../utils/async-queue';
+import { renderSpeechMarkup, escapeXml } from '../../utils/speech-markup';
+import { AZURE_VISEMES } from '../../utils/visemes';
+
+// Word boundary and viseme offsets are in 100ns ticks
+const TICKS_PER_MS = 10000;
+
+/**
+ * Entries of an audio.metadata frame that synthesizeWithTimestamps reads
+ */
+interface WordBoundaryMetadata {
+  Type: 'WordBoundary';
+  Data: { Offset: number; Duration: number; text: { Text: string } };
+}
+
+interface VisemeMetadata {
+  Type: 'Viseme';
+  Data: { Offset: number; VisemeId: number };
+}
+
+type SpeechMetadata = WordBoundaryMetadata | VisemeMetadata;
 
 export class AzureTTSProvider implements TTSProvider {
   private subscriptionKey: string;
   private region: string;
   private voice: string;
 
+  readonly outputFormat: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'wav' };
+
   constructor(config: { subscriptionKey: string; region: string; voice?: string }) {
     this.subscriptionKey = config.subscriptionKey;
     this.region = config.region;
     this.voice = config.voice || 'en-US-JennyNeural';
   }
 
-  async *synthesize(text: string): AsyncIterable<Buffer> {
+  async *synthesize(text: string, options: SynthesizeOptions = {}): AsyncIterable<Buffer> {
     try {
-      const ssml = `
-        <speak version='1.0' xml:lang='en-US'>
-          <voice name='${this.voice}'>
-            ${text}
-          </voice>
-        </speak>
-      `;
-
       const response = await axios.post(
         `https://${this.region}.tts.speech.microsoft.com/cognitiveservices/v1`,
-        ssml,
+        this.ssml(text),
         {
           headers: {
             'Ocp-Apim-Subscription-Key': this.subscriptionKey,
@@ -36,16 +57,133 @@ export class AzureTTSProvider implements TTSProvider {
             'X-Microsoft-OutputFormat': 'riff-16khz-16bit-mono-pcm',
           },
           responseType: 'arraybuffer',
+          signal: options.signal,
         }
       );
 
       yield Buffer.from(response.data);
     } catch (error) {
-      console.error('[Azure TTS] Synthesis error:', error);
+      if (!options.signal?.aborted) {
+        console.error('[Azure TTS] Synthesis error:', error);
+      }
       throw error;
     }
   }
 
+  async *synthesizeWithTimestamps(text: string, options: SynthesizeOptions = {}): AsyncIterable<TimedAudioChunk> {
+    const requestId = randomUUID().replace(/-/g, '');
+    const chunks = new AsyncQueue<TimedAudioChunk>();
+    let failure: Error | null = null;
+
+    const socket = new WebSocket(
+      `wss://${this.region}.tts.speech.microsoft.com/cognitiveservices/websocket/v1?X-ConnectionId=${requestId}`,
+      { headers: { 'Ocp-Apim-Subscription-Key': this.subscriptionKey } }
+    );
+    const abort = () => socket.terminate();
+    options.signal?.addEventListener('abort', abort, { once: true });
+
+    socket.on('open', () => {
+      const config = {
+        context: {
+          synthesis: {
+            audio: {
+              metadataoptions: {
+                wordBoundaryEnabled: 'true',
+                sentenceBoundaryEnabled: 'false',
+                visemeEnabled: options.visemes ? 'true' : 'false',
+              },
+              outputFormat: 'raw-16khz-16bit-mono-pcm',
+            },
+          },
+        },
+      };
+      socket.send(speechMessage('speech.config', requestId, 'application/json; charset=utf-8', JSON.stringify(config)));
+      socket.send(speechMessage('ssml', requestId, 'application/ssml+xml', this.ssml(text)));
+    });
+
+    socket.on('message', (data: Buffer, isBinary: boolean) => {
+      // Binary frames: 2-byte header length, headers, then audio
+      if (isBinary) {
+        const headerLength = data.readUInt16BE(0);
+        const audio = data.subarray(2 + headerLength);
+        if (/Path:\s*audio\b/i.test(data.subarray(2, 2 + headerLength).toString()) && audio.length > 0) {
+          chunks.push({ audio, alignment: 'native' });
+        }
+        return;
+      }
+
+      const message = data.toString();
+      const separator = message.indexOf('\r\n\r\n');
+      const path = message.slice(0, separator).match(/Path:\s*([\w.]+)/i)?.[1];
+
+      if (path === 'audio.metadata') {
+        let metadata: SpeechMetadata[];
+        try {
+          metadata = JSON.parse(message.slice(separator + 4)).Metadata;
+          if (!Array.isArray(metadata)) {
+            throw new Error('no Metadata array');
+          }
+        } catch (error) {
+          failure = failure ?? new Error(`Azure TTS sent malformed metadata: ${(error as Error).message}`);
+          chunks.close();
+          return;
+        }
+        const words: WordTiming[] = metadata
+          .filter((entry): entry is WordBoundaryMetadata => entry.Type === 'WordBoundary')
+          .map((entry) => ({
+            word: entry.Data.text.Text,
+            startMs: Math.round(entry.Data.Offset / TICKS_PER_MS),
+            endMs: Math.round((entry.Data.Offset + entry.Data.Duration) / TICKS_PER_MS),
+          }));
+        const visemes: VisemeTiming[] = metadata
+          .filter((entry): entry is VisemeMetadata => entry.Type === 'Viseme' && !!AZURE_VISEMES[entry.Data.VisemeId])
+          .map((entry) => ({
+            viseme: AZURE_VISEMES[entry.Data.VisemeId],
+            startMs: Math.round(entry.Data.Offset / TICKS_PER_MS),
+          }));
+        if (words.length > 0 || visemes.length > 0) {
+          chunks.push({
+            audio: Buffer.alloc(0),
+            words: words.length > 0 ? words : undefined,
+            visemes: visemes.length > 0 ? visemes : undefined,
+            alignment: 'native',
+          });
+        }
+      } else if (path === 'turn.end') {
+        chunks.close();
+        socket.close();
+      }
+    });
+
+    socket.on('error', (error) => {
+      failure = failure ?? error;
+      chunks.close();
+    });
+    socket.on('close', (code) => {
+      if (!chunks.isClosed) {
+        failure = failure ?? new Error(`Azure TTS connection closed before the end of synthesis (${code})`);
+        chunks.close();
+      }
+    });
+
+    try {
+      yield* chunks;
+      if (failure) {
+        throw failure;
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('[Azure TTS] Synthesis error:', error);
+      }
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', abort);
+      if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+        socket.terminate();
+      }
+    }
+  }
+
   async *synthesizeStream(textStream: AsyncIterable<string>): AsyncIterable<Buffer> {
     for await (const text of textStream) {
       if (text && text.trim().length > 0) {
@@ -54,8 +192,29 @@ export class AzureTTSProvider implements TTSProvider {
     }
   }
 
+  private ssml(text: string): string {
+    // Voice names start with their locale, e.g. en-GB-SoniaNeural
+    const locale = this.voice.match(/^[a-z]{2,3}-[A-Z]{2}/)?.[0] ?? 'en-US';
+    return `<speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='${locale}'>`
+      + `<voice name='${escapeXml(this.voice)}'>${renderSpeechMarkup(text, 'ssml').text}</voice>`
+      + '</speak>';
+  }
+
   async stop(): Promise<void> {
     // Cleanup
   }
 }
 
+/**
+ * Text frame of the Speech service websocket protocol
+ */
+function speechMessage(path: string, requestId: string, contentType: string, body: string): string {
+  return [
+    `X-RequestId:${requestId}`,
+    `X-Timestamp:${new Date().toISOString()}`,
+    `Content-Type:${contentType}`,
+    `Path:${path}`,
+    '',
+    body,
+  ].join('\r\n');
+}
@@ -2,8 +2,9 @@
  * Cartesia TTS Provider
  */
 
-import { TTSProvider } from '../../types';
+import { TTSProvider, SynthesizeOptions, AudioFormat, TimedAudioChunk, WordTiming } from '../../types';
 import axios from 'axios';
+import { renderSpeechMarkup } from '../../utils/speech-markup';
 
 export class CartesiaTTSProvider implements TTSProvider {
   private apiKey: string;
@@ -11,23 +12,21 @@ export class CartesiaTTSProvider implements TTSProvider {
   private model: string;
   private websocket: any = null;
 
+  readonly outputFormat: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
   constructor(config: { apiKey: string; voiceId?: string; model?: string }) {
     this.apiKey = config.apiKey;
     this.voiceId = config.voiceId || 'a0e99841-438c-4a64-b679-ae501e7d6091'; // Default Cartesia voice
     this.model = config.model || 'sonic-english';
   }
 
-  async *synthesize(text: string): AsyncIterable<Buffer> {
+  async *synthesize(text: string, options: SynthesizeOptions = {}): AsyncIterable<Buffer> {
     try {
       const response = await axios.post(
         'https://api.cartesia.ai/tts/bytes',
         {
           model_id: this.model,
-          transcript: text,
-          voice: {
-            mode: 'id',
-            id: this.voiceId,
-          },
+          ...this.transcript(text),
           output_format: {
             container: 'raw',
             encoding: 'pcm_s16le',
@@ -41,12 +40,81 @@ export class CartesiaTTSProvider implements TTSProvider {
             'Content-Type': 'application/json',
           },
           responseType: 'arraybuffer',
+          signal: options.signal,
         }
       );
 
       yield Buffer.from(response.data);
     } catch (error) {
-      console.error('[Cartesia] TTS error:', error);
+      if (!options.signal?.aborted) {
+        console.error('[Cartesia] TTS error:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream audio over server-sent events with word timestamps
+   */
+  async *synthesizeWithTimestamps(text: string, options: SynthesizeOptions = {}): AsyncIterable<TimedAudioChunk> {
+    try {
+      const response = await axios.post(
+        'https://api.cartesia.ai/tts/sse',
+        {
+          model_id: this.model,
+          ...this.transcript(text),
+          output_format: {
+            container: 'raw',
+            encoding: 'pcm_s16le',
+            sample_rate: 16000,
+          },
+          add_timestamps: true,
+        },
+        {
+          headers: {
+            'X-API-Key': this.apiKey,
+            'Cartesia-Version': '2024-06-10',
+            'Content-Type': 'application/json',
+          },
+          responseType: 'stream',
+          signal: options.signal,
+        }
+      );
+
+      let pending = '';
+      for await (const data of response.data) {
+        pending += data.toString();
+        const lines = pending.split('\n');
+        pending = lines.pop()!;
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) {
+            continue;
+          }
+          const message = JSON.parse(line.slice(5));
+
+          if (message.type === 'chunk' && message.data) {
+            yield { audio: Buffer.from(message.data, 'base64'), alignment: 'native' };
+          } else if (message.type === 'timestamps' && message.word_timestamps) {
+            const { words, start, end } = message.word_timestamps;
+            yield {
+              audio: Buffer.alloc(0),
+              words: words.map((word: string, index: number): WordTiming => ({
+                word,
+                startMs: Math.round(start[index] * 1000),
+                endMs: Math.round(end[index] * 1000),
+              })),
+              alignment: 'native',
+            };
+          } else if (message.type === 'error') {
+            throw new Error(message.error || 'Cartesia synthesis failed');
+          }
+        }
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('[Cartesia] TTS error:', error);
+      }
       throw error;
     }
   }
@@ -103,11 +171,7 @@ export class CartesiaTTSProvider implements TTSProvider {
             this.websocket.send(
               JSON.stringify({
                 model_id: this.model,
-                transcript: text,
-                voice: {
-                  mode: 'id',
-                  id: this.voiceId,
-                },
+                ...this.transcript(text),
                 output_format: {
                   container: 'raw',
                   encoding: 'pcm_s16le',
@@ -155,6 +219,24 @@ export class CartesiaTTSProvider implements TTSProvider {
     }
   }
 
+  /**
+   * Transcript and voice fields for a request, with speech markup rendered
+   * and any prosody rate applied as the voice speed control
+   */
+  private transcript(text: string): { transcript: string; voice: Record<string, unknown> } {
+    const speech = renderSpeechMarkup(text, 'cartesia');
+    return {
+      transcript: speech.text,
+      voice: {
+        mode: 'id',
+        id: this.voiceId,
+        ...(speech.rate !== undefined
+          ? { __experimental_controls: { speed: Math.min(1, Math.max(-1, (speech.rate - 1) * 2)) } }
+          : {}),
+      },
+    };
+  }
+
   async stop(): Promise<void> {
     if (this.websocket) {
       this.websocket.close();
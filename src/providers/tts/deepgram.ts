@@ -2,25 +2,28 @@
  * Deepgram Aura TTS Provider
  */
 
-import { TTSProvider } from '../../types';
+import { TTSProvider, SynthesizeOptions, AudioFormat } from '../../types';
 import axios from 'axios';
+import { renderSpeechMarkup } from '../../utils/speech-markup';
 
 export class DeepgramTTSProvider implements TTSProvider {
   private apiKey: string;
   private voice: string;
   private model: string;
 
+  readonly outputFormat: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
   constructor(config: { apiKey: string; voice?: string; model?: string }) {
     this.apiKey = config.apiKey;
     this.voice = config.voice || 'aura-asteria-en';
     this.model = config.model || 'aura-2';
   }
 
-  async *synthesize(text: string): AsyncIterable<Buffer> {
+  async *synthesize(text: string, options: SynthesizeOptions = {}): AsyncIterable<Buffer> {
     try {
       const response = await axios.post(
         'https://api.deepgram.com/v1/speak',
-        { text },
+        { text: renderSpeechMarkup(text, 'plain').text },
         {
           headers: {
             Authorization: `Token ${this.apiKey}`,
@@ -30,8 +33,10 @@ export class DeepgramTTSProvider implements TTSProvider {
             model: this.voice,
             encoding: 'linear16',
             sample_rate: 16000,
+            container: 'none',
           },
           responseType: 'stream',
+          signal: options.signal,
         }
       );
 
@@ -39,7 +44,9 @@ export class DeepgramTTSProvider implements TTSProvider {
         yield Buffer.from(chunk);
       }
     } catch (error) {
-      console.error('[Deepgram TTS] Synthesis error:', error);
+      if (!options.signal?.aborted) {
+        console.error('[Deepgram TTS] Synthesis error:', error);
+      }
       throw error;
     }
   }
@@ -2,8 +2,16 @@
  * ElevenLabs TTS Provider
  */
 
-import { TTSProvider } from '../../types';
+import { TTSProvider, SynthesizeOptions, AudioFormat, TimedAudioChunk } from '../../types';
 import axios from 'axios';
+import { renderSpeechMarkup } from '../../utils/speech-markup';
+import { CharacterAligner, audioDurationMs } from '../../utils/word-timing';
+
+interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
 
 export class ElevenLabsTTSProvider implements TTSProvider {
   private apiKey: string;
@@ -12,6 +20,8 @@ export class ElevenLabsTTSProvider implements TTSProvider {
   private stability: number;
   private similarityBoost: number;
 
+  readonly outputFormat: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
   constructor(config: {
     apiKey: string;
     voiceId: string;
@@ -26,33 +36,67 @@ export class ElevenLabsTTSProvider implements TTSProvider {
     this.similarityBoost = config.similarityBoost ?? 0.75;
   }
 
-  async *synthesize(text: string): AsyncIterable<Buffer> {
+  async *synthesize(text: string, options: SynthesizeOptions = {}): AsyncIterable<Buffer> {
     try {
-      const response = await axios.post(
-        `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}/stream`,
-        {
-          text,
-          model_id: this.model,
-          voice_settings: {
-            stability: this.stability,
-            similarity_boost: this.similarityBoost,
-          },
-        },
-        {
-          headers: {
-            Accept: 'audio/mpeg',
-            'Content-Type': 'application/json',
-            'xi-api-key': this.apiKey,
-          },
-          responseType: 'stream',
-        }
-      );
+      const response = await this.request('stream', text, options);
 
       for await (const chunk of response.data) {
         yield Buffer.from(chunk);
       }
     } catch (error) {
-      console.error('[ElevenLabs] TTS error:', error);
+      if (!options.signal?.aborted) {
+        console.error('[ElevenLabs] TTS error:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream audio with character alignment, grouped into words
+   */
+  async *synthesizeWithTimestamps(text: string, options: SynthesizeOptions = {}): AsyncIterable<TimedAudioChunk> {
+    try {
+      const response = await this.request('stream/with-timestamps', text, options);
+      const aligner = new CharacterAligner();
+      let receivedMs = 0;
+      let alignedMs = 0;
+      let pending = '';
+
+      // Newline-delimited JSON: { audio_base64, alignment }
+      for await (const data of response.data) {
+        pending += data.toString();
+        const lines = pending.split('\n');
+        pending = lines.pop()!;
+
+        for (const line of lines.filter((entry) => entry.trim())) {
+          const message = JSON.parse(line);
+          const audio = Buffer.from(message.audio_base64 || '', 'base64');
+          const alignment: ElevenLabsAlignment | null = message.alignment;
+          let words;
+
+          if (alignment?.characters.length) {
+            const starts = alignment.character_start_times_seconds.map((seconds) => seconds * 1000);
+            const ends = alignment.character_end_times_seconds.map((seconds) => seconds * 1000);
+            // Some models restart the clock on every chunk
+            const offset = starts[0] < alignedMs - 1 ? receivedMs : 0;
+            words = aligner.push(
+              alignment.characters,
+              starts.map((ms) => ms + offset),
+              ends.map((ms) => ms + offset)
+            );
+            alignedMs = ends[ends.length - 1] + offset;
+          }
+
+          receivedMs += audioDurationMs(audio.length, this.outputFormat);
+          yield { audio, words, alignment: 'native' };
+        }
+      }
+
+      yield { audio: Buffer.alloc(0), words: aligner.flush(), alignment: 'native' };
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('[ElevenLabs] TTS error:', error);
+      }
       throw error;
     }
   }
@@ -65,6 +109,35 @@ export class ElevenLabsTTSProvider implements TTSProvider {
     }
   }
 
+  private request(endpoint: string, text: string, options: SynthesizeOptions) {
+    const speech = renderSpeechMarkup(text, 'elevenlabs');
+    return axios.post(
+      `https://api.elevenlabs.io/v1/text-to-speech/${this.voiceId}/${endpoint}`,
+      {
+        text: speech.text,
+        model_id: this.model,
+        voice_settings: {
+          stability: this.stability,
+          similarity_boost: this.similarityBoost,
+          // ElevenLabs accepts speeds between 0.7 and 1.2
+          ...(speech.rate !== undefined ? { speed: Math.min(1.2, Math.max(0.7, speech.rate)) } : {}),
+        },
+      },
+      {
+        headers: {
+          Accept: endpoint === 'stream' ? 'audio/pcm' : 'application/json',
+          'Content-Type': 'application/json',
+          'xi-api-key': this.apiKey,
+        },
+        params: {
+          output_format: 'pcm_16000',
+        },
+        responseType: 'stream',
+        signal: options.signal,
+      }
+    );
+  }
+
   async stop(): Promise<void> {
     // Cleanup
   }
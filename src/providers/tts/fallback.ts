@@ -0,0 +1,162 @@
+/**
+ * Fallback TTS Provider
+ *
+ * Synthesizes each sentence with the first provider in the chain whose circuit
+ * is closed. When a provider fails before producing audio, the sentence is
+ * synthesized by the next provider, so a reply resumes from the sentence that
+ * failed instead of starting over. A failure after audio was handed out is
+ * rethrown: the caller has already played the start of the sentence, and
+ * synthesizing it again would repeat it. Audio from every provider is
+ * normalized to one outputFormat.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  TTSProvider,
+  SynthesizeOptions,
+  AudioFormat,
+  TimedAudioChunk,
+  FallbackProviderEntry,
+  ProviderFailoverEvent,
+} from '../../types';
+import { CircuitBreakerOptions, CircuitOpenError, RetryOptions, retry } from '../../utils/retry';
+import { normalizeAudioStream } from '../../utils/audio-codec';
+import { synthesizeWithTimings } from '../../utils/word-timing';
+import { FallbackChain } from '../fallback-chain';
+
+const DEFAULT_FORMAT: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
+export interface FallbackTTSConfig {
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Attempts per provider before failing over; applies until the first audio chunk (default: 1 attempt) */
+  retry?: RetryOptions;
+  /** Output format of the chain (default: the first provider's format, unwrapped and mono) */
+  outputFormat?: AudioFormat;
+}
+
+export class FallbackTTSProvider extends EventEmitter implements TTSProvider {
+  readonly outputFormat: AudioFormat;
+  private chain: FallbackChain<TTSProvider>;
+  private retryOptions: RetryOptions;
+
+  constructor(providers: FallbackProviderEntry<TTSProvider>[], config: FallbackTTSConfig = {}) {
+    super();
+    this.chain = new FallbackChain('tts', providers, config.circuitBreaker, (event: ProviderFailoverEvent) =>
+      this.emit('provider.failover', event)
+    );
+    this.retryOptions = { maxAttempts: 1, initialDelay: 200, ...config.retry };
+
+    const primary = config.outputFormat || providers[0].provider.outputFormat || DEFAULT_FORMAT;
+    this.outputFormat = { ...primary, channels: 1, container: 'raw' };
+  }
+
+  /**
+   * Name of the provider currently serving requests
+   */
+  get activeProvider(): string {
+    return this.chain.activeProvider;
+  }
+
+  synthesize(text: string, options: SynthesizeOptions = {}): AsyncIterable<Buffer> {
+    return this.failover((provider) => this.open(provider, text, options), options);
+  }
+
+  /**
+   * Word timings come from the serving provider: native where it has them, estimated otherwise
+   */
+  synthesizeWithTimestamps(text: string, options: SynthesizeOptions = {}): AsyncIterable<TimedAudioChunk> {
+    return this.failover((provider) => synthesizeWithTimings(provider, text, this.outputFormat, options), options);
+  }
+
+  /**
+   * Stream from the first provider that produces output, failing over to the next on error
+   */
+  private async *failover<T>(
+    open: (provider: TTSProvider) => AsyncIterable<T>,
+    options: SynthesizeOptions
+  ): AsyncIterable<T> {
+    let lastError: any;
+    let skipped = false;
+
+    for (let index = 0; index < this.chain.entries.length; index++) {
+      const entry = this.chain.entries[index];
+      if (!entry.breaker.canRequest()) {
+        skipped = true;
+        continue;
+      }
+
+      const startedAt = Date.now();
+      let iterator: AsyncIterator<T> | undefined;
+      let settled = false;
+      let emitted = false;
+
+      try {
+        // Retries are only safe before any audio has been handed out
+        const first = await retry(
+          async () => {
+            iterator = open(entry.provider)[Symbol.asyncIterator]();
+            return iterator.next();
+          },
+          {
+            ...this.retryOptions,
+            shouldRetry: (error) => !options.signal?.aborted && (this.retryOptions.shouldRetry?.(error) ?? true),
+          }
+        );
+        const timeToFirstAudio = Date.now() - startedAt;
+        this.chain.served(index, lastError, skipped);
+
+        let result = first;
+        while (!result.done) {
+          emitted = true;
+          yield result.value;
+          result = await iterator!.next();
+        }
+
+        settled = true;
+        entry.breaker.recordSuccess(timeToFirstAudio);
+        return;
+      } catch (error) {
+        settled = true;
+        if (options.signal?.aborted) {
+          entry.breaker.releaseProbe();
+          throw error;
+        }
+
+        entry.breaker.recordFailure();
+        console.error(`[Fallback TTS] ${entry.name} failed:`, error);
+        if (emitted) {
+          throw error;
+        }
+        lastError = error;
+      } finally {
+        // The consumer stopped early (e.g. barge-in): no verdict for the breaker
+        if (!settled) {
+          entry.breaker.releaseProbe();
+          void iterator?.return?.();
+        }
+      }
+    }
+
+    throw lastError ?? new CircuitOpenError('All TTS provider circuits are open');
+  }
+
+  async *synthesizeStream(textStream: AsyncIterable<string>): AsyncIterable<Buffer> {
+    for await (const text of textStream) {
+      if (text && text.trim().length > 0) {
+        yield* this.synthesize(text);
+      }
+    }
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.chain.entries.map((entry) => entry.provider.stop()));
+  }
+
+  private open(provider: TTSProvider, text: string, options: SynthesizeOptions): AsyncIterable<Buffer> {
+    return normalizeAudioStream(
+      provider.synthesize(text, options),
+      provider.outputFormat || DEFAULT_FORMAT,
+      this.outputFormat
+    );
+  }
+}
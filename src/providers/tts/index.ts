@@ -1,70 +1,94 @@
 /**
  * TTS Provider Factory
+ *
+ * Providers are looked up by name in a registry; register custom ones with
+ * registerTTSProvider().
  */
 
+import { z } from 'zod';
 import { TTSProvider, TTSConfig } from '../../types';
+import { ProviderRegistry, ProviderDefinition } from '../registry';
 import { ElevenLabsTTSProvider } from './elevenlabs';
 import { CartesiaTTSProvider } from './cartesia';
 import { OpenAITTSProvider } from './openai';
 import { DeepgramTTSProvider } from './deepgram';
 import { AzureTTSProvider } from './azure';
 
+const registry = new ProviderRegistry<TTSProvider>('TTS');
+
+/**
+ * Register a TTS provider under a name usable in TTSConfig.provider
+ */
+export function registerTTSProvider<S extends z.ZodTypeAny>(
+  name: string,
+  definition: ProviderDefinition<TTSProvider, S>
+): void {
+  registry.register(name, definition);
+}
+
+/**
+ * Names of all registered TTS providers
+ */
+export function getTTSProviderNames(): string[] {
+  return registry.names();
+}
+
+/**
+ * Create a registered TTS provider; config.config is merged into the options
+ */
 export function createTTSProvider(config: TTSConfig): TTSProvider {
-  switch (config.provider) {
-    case 'elevenlabs':
-      if (!config.voiceId) {
-        throw new Error('ElevenLabs requires voiceId in config');
-      }
-      return new ElevenLabsTTSProvider({
-        apiKey: config.apiKey,
-        voiceId: config.voiceId,
-        model: config.model,
-        ...config.config,
-      });
+  const { provider, config: extra, ...options } = config;
+  return registry.create(provider, { ...options, ...extra });
+}
 
-    case 'cartesia':
-      return new CartesiaTTSProvider({
-        apiKey: config.apiKey,
-        voiceId: config.voiceId,
-        model: config.model,
-      });
+// TTSConfig fields, accepted by every built-in provider; unknown keys are rejected
+const ttsOptions = z.object({
+  apiKey: z.string().min(1),
+  voiceId: z.string().optional(),
+  model: z.string().optional(),
+  streaming: z.boolean().optional(),
+  speed: z.number().positive().optional(),
+});
 
-    case 'openai':
-      return new OpenAITTSProvider({
-        apiKey: config.apiKey,
-        voice: config.voiceId,
-        model: config.model,
-      });
+registerTTSProvider('elevenlabs', {
+  schema: ttsOptions.extend({
+    voiceId: z.string({ required_error: 'ElevenLabs requires voiceId' }),
+    stability: z.number().min(0).max(1).optional(),
+    similarityBoost: z.number().min(0).max(1).optional(),
+  }).strict(),
+  create: (options) => new ElevenLabsTTSProvider(options),
+});
 
-    case 'deepgram':
-      return new DeepgramTTSProvider({
-        apiKey: config.apiKey,
-        voice: config.voiceId,
-        model: config.model,
-      });
+registerTTSProvider('cartesia', {
+  schema: ttsOptions.strict(),
+  create: (options) => new CartesiaTTSProvider(options),
+});
 
-    case 'azure':
-      const azureConfig = config.config;
-      if (!azureConfig?.region) {
-        throw new Error('Azure TTS requires region in config.config');
-      }
-      return new AzureTTSProvider({
-        subscriptionKey: config.apiKey,
-        region: azureConfig.region,
-        voice: config.voiceId,
-      });
+registerTTSProvider('openai', {
+  schema: ttsOptions.strict(),
+  create: ({ voiceId, ...options }) => new OpenAITTSProvider({ ...options, voice: voiceId }),
+});
 
-    case 'google':
-      throw new Error('Google TTS provider not yet implemented');
+registerTTSProvider('deepgram', {
+  schema: ttsOptions.strict(),
+  create: ({ voiceId, ...options }) => new DeepgramTTSProvider({ ...options, voice: voiceId }),
+});
 
-    default:
-      throw new Error(`Unknown TTS provider: ${config.provider}`);
-  }
-}
+registerTTSProvider('azure', {
+  schema: ttsOptions.extend({
+    region: z.string({ required_error: 'Azure TTS requires region in config.config' }),
+  }).strict(),
+  create: (options) =>
+    new AzureTTSProvider({
+      subscriptionKey: options.apiKey,
+      region: options.region,
+      voice: options.voiceId,
+    }),
+});
 
 export * from './elevenlabs';
 export * from './cartesia';
 export * from './openai';
 export * from './deepgram';
 export * from './azure';
-
+export * from './fallback';
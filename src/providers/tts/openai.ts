@@ -2,32 +2,44 @@
  * OpenAI TTS Provider
  */
 
-import { TTSProvider } from '../../types';
+import { TTSProvider, SynthesizeOptions, AudioFormat } from '../../types';
 import { OpenAI } from 'openai';
+import { renderSpeechMarkup } from '../../utils/speech-markup';
 
 export class OpenAITTSProvider implements TTSProvider {
   private client: OpenAI;
   private voice: string;
   private model: string;
 
+  readonly outputFormat: AudioFormat = { sampleRate: 24000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
   constructor(config: { apiKey: string; voice?: string; model?: string }) {
     this.client = new OpenAI({ apiKey: config.apiKey });
     this.voice = config.voice || 'alloy';
     this.model = config.model || 'tts-1';
   }
 
-  async *synthesize(text: string): AsyncIterable<Buffer> {
+  async *synthesize(text: string, options: SynthesizeOptions = {}): AsyncIterable<Buffer> {
     try {
-      const mp3 = await this.client.audio.speech.create({
+      // 'pcm' is raw 24kHz 16-bit little-endian mono
+      const response = await this.client.audio.speech.create({
         model: this.model,
         voice: this.voice as any,
-        input: text,
-      });
-
-      const buffer = Buffer.from(await mp3.arrayBuffer());
-      yield buffer;
+        input: renderSpeechMarkup(text, 'plain').text,
+        response_format: 'pcm',
+      }, { signal: options.signal });
+
+      if (response.body) {
+        for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+          yield Buffer.from(chunk);
+        }
+      } else {
+        yield Buffer.from(await response.arrayBuffer());
+      }
     } catch (error) {
-      console.error('[OpenAI TTS] Synthesis error:', error);
+      if (!options.signal?.aborted) {
+        console.error('[OpenAI TTS] Synthesis error:', error);
+      }
       throw error;
     }
   }
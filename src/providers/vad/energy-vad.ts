@@ -10,8 +10,8 @@ export class EnergyVADProvider implements VADProvider {
   private isStarted: boolean = false;
 
   constructor(config: { threshold?: number; sensitivity?: number } = {}) {
-    // Threshold for voice detection (0-1)
-    this.threshold = config.threshold ?? config.sensitivity ?? 0.02;
+    // RMS threshold for voice detection (0-1); sensitivity 0.5 maps to 0.02
+    this.threshold = config.threshold ?? (config.sensitivity !== undefined ? 0.04 * (1 - config.sensitivity) : 0.02);
   }
 
   async start(): Promise<void> {
@@ -1,9 +1,34 @@
 /**
  * VAD Provider Factory
+ *
+ * Providers are looked up by name in a registry ('spectral' by default);
+ * register custom ones with registerVADProvider().
  */
 
+import { z } from 'zod';
 import { VADProvider, VADConfig } from '../../types';
+import { ProviderRegistry, ProviderDefinition } from '../registry';
 import { EnergyVADProvider } from './energy-vad';
+import { SpectralVADProvider } from './spectral-vad';
+
+const registry = new ProviderRegistry<VADProvider>('VAD');
+
+/**
+ * Register a VAD provider under a name usable in VADConfig.provider
+ */
+export function registerVADProvider<S extends z.ZodTypeAny>(
+  name: string,
+  definition: ProviderDefinition<VADProvider, S>
+): void {
+  registry.register(name, definition);
+}
+
+/**
+ * Names of all registered VAD providers
+ */
+export function getVADProviderNames(): string[] {
+  return registry.names();
+}
 
 export function createVADProvider(config: VADConfig = {
   enabled: true,
@@ -11,12 +36,35 @@ export function createVADProvider(config: VADConfig = {
   speechThresholdMs: 300,
   sensitivity: 0.5
 }): VADProvider {
-  // For now, we only have energy-based VAD
-  // Silero VAD requires ONNX runtime which can be complex to set up
-  return new EnergyVADProvider({
-    sensitivity: config.sensitivity,
-  });
+  const { provider = 'spectral', config: extra, ...options } = config;
+  return registry.create(provider, { ...options, ...extra });
 }
 
-export * from './energy-vad';
+// VADConfig fields, accepted by every built-in provider; unknown keys are rejected
+const vadOptions = z.object({
+  enabled: z.boolean().optional(),
+  silenceThresholdMs: z.number().nonnegative().optional(),
+  speechThresholdMs: z.number().nonnegative().optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  sensitivity: z.number().min(0).max(1).optional(),
+});
 
+registerVADProvider('spectral', {
+  schema: vadOptions.extend({
+    sampleRate: z.number().int().positive().optional(),
+    frameMs: z.number().min(10).max(30).optional(),
+    noiseWindowMs: z.number().positive().optional(),
+    snrDb: z.number().optional(),
+    minNoiseFloorDb: z.number().optional(),
+    initialNoiseFloorDb: z.number().optional(),
+  }).strict(),
+  create: (options) => new SpectralVADProvider(options),
+});
+
+registerVADProvider('energy', {
+  schema: vadOptions.strict(),
+  create: (options) => new EnergyVADProvider(options),
+});
+
+export * from './energy-vad';
+export * from './spectral-vad';
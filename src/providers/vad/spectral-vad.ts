@@ -0,0 +1,223 @@
+/**
+ * Spectral Voice Activity Detection
+ *
+ * Scores fixed 10-30ms frames on four features and combines them into a
+ * per-frame speech probability:
+ * - energy above an adaptive noise floor (minimum energy over a sliding window)
+ * - share of energy in the speech band (250-4000Hz); hum and fan noise sit below it
+ * - spectral flatness; noise is flat, voiced speech has harmonic peaks
+ * - zero-crossing rate; broadband hiss crosses zero far more often than speech
+ *
+ * Because the floor follows the background level, steady noise stops counting
+ * as speech after a moment, and quiet speakers in a quiet room still do.
+ */
+
+import { VADProvider, VADFrameResult } from '../../types';
+import { powerSpectrum, nextPowerOfTwo } from '../../utils/spectrum';
+
+const MIN_ENERGY_DB = -90;
+const SPEECH_BAND_LOW_HZ = 250;
+const SPEECH_BAND_HIGH_HZ = 4000;
+
+export interface SpectralVADConfig {
+  /** Input sample rate of PCM16 mono audio (default: 16000) */
+  sampleRate?: number;
+  /** Analysis frame length, 10-30ms (default: 20) */
+  frameMs?: number;
+  /** Speech probability above which a frame is speech (default: 0.5) */
+  threshold?: number;
+  /** 0-1; higher detects quieter speech. Used when threshold is not set */
+  sensitivity?: number;
+  /** Window over which the noise floor is tracked (default: 1500) */
+  noiseWindowMs?: number;
+  /** Energy above the noise floor at which the energy score is 0.5 (default: 10) */
+  snrDb?: number;
+  /** Lowest noise floor assumed, so digital silence does not make faint noise look like speech (default: -65) */
+  minNoiseFloorDb?: number;
+  /** Noise floor before any audio was seen (default: -50) */
+  initialNoiseFloorDb?: number;
+}
+
+export class SpectralVADProvider implements VADProvider {
+  private sampleRate: number;
+  private frameSamples: number;
+  private fftSize: number;
+  private threshold: number;
+  private snrDb: number;
+  private minNoiseFloorDb: number;
+  private initialNoiseFloorDb: number;
+  private isStarted: boolean = false;
+
+  // Frame energies (dB) over the noise window, oldest first
+  private energyHistory: number[] = [];
+  private historyFrames: number;
+  private noiseFloor: number;
+  private remainder: Buffer = Buffer.alloc(0);
+  private lastResult: VADFrameResult | null = null;
+
+  constructor(config: SpectralVADConfig = {}) {
+    const frameMs = config.frameMs ?? 20;
+    if (frameMs < 10 || frameMs > 30) {
+      throw new Error(`SpectralVAD frameMs must be between 10 and 30, got ${frameMs}`);
+    }
+
+    this.sampleRate = config.sampleRate ?? 16000;
+    this.frameSamples = Math.round((this.sampleRate * frameMs) / 1000);
+    this.fftSize = nextPowerOfTwo(this.frameSamples);
+    this.threshold = config.threshold ?? (config.sensitivity !== undefined ? 1 - config.sensitivity : 0.5);
+    this.snrDb = config.snrDb ?? 10;
+    this.minNoiseFloorDb = config.minNoiseFloorDb ?? -65;
+    this.initialNoiseFloorDb = config.initialNoiseFloorDb ?? -50;
+    this.noiseFloor = this.initialNoiseFloorDb;
+    this.historyFrames = Math.max(1, Math.round((config.noiseWindowMs ?? 1500) / frameMs));
+  }
+
+  async start(): Promise<void> {
+    this.isStarted = true;
+  }
+
+  /**
+   * Whether the audio contains speech; true if any complete frame in it does.
+   * Audio shorter than a frame is held until the frame completes.
+   */
+  async detect(audio: Buffer): Promise<boolean> {
+    if (!this.isStarted) {
+      return false;
+    }
+
+    const results = await this.analyze(audio);
+    if (results.length === 0) {
+      return this.lastResult?.isSpeech ?? false;
+    }
+    return results.some((result) => result.isSpeech);
+  }
+
+  /**
+   * Per-frame results for every frame completed by this audio
+   */
+  async analyze(audio: Buffer): Promise<VADFrameResult[]> {
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, audio]) : audio;
+    const frameBytes = this.frameSamples * 2;
+    const results: VADFrameResult[] = [];
+
+    let offset = 0;
+    for (; offset + frameBytes <= data.length; offset += frameBytes) {
+      results.push(this.analyzeFrame(data.subarray(offset, offset + frameBytes)));
+    }
+
+    this.remainder = Buffer.from(data.subarray(offset));
+    return results;
+  }
+
+  /**
+   * Current noise floor estimate in dBFS
+   */
+  get noiseFloorDb(): number {
+    return this.noiseFloor;
+  }
+
+  async stop(): Promise<void> {
+    this.isStarted = false;
+    this.remainder = Buffer.alloc(0);
+  }
+
+  /**
+   * Forget the noise floor, e.g. when the audio source changes
+   */
+  reset(): void {
+    this.energyHistory = [];
+    this.noiseFloor = this.initialNoiseFloorDb;
+    this.remainder = Buffer.alloc(0);
+    this.lastResult = null;
+  }
+
+  setThreshold(threshold: number): void {
+    this.threshold = threshold;
+  }
+
+  private analyzeFrame(frame: Buffer): VADFrameResult {
+    const samples = new Float32Array(this.frameSamples);
+    let sumSquares = 0;
+    let crossings = 0;
+
+    for (let i = 0; i < this.frameSamples; i++) {
+      const sample = frame.readInt16LE(i * 2) / 32768;
+      samples[i] = sample;
+      sumSquares += sample * sample;
+      if (i > 0 && (sample >= 0) !== (samples[i - 1] >= 0)) {
+        crossings++;
+      }
+    }
+
+    const rms = Math.sqrt(sumSquares / this.frameSamples);
+    const energyDb = Math.max(MIN_ENERGY_DB, 20 * Math.log10(rms || Number.MIN_VALUE));
+    const noiseFloorDb = this.updateNoiseFloor(energyDb);
+    const zeroCrossingRate = crossings / (this.frameSamples - 1);
+    const { speechBandRatio, flatness } = this.spectralFeatures(samples);
+
+    // Energy gates the decision; spectral shape and zero crossings only discount it
+    const snrScore = 1 / (1 + Math.exp(-(energyDb - noiseFloorDb - this.snrDb) / 2.5));
+    const zcrScore = clamp((0.6 - zeroCrossingRate) / 0.3, 0, 1);
+    const shapeScore = clamp(
+      (0.5 * speechBandRatio + 0.3 * (1 - flatness) + 0.2 * zcrScore - 0.3) / 0.35,
+      0,
+      1
+    );
+
+    const probability = snrScore * shapeScore;
+    this.lastResult = {
+      isSpeech: probability > this.threshold,
+      probability,
+      energyDb,
+      noiseFloorDb,
+    };
+    return this.lastResult;
+  }
+
+  /**
+   * Noise floor = lowest frame energy over the window; drops at once, rises smoothly
+   */
+  private updateNoiseFloor(energyDb: number): number {
+    this.energyHistory.push(energyDb);
+    if (this.energyHistory.length > this.historyFrames) {
+      this.energyHistory.shift();
+    }
+
+    const minimum = Math.max(this.minNoiseFloorDb, Math.min(...this.energyHistory));
+    if (minimum < this.noiseFloor) {
+      this.noiseFloor = minimum;
+    } else {
+      this.noiseFloor += 0.1 * (minimum - this.noiseFloor);
+    }
+    return this.noiseFloor;
+  }
+
+  private spectralFeatures(samples: Float32Array): { speechBandRatio: number; flatness: number } {
+    const power = powerSpectrum(samples, this.fftSize);
+    const hzPerBin = this.sampleRate / this.fftSize;
+    const low = Math.max(1, Math.ceil(SPEECH_BAND_LOW_HZ / hzPerBin));
+    const high = Math.min(power.length - 1, Math.floor(SPEECH_BAND_HIGH_HZ / hzPerBin));
+
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let k = 1; k < power.length; k++) {
+      total += power[k];
+      if (k >= low && k <= high) {
+        band += power[k];
+        logSum += Math.log(power[k] + 1e-12);
+      }
+    }
+
+    const bins = high - low + 1;
+    const arithmeticMean = band / bins;
+    return {
+      speechBandRatio: total > 0 ? band / total : 0,
+      flatness: arithmeticMean > 0 ? Math.exp(logSum / bins) / (arithmeticMean + 1e-12) : 1,
+    };
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -1,99 +1,105 @@
 /**
  * Voice Agent WebSocket Server
- * 
- * Multi-modal server that supports:
+ *
+ * Realtime protocol server: one VoiceAgent per WebSocketConnection, driven by
+ * session.*, input_audio_buffer.*, conversation.item.* and response.* messages.
+ *
+ * Multi-modal:
  * - Audio input → STT → agents-sdk → TTS → Audio + Text output
  * - Text input → agents-sdk → TTS → Audio + Text output
- * 
- * NOTE: This is a basic example server. For production, use the examples in /examples folder
  */
 
-import { WebSocketServer as WSServer, WebSocket } from 'ws';
-import { Server as HTTPServer } from 'http';
 import { EventEmitter } from 'events';
 import { VoiceAgent, VoiceAgentConfig } from '../voice-agent';
+import { WebSocketServer, WebSocketServerConfig, WebSocketConnection } from '../transport/websocket-server';
+import { RealtimeSession, RealtimeSessionConfig } from './realtime-session';
+import type { TransferRequest } from '../voice-agent/call-control';
+
+export { RealtimeSession, toAgentUpdate } from './realtime-session';
+export type { RealtimeSessionConfig, VoiceAgentFactory } from './realtime-session';
 
 /**
- * Basic WebSocket Server Config
+ * Voice Agent Server Config
  */
-export interface ServerConfig {
-  port?: number;
-  host?: string;
-  server?: HTTPServer;
-  apiKeys?: string[];
+export interface ServerConfig extends WebSocketServerConfig {
+  /**
+   * Build the VoiceAgent config for a new session.
+   * Receives the client's session.create settings (model names, voice, instructions, ...).
+   */
+  createAgentConfig: (
+    session: RealtimeSessionConfig,
+    sessionId: string
+  ) => VoiceAgentConfig | Promise<VoiceAgentConfig>;
 }
 
 /**
- * Simple Voice Agent Server
- * 
- * For production usage, see examples/multi-modal-agent.ts
+ * Voice Agent Server
+ *
+ * Events:
+ * - 'session.created' (sessionId, agent) - VoiceAgent created for a connection
+ * - 'session.transfer_requested' (sessionId, request) - the agent called transfer_call;
+ *   transfer the caller, then end the session with agent.endSession('transferred')
+ * - 'session.closed' (sessionId)
+ * - 'error' (error)
  */
 export class VoiceAgentServer extends EventEmitter {
   private config: ServerConfig;
-  private wss: WSServer;
-  private sessions: Map<string, VoiceAgent> = new Map();
+  private wss: WebSocketServer;
+  private sessions: Map<string, RealtimeSession> = new Map();
 
-  constructor(config: ServerConfig = {}) {
+  constructor(config: ServerConfig) {
     super();
     this.config = config;
-    
-    this.wss = new WSServer({
-      port: config.port || 8080,
-      host: config.host,
-      server: config.server,
+
+    this.wss = new WebSocketServer(config);
+
+    this.wss.on('connection', (sessionId: string, connection: WebSocketConnection) => {
+      this.handleConnection(sessionId, connection);
+    });
+
+    this.wss.on('error', (error: Error) => {
+      this.emit('error', error);
     });
-    
-    this.wss.on('connection', this.handleConnection.bind(this));
   }
 
-  private handleConnection(ws: WebSocket) {
-    const sessionId = this.generateSessionId();
-    
-    console.log(`[${sessionId}] New connection`);
-    
-    // Note: You need to create voice agent with proper config
-    // See examples/multi-modal-agent.ts for complete implementation
-    
-    ws.on('message', async (message) => {
-      // Handle binary audio or JSON text
-      if (message instanceof Buffer) {
-        // Audio input mode
-        const agent = this.sessions.get(sessionId);
-        if (agent) {
-          await agent.processAudio(message);
-        }
-      } else {
-        // Text input mode
-        const data = JSON.parse(message.toString());
-        if (data.type === 'text') {
-          const agent = this.sessions.get(sessionId);
-          if (agent) {
-            await agent.processText(data.text);
-          }
-        }
-      }
+  private handleConnection(sessionId: string, connection: WebSocketConnection): void {
+    const session = new RealtimeSession(sessionId, connection, async (sessionConfig) => {
+      return new VoiceAgent(await this.config.createAgentConfig(sessionConfig, sessionId));
     });
-    
-    ws.on('close', () => {
-      console.log(`[${sessionId}] Connection closed`);
-      const agent = this.sessions.get(sessionId);
-      if (agent) {
-        agent.stop();
-        this.sessions.delete(sessionId);
-      }
+
+    session.on('agent.created', (agent: VoiceAgent) => {
+      this.emit('session.created', sessionId, agent);
+      agent.on('session.transfer_requested', (request: TransferRequest) => {
+        this.emit('session.transfer_requested', sessionId, request);
+      });
     });
+
+    session.on('closed', () => {
+      this.sessions.delete(sessionId);
+      this.emit('session.closed', sessionId);
+    });
+
+    this.sessions.set(sessionId, session);
+  }
+
+  /**
+   * Get a session by ID
+   */
+  getSession(sessionId: string): RealtimeSession | undefined {
+    return this.sessions.get(sessionId);
   }
 
-  private generateSessionId(): string {
-    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * Number of active sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
   }
 
   async stop() {
-    for (const [sessionId, agent] of this.sessions) {
-      await agent.stop();
-    }
+    await Promise.all(Array.from(this.sessions.values()).map((session) => session.close()));
     this.sessions.clear();
-    this.wss.close();
+    await this.wss.close();
   }
 }
 
@@ -0,0 +1,693 @@
+/**
+ * Realtime Session - Bridges one WebSocketConnection to one VoiceAgent
+ *
+ * Client messages (OpenAI Realtime style) drive the agent:
+ *   session.create / session.update
+ *   input_audio_buffer.append / commit / clear (binary frames are appended too)
+ *   conversation.item.create
+ *   response.create / response.cancel
+ *
+ * Agent events are sent back as VoiceAgentEvents, so VoiceAgentClient
+ * works against it out of the box.
+ */
+
+import { EventEmitter } from 'events';
+import type { WebSocketConnection } from '../transport/websocket-server';
+import type { AudioTranscriptDelta, VoiceAgent, VoiceAgentSessionUpdate } from '../voice-agent/voice-agent';
+import type { SessionEnding } from '../voice-agent/session-policies';
+import type { TransferRequest } from '../voice-agent/call-control';
+import type { AnsweringMachineResult } from '../voice-agent/answering-machine';
+import type {
+  ClientMessage,
+  ConversationItemCreateMessage,
+  ResponseCreatedEvent,
+  SessionCreatedEvent,
+  VoiceAgentEvent,
+  VoiceAgentEventType,
+} from '../types/events';
+import type { SessionConfig } from '../types';
+import { isSessionAudioFormat } from '../utils/audio-codec';
+import type { AudioQualityReport } from '../utils/audio-processor';
+import { validatePronunciations } from '../utils/pronunciation-lexicon';
+import type { VisemeDelta } from '../utils/visemes';
+import { Logger } from '../utils/logger';
+
+/**
+ * Session settings sent by the client in session.create / session.update
+ */
+export type RealtimeSessionConfig = Partial<SessionConfig> &
+  Partial<Pick<SessionCreatedEvent['session'], 'max_response_output_tokens'>>;
+
+/**
+ * Creates the VoiceAgent for a session from the client's session.create settings
+ */
+export type VoiceAgentFactory = (
+  session: RealtimeSessionConfig,
+  sessionId: string
+) => VoiceAgent | Promise<VoiceAgent>;
+
+type ResponseStatus = ResponseCreatedEvent['response']['status'];
+
+interface ActiveResponse {
+  id: string;
+  itemId: string;
+  text: string;
+  usage?: ResponseCreatedEvent['response']['usage'];
+}
+
+export class RealtimeSession extends EventEmitter {
+  private sessionId: string;
+  private connection: WebSocketConnection;
+  private createAgent: VoiceAgentFactory;
+  private logger: Logger;
+
+  private config: RealtimeSessionConfig = {};
+  private agent: VoiceAgent | null = null;
+  private agentReady: Promise<VoiceAgent> | null = null;
+  private agentEnded = false;
+  private closing: Promise<void> | null = null;
+  private audioInput: Promise<void> = Promise.resolve();
+
+  // Conversation state
+  private pendingText: string[] = [];
+  private textInputs: string[] = [];
+  private inputItemId: string | null = null;
+  private response: ActiveResponse | null = null;
+
+  constructor(sessionId: string, connection: WebSocketConnection, createAgent: VoiceAgentFactory) {
+    super();
+    this.sessionId = sessionId;
+    this.connection = connection;
+    this.createAgent = createAgent;
+    this.logger = new Logger('info', `[RealtimeSession ${sessionId}]`);
+
+    connection.on('message', (message: ClientMessage) => {
+      void this.handleMessage(message);
+    });
+
+    connection.on('audio-data', (audio: Buffer) => {
+      void this.handleAudio(audio);
+    });
+
+    connection.on('close', () => {
+      void this.close();
+    });
+  }
+
+  /**
+   * Handle a client protocol message
+   */
+  async handleMessage(message: ClientMessage): Promise<void> {
+    try {
+      switch (message.type) {
+        case 'session.create':
+          await this.createSession(message.session || {});
+          break;
+
+        case 'session.update':
+          await this.updateSession(message.session || {});
+          break;
+
+        case 'input_audio_buffer.append':
+          await this.handleAudio(Buffer.from(message.audio || '', 'base64'));
+          break;
+
+        case 'input_audio_buffer.commit':
+          void (await this.ensureAgent()).commitAudio();
+          break;
+
+        case 'input_audio_buffer.clear':
+          (await this.ensureAgent()).clearAudioBuffer();
+          break;
+
+        case 'conversation.item.create':
+          this.createItem(message as ConversationItemCreateMessage);
+          break;
+
+        case 'response.create':
+          await this.createResponse();
+          break;
+
+        case 'response.cancel':
+          await this.agent?.interrupt();
+          break;
+
+        default:
+          this.sendError('invalid_request_error', 'unknown_message_type', `Unsupported message type: ${message.type}`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Error handling ${message.type}:`, error);
+      this.sendError('server_error', 'message_failed', error?.message || 'Failed to handle message');
+    }
+  }
+
+  /**
+   * Handle input audio in the session's input_audio_format. Chunks are processed
+   * one at a time, in arrival order: turn detection, echo suppression and the
+   * input buffer are stateful, and an async VAD would otherwise interleave frames.
+   */
+  handleAudio(audio: Buffer): Promise<void> {
+    if (audio.length === 0) {
+      return Promise.resolve();
+    }
+    const processed = this.audioInput.then(async () => {
+      const agent = await this.ensureAgent();
+      await agent.processAudio(audio);
+    });
+    // A failed chunk must not stall the ones queued behind it
+    this.audioInput = processed.catch(() => undefined);
+    return processed;
+  }
+
+  /**
+   * Stop the agent and release the session; later calls wait for the first one
+   */
+  close(): Promise<void> {
+    if (!this.closing) {
+      this.closing = this.release();
+    }
+    return this.closing;
+  }
+
+  private async release(): Promise<void> {
+    const agent = await this.agentReady?.catch(() => null);
+    if (agent) {
+      // An agent that ended its session has stopped already; events raised while
+      // stopping (errors, final quality report) still reach the client
+      if (!this.agentEnded) {
+        await agent.stop();
+      }
+      agent.removeAllListeners();
+    }
+    this.emit('closed');
+  }
+
+  /**
+   * Get session ID
+   */
+  get id(): string {
+    return this.sessionId;
+  }
+
+  /**
+   * Get the session's VoiceAgent, once created
+   */
+  getAgent(): VoiceAgent | null {
+    return this.agent;
+  }
+
+  private async createSession(session: RealtimeSessionConfig): Promise<void> {
+    if (this.agentReady) {
+      this.sendError('invalid_request_error', 'session_already_created', 'Session already created; use session.update');
+      return;
+    }
+    if (!this.validateAudioFormats(session) || !this.validatePronunciations(session)) {
+      return;
+    }
+    this.config = session;
+    await this.ensureAgent();
+  }
+
+  private async updateSession(update: RealtimeSessionConfig): Promise<void> {
+    if (!this.validateAudioFormats(update) || !this.validatePronunciations(update)) {
+      return;
+    }
+    this.config = {
+      ...this.config,
+      ...update,
+      turn_detection: update.turn_detection
+        ? { ...this.config.turn_detection, ...update.turn_detection }
+        : this.config.turn_detection,
+    };
+
+    const agent = await this.ensureAgent();
+    agent.updateSession(toAgentUpdate(update));
+    this.send('session.updated', { session: this.describeSession() });
+  }
+
+  private validateAudioFormats(session: RealtimeSessionConfig): boolean {
+    for (const format of [session.input_audio_format, session.output_audio_format]) {
+      if (format !== undefined && !isSessionAudioFormat(format)) {
+        this.sendError('invalid_request_error', 'unsupported_audio_format', `Unsupported audio format: ${format}`);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private validatePronunciations(session: RealtimeSessionConfig): boolean {
+    if (session.pronunciations === undefined) {
+      return true;
+    }
+    const issues = validatePronunciations(session.pronunciations);
+    if (issues.length > 0) {
+      this.sendError('invalid_request_error', 'invalid_pronunciation', `Invalid pronunciations: ${issues.join('; ')}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Create the agent on first use (session.create, or any message before it)
+   */
+  private ensureAgent(): Promise<VoiceAgent> {
+    if (!this.agentReady) {
+      this.agentReady = this.startAgent();
+      this.agentReady.catch(() => {
+        // Allow the client to retry with another session.create
+        this.agentReady = null;
+      });
+    }
+    return this.agentReady;
+  }
+
+  private async startAgent(): Promise<VoiceAgent> {
+    const agent = await this.createAgent(this.config, this.sessionId);
+    this.attachAgent(agent);
+    await agent.initialize();
+
+    const update = toAgentUpdate(this.config);
+    if (Object.keys(update).length > 0) {
+      agent.updateSession(update);
+    }
+
+    this.agent = agent;
+    this.emit('agent.created', agent);
+    this.send('session.created', { session: this.describeSession() });
+    return agent;
+  }
+
+  /**
+   * Queue a user text item; it is answered on the next response.create
+   */
+  private createItem(message: ConversationItemCreateMessage): void {
+    const item = message.item;
+    if (item?.type !== 'message' || item.role !== 'user') {
+      this.sendError(
+        'invalid_request_error',
+        'unsupported_item',
+        'Only user message items are supported; tools run on the server'
+      );
+      return;
+    }
+
+    const text = (item.content || [])
+      .map((part) => part.text ?? part.transcript ?? '')
+      .join(' ')
+      .trim();
+    if (!text) {
+      this.sendError('invalid_request_error', 'empty_item', 'Message item has no text content');
+      return;
+    }
+
+    this.pendingText.push(text);
+    this.send('conversation.item.created', {
+      item: {
+        id: this.generateId('item'),
+        object: 'item',
+        type: 'message',
+        status: 'completed',
+        role: 'user',
+        content: [{ type: 'input_text', text }],
+      },
+    });
+  }
+
+  private async createResponse(): Promise<void> {
+    const agent = await this.ensureAgent();
+
+    if (this.response) {
+      this.sendError(
+        'invalid_request_error',
+        'conversation_already_has_active_response',
+        `Conversation already has an active response: ${this.response.id}`
+      );
+      return;
+    }
+    if (this.pendingText.length === 0) {
+      this.sendError('invalid_request_error', 'no_input', 'No conversation items to respond to');
+      return;
+    }
+
+    const text = this.pendingText.join(' ');
+    this.pendingText = [];
+    this.textInputs.push(text);
+    void agent.processText(text);
+  }
+
+  /**
+   * Translate VoiceAgent events into protocol events
+   */
+  private attachAgent(agent: VoiceAgent): void {
+    agent.on('audio.input.buffer.speech_started', (event: { audioStartMs: number }) => {
+      this.inputItemId = this.generateId('item');
+      this.send('audio.input.buffer.speech_started', {
+        audio_start_ms: event.audioStartMs,
+        item_id: this.inputItemId,
+      });
+    });
+
+    agent.on('audio.input.buffer.speech_stopped', (event: { audioEndMs: number }) => {
+      this.send('audio.input.buffer.speech_stopped', {
+        audio_end_ms: event.audioEndMs,
+        item_id: this.currentInputItemId(),
+      });
+    });
+
+    agent.on('audio.input.buffer.committed', (event: { audioStartMs: number; audioEndMs: number }) => {
+      this.send('audio.input.buffer.committed', {
+        item_id: this.currentInputItemId(),
+        audio_start_ms: event.audioStartMs,
+        audio_end_ms: event.audioEndMs,
+      });
+    });
+
+    agent.on('audio.input.buffer.cleared', () => {
+      this.inputItemId = null;
+      this.send('audio.input.buffer.cleared');
+    });
+
+    agent.on('audio.input.quality', (report: AudioQualityReport) => {
+      this.send('audio.input.quality', {
+        duration_ms: report.durationMs,
+        rms_dbfs: report.rmsDbfs,
+        peak_dbfs: report.peakDbfs,
+        speech_level_dbfs: report.speechLevelDbfs,
+        noise_level_dbfs: report.noiseLevelDbfs,
+        snr_db: report.snrDb,
+        clipping_ratio: report.clippingRatio,
+        dc_offset: report.dcOffset,
+        gain_db: report.gainDb,
+        issues: report.issues,
+      });
+    });
+
+    agent.on('audio.input.echo', (event: { detected: boolean; delayMs: number; correlation: number }) => {
+      this.send('audio.input.echo', {
+        detected: event.detected,
+        delay_ms: event.delayMs,
+        correlation: event.correlation,
+      });
+    });
+
+    agent.on('transcription.delta', (event: { delta: string; transcript: string; isFinal: boolean }) => {
+      this.send('transcription.delta', {
+        item_id: this.currentInputItemId(),
+        output_index: 0,
+        content_index: 0,
+        delta: event.delta,
+        transcript: event.transcript,
+        is_final: event.isFinal,
+      });
+    });
+
+    agent.on('transcription', (transcript: string) => {
+      // Text items were already announced by conversation.item.created
+      if (this.textInputs[0] === transcript) {
+        this.textInputs.shift();
+        return;
+      }
+
+      this.send('conversation.item.input_audio_transcription.completed', {
+        item_id: this.currentInputItemId(),
+        content_index: 0,
+        transcript,
+      });
+      this.inputItemId = null;
+    });
+
+    agent.on('response.started', () => {
+      this.response = {
+        id: this.generateId('resp'),
+        itemId: this.generateId('item'),
+        text: '',
+      };
+      this.send('response.created', { response: this.describeResponse(this.response, 'in_progress') });
+    });
+
+    agent.on('response.text.delta', (delta: string) => {
+      if (!this.response) return;
+      this.response.text += delta;
+      this.send('response.text.delta', {
+        item_id: this.response.itemId,
+        output_index: 0,
+        content_index: 0,
+        delta,
+        text: this.response.text,
+      });
+    });
+
+    agent.on('response.text', (text: string) => {
+      if (!this.response) return;
+      this.send('response.text.done', {
+        item_id: this.response.itemId,
+        output_index: 0,
+        content_index: 0,
+        text,
+      });
+    });
+
+    agent.on('audio.chunk', (chunk: Buffer) => {
+      if (!this.response) return;
+      this.send('response.audio.delta', {
+        item_id: this.response.itemId,
+        output_index: 0,
+        content_index: 1,
+        delta: chunk.toString('base64'),
+      });
+    });
+
+    agent.on('response.audio_transcript.delta', (transcript: AudioTranscriptDelta) => {
+      if (!this.response) return;
+      this.send('response.audio_transcript.delta', {
+        item_id: this.response.itemId,
+        output_index: 0,
+        content_index: 1,
+        delta: transcript.delta,
+        words: transcript.words.map((timing) => ({
+          word: timing.word,
+          start_ms: timing.startMs,
+          end_ms: timing.endMs,
+        })),
+        alignment: transcript.alignment,
+      });
+    });
+
+    agent.on('response.viseme.delta', (delta: VisemeDelta) => {
+      if (!this.response) return;
+      this.send('response.viseme.delta', {
+        item_id: this.response.itemId,
+        output_index: 0,
+        content_index: 1,
+        chunk_index: delta.chunkIndex,
+        audio_start_ms: delta.audioStartMs,
+        visemes: delta.visemes.map((keyframe) => ({ viseme: keyframe.viseme, offset_ms: keyframe.offsetMs })),
+      });
+    });
+
+    agent.on('tool.call', (toolCall: { name: string; parameters: any }) => {
+      if (!this.response) return;
+      this.send('response.tool.call', {
+        item_id: this.response.itemId,
+        output_index: 0,
+        call_id: this.generateId('call'),
+        name: toolCall.name,
+        arguments: JSON.stringify(toolCall.parameters ?? {}),
+      });
+    });
+
+    agent.on('usage', (usage: { totalTokens: number; promptTokens: number; completionTokens: number }) => {
+      if (!this.response) return;
+      this.response.usage = {
+        total_tokens: usage.totalTokens,
+        input_tokens: usage.promptTokens,
+        output_tokens: usage.completionTokens,
+      };
+    });
+
+    agent.on('agent.handoff', (event: { chain: string[] }) => {
+      this.send('agent.handoff', { chain: event.chain });
+    });
+
+    agent.on('conversation.item.truncated', (event: { spokenText: string }) => {
+      if (!this.response) return;
+      this.send('conversation.item.truncated', {
+        item_id: this.response.itemId,
+        text: event.spokenText,
+      });
+    });
+
+    agent.on('response.done', (event: { status: ResponseStatus; text: string }) => {
+      const response = this.response;
+      if (!response) return;
+      this.response = null;
+
+      this.send('response.audio.done', {
+        item_id: response.itemId,
+        output_index: 0,
+        content_index: 1,
+      });
+      if (event.status === 'cancelled') {
+        this.send('response.cancelled', { response_id: response.id });
+      }
+      this.send('response.done', {
+        response: this.describeResponse({ ...response, text: event.text }, event.status),
+      });
+    });
+
+    agent.on('session.ending', (event: SessionEnding) => {
+      this.send('session.ending', { reason: event.reason, message: event.message });
+    });
+
+    agent.on('session.transfer_requested', (request: TransferRequest) => {
+      this.send('session.transfer_requested', { target: request.target, reason: request.reason, summary: request.summary });
+    });
+
+    agent.on('call.amd_result', (result: AnsweringMachineResult) => {
+      this.send('call.amd_result', {
+        result: result.result,
+        confidence: result.confidence,
+        reasons: result.reasons,
+        decision_ms: result.decisionMs,
+        transcript: result.transcript,
+      });
+    });
+
+    // The goodbye has played out: hang up
+    agent.on('session.ended', () => {
+      this.agentEnded = true;
+      this.connection.close(1000, 'Session ended');
+      void this.close();
+    });
+
+    agent.on('error', (error: any) => {
+      this.sendError('server_error', error?.code || 'agent_error', error?.message || String(error));
+    });
+  }
+
+  private describeSession(): SessionCreatedEvent['session'] {
+    const turnDetection = this.config.turn_detection;
+
+    return {
+      id: this.sessionId,
+      object: 'session',
+      model: this.config.model?.llm || 'default',
+      modalities: ['text', 'audio'],
+      instructions: this.config.instructions || '',
+      voice: this.config.voice || '',
+      input_audio_format: this.config.input_audio_format || 'pcm16',
+      output_audio_format: this.config.output_audio_format || 'pcm16',
+      turn_detection: {
+        type: turnDetection?.type || 'server_vad',
+        threshold: turnDetection?.threshold ?? 0.5,
+        prefix_padding_ms: 300,
+        silence_duration_ms: turnDetection?.silence_duration_ms ?? 700,
+      },
+      tools: (this.config.tools || []).map((tool) => ({
+        type: 'function' as const,
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      })),
+      tool_choice: 'auto',
+      temperature: this.config.temperature ?? 0.7,
+      max_response_output_tokens: this.config.max_tokens ?? this.config.max_response_output_tokens ?? 'inf',
+      ...(this.config.pronunciations ? { pronunciations: this.config.pronunciations } : {}),
+    };
+  }
+
+  private describeResponse(response: ActiveResponse, status: ResponseStatus): ResponseCreatedEvent['response'] {
+    const itemStatus = status === 'in_progress' ? 'in_progress' : status === 'completed' ? 'completed' : 'incomplete';
+
+    return {
+      id: response.id,
+      object: 'response',
+      status,
+      output: [
+        {
+          id: response.itemId,
+          object: 'item',
+          type: 'message',
+          status: itemStatus,
+          role: 'assistant',
+          content: [
+            { type: 'text', text: response.text },
+            { type: 'audio', transcript: response.text },
+          ],
+        },
+      ],
+      usage: response.usage,
+    };
+  }
+
+  private currentInputItemId(): string {
+    if (!this.inputItemId) {
+      this.inputItemId = this.generateId('item');
+    }
+    return this.inputItemId;
+  }
+
+  private send(type: VoiceAgentEventType, fields: Record<string, any> = {}): void {
+    this.connection.sendEvent({
+      type,
+      event_id: this.generateId('event'),
+      timestamp: new Date().toISOString(),
+      session_id: this.sessionId,
+      ...fields,
+    } as VoiceAgentEvent);
+  }
+
+  private sendError(type: string, code: string, message: string): void {
+    this.send('error', { error: { type, code, message } });
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+/**
+ * Map protocol session settings to a VoiceAgent session update
+ */
+export function toAgentUpdate(session: RealtimeSessionConfig): VoiceAgentSessionUpdate {
+  const update: VoiceAgentSessionUpdate = {};
+
+  if (session.instructions !== undefined) {
+    update.instructions = session.instructions;
+  }
+
+  const maxTokens =
+    session.max_tokens ??
+    (typeof session.max_response_output_tokens === 'number' ? session.max_response_output_tokens : undefined);
+  if (session.temperature !== undefined || maxTokens !== undefined) {
+    update.modelSettings = {};
+    if (session.temperature !== undefined) update.modelSettings.temperature = session.temperature;
+    if (maxTokens !== undefined) update.modelSettings.maxTokens = maxTokens;
+  }
+
+  if (session.input_audio_format || session.output_audio_format) {
+    update.audio = {};
+    if (session.input_audio_format) update.audio.inputFormat = session.input_audio_format;
+    if (session.output_audio_format) update.audio.outputFormat = session.output_audio_format;
+  }
+
+  const turnDetection = session.turn_detection;
+  if (turnDetection?.silence_duration_ms !== undefined || turnDetection?.speech_duration_ms !== undefined) {
+    update.vad = {};
+    if (turnDetection.silence_duration_ms !== undefined) {
+      update.vad.silenceThresholdMs = turnDetection.silence_duration_ms;
+    }
+    if (turnDetection.speech_duration_ms !== undefined) {
+      update.vad.speechThresholdMs = turnDetection.speech_duration_ms;
+    }
+  }
+
+  if (session.pronunciations) {
+    update.pronunciations = session.pronunciations.map(({ case_sensitive, ...entry }) => ({
+      ...entry,
+      ...(case_sensitive !== undefined ? { caseSensitive: case_sensitive } : {}),
+    }));
+  }
+
+  return update;
+}
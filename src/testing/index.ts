@@ -0,0 +1,18 @@
+/**
+ * Testing - Deterministic providers and models for offline tests
+ *
+ * Lets a VoiceAgent (or an agent on its own) run end to end without network
+ * access or API keys.
+ */
+
+export { ScriptedSTTProvider } from './scripted-stt';
+export type { ScriptedSTTConfig } from './scripted-stt';
+export { ToneTTSProvider } from './tone-tts';
+export type { ToneTTSConfig } from './tone-tts';
+export { ScriptedLanguageModel, handoffTo } from './scripted-model';
+export type {
+  ScriptedLanguageModelConfig,
+  ScriptedModelStep,
+  ScriptedModelResponse,
+  ScriptedToolCall,
+} from './scripted-model';
@@ -0,0 +1,175 @@
+/**
+ * Scripted Language Model - Deterministic LLM responses for offline tests
+ *
+ * Implements the AI SDK LanguageModelV1 interface, so it can be passed
+ * anywhere a real model is accepted (agents, generateText, streamText). Each
+ * doGenerate/doStream call consumes the next step of the script.
+ */
+
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart,
+} from 'ai';
+import { sleep } from '../utils/retry';
+
+export interface ScriptedToolCall {
+  toolName: string;
+  args?: Record<string, unknown>;
+}
+
+export interface ScriptedModelResponse {
+  /** Text of the response; streamed word by word */
+  text?: string;
+  toolCalls?: ScriptedToolCall[];
+  /** Fail this call instead of responding */
+  error?: Error;
+  /** Simulated delay before the response; when streaming, before each text delta */
+  delayMs?: number;
+}
+
+/**
+ * A script step: plain text, a response, or a function of the call options
+ */
+export type ScriptedModelStep =
+  | string
+  | ScriptedModelResponse
+  | ((options: LanguageModelV1CallOptions) => string | ScriptedModelResponse);
+
+export interface ScriptedLanguageModelConfig {
+  /** Reported as the model id (default: 'scripted') */
+  modelId?: string;
+  /** Used once the script runs out; without it an exhausted script throws */
+  fallback?: ScriptedModelStep;
+}
+
+/**
+ * Tool call step for the handoff tool an Agent creates for a handoff target
+ */
+export function handoffTo(agentName: string, reason = 'handoff', context?: string): ScriptedToolCall {
+  const args: Record<string, unknown> = { reason };
+  if (context !== undefined) {
+    args.context = context;
+  }
+  return {
+    toolName: `handoff_to_${agentName.toLowerCase().replace(/\s+/g, '_')}`,
+    args,
+  };
+}
+
+export class ScriptedLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly provider = 'scripted';
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode = undefined;
+
+  /** Options of each call, in order */
+  readonly calls: LanguageModelV1CallOptions[] = [];
+
+  private steps: ScriptedModelStep[];
+  private fallback?: ScriptedModelStep;
+
+  constructor(steps: ScriptedModelStep[] = [], config: ScriptedLanguageModelConfig = {}) {
+    this.steps = [...steps];
+    this.modelId = config.modelId || 'scripted';
+    this.fallback = config.fallback;
+  }
+
+  /**
+   * Append steps to the script
+   */
+  enqueue(...steps: ScriptedModelStep[]): void {
+    this.steps.push(...steps);
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const response = this.next(options);
+    if (response.delayMs) {
+      await sleep(response.delayMs);
+    }
+    const toolCalls = this.toolCalls(response);
+
+    return {
+      text: response.text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: toolCalls.length > 0 ? ('tool-calls' as const) : ('stop' as const),
+      usage: this.usage(options, response),
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const response = this.next(options);
+    const toolCalls = this.toolCalls(response);
+    const usage = this.usage(options, response);
+    const deltas = response.text ? response.text.match(/\S+\s*|\s+/g) || [] : [];
+    const delayMs = response.delayMs ?? 0;
+
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      async start(controller) {
+        for (const textDelta of deltas) {
+          if (delayMs > 0) {
+            await sleep(delayMs);
+          }
+          controller.enqueue({ type: 'text-delta', textDelta });
+        }
+        for (const toolCall of toolCalls) {
+          controller.enqueue({ type: 'tool-call', ...toolCall });
+        }
+        controller.enqueue({
+          type: 'finish',
+          finishReason: toolCalls.length > 0 ? 'tool-calls' : 'stop',
+          usage,
+        });
+        controller.close();
+      },
+    });
+
+    return { stream, rawCall: { rawPrompt: options.prompt, rawSettings: {} } };
+  }
+
+  private next(options: LanguageModelV1CallOptions): ScriptedModelResponse {
+    this.calls.push(options);
+
+    const step = this.steps.length > 0 ? this.steps.shift()! : this.fallback;
+    if (step === undefined) {
+      throw new Error(`ScriptedLanguageModel: no step left for call ${this.calls.length}`);
+    }
+
+    const resolved = typeof step === 'function' ? step(options) : step;
+    const response = typeof resolved === 'string' ? { text: resolved } : resolved;
+    if (response.error) {
+      throw response.error;
+    }
+    return response;
+  }
+
+  private toolCalls(response: ScriptedModelResponse) {
+    const callIndex = this.calls.length;
+    return (response.toolCalls || []).map((toolCall, index) => ({
+      toolCallType: 'function' as const,
+      toolCallId: `call_${callIndex}_${index}`,
+      toolName: toolCall.toolName,
+      args: JSON.stringify(toolCall.args ?? {}),
+    }));
+  }
+
+  /**
+   * Word counts stand in for token counts
+   */
+  private usage(options: LanguageModelV1CallOptions, response: ScriptedModelResponse) {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const promptText = options.prompt
+      .flatMap((message) =>
+        typeof message.content === 'string'
+          ? [message.content]
+          : message.content.map((part) => (part.type === 'text' ? part.text : ''))
+      )
+      .join(' ');
+
+    return {
+      promptTokens: words(promptText),
+      completionTokens: words(response.text || ''),
+    };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Scripted STT Provider - Deterministic transcripts for offline tests
+ *
+ * Transcripts come from audio fixtures (matched by exact bytes) or, for any
+ * other audio, from a list consumed in call order. An Error in either place
+ * makes that call fail, which is how provider outages are simulated.
+ */
+
+import { STTProvider } from '../types';
+import { sleep } from '../utils/retry';
+
+export interface ScriptedSTTConfig {
+  /** Transcripts (or errors) returned in call order */
+  transcripts?: Array<string | Error>;
+  /** Transcripts (or errors) for specific audio, matched by content */
+  fixtures?: Array<{ audio: Buffer; transcript: string | Error }>;
+  /** Simulated processing time per call (default: 0) */
+  latencyMs?: number;
+  /** Returned once the transcripts run out; without it an exhausted script throws */
+  fallback?: string;
+}
+
+export class ScriptedSTTProvider implements STTProvider {
+  private transcripts: Array<string | Error>;
+  private fixtures: Array<{ audio: Buffer; transcript: string | Error }>;
+  private latencyMs: number;
+  private fallback?: string;
+  private nextIndex = 0;
+
+  /** Audio received by each call, in order */
+  readonly calls: Buffer[] = [];
+
+  constructor(config: ScriptedSTTConfig = {}) {
+    this.transcripts = config.transcripts || [];
+    this.fixtures = config.fixtures || [];
+    this.latencyMs = config.latencyMs ?? 0;
+    this.fallback = config.fallback;
+  }
+
+  async transcribe(audio: Buffer): Promise<string> {
+    this.calls.push(audio);
+
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs);
+    }
+
+    const result = this.resolve(audio);
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  }
+
+  /**
+   * Collects the stream and transcribes it as one utterance when it ends
+   */
+  async *transcribeStream(audioStream: AsyncIterable<Buffer>): AsyncIterable<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of audioStream) {
+      chunks.push(chunk);
+    }
+
+    const transcript = await this.transcribe(Buffer.concat(chunks));
+    if (transcript) {
+      yield transcript;
+    }
+  }
+
+  async stop(): Promise<void> {
+    // Nothing to release
+  }
+
+  private resolve(audio: Buffer): string | Error {
+    const fixture = this.fixtures.find((entry) => entry.audio.equals(audio));
+    if (fixture) {
+      return fixture.transcript;
+    }
+
+    if (this.nextIndex < this.transcripts.length) {
+      return this.transcripts[this.nextIndex++];
+    }
+
+    if (this.fallback !== undefined) {
+      return this.fallback;
+    }
+    return new Error(`ScriptedSTTProvider: no transcript left for call ${this.calls.length}`);
+  }
+}
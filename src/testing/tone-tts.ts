@@ -0,0 +1,103 @@
+/**
+ * Tone TTS Provider - Deterministic synthetic speech for offline tests
+ *
+ * Renders a sine tone whose duration is proportional to the text length, so
+ * audio timing and byte counts are predictable without calling a real API.
+ */
+
+import { TTSProvider, SynthesizeOptions, AudioFormat } from '../types';
+import { sleep } from '../utils/retry';
+
+export interface ToneTTSConfig {
+  /** Audio duration per character of text (default: 60) */
+  msPerCharacter?: number;
+  /** Output sample rate (default: 16000) */
+  sampleRate?: number;
+  /** Tone frequency in Hz (default: 440) */
+  frequency?: number;
+  /** Peak amplitude 0-1 (default: 0.3) */
+  amplitude?: number;
+  /** Duration of each yielded chunk (default: 100) */
+  chunkMs?: number;
+  /** Simulated delay before the first chunk (default: 0) */
+  latencyMs?: number;
+  /** Fail synthesis for matching text */
+  failWhen?: (text: string) => boolean;
+}
+
+export class ToneTTSProvider implements TTSProvider {
+  readonly outputFormat: AudioFormat;
+  private msPerCharacter: number;
+  private frequency: number;
+  private amplitude: number;
+  private chunkMs: number;
+  private latencyMs: number;
+  private failWhen?: (text: string) => boolean;
+
+  /** Text of each synthesize() call, in order */
+  readonly texts: string[] = [];
+
+  constructor(config: ToneTTSConfig = {}) {
+    this.outputFormat = {
+      sampleRate: config.sampleRate ?? 16000,
+      channels: 1,
+      bitDepth: 16,
+      encoding: 'pcm',
+      container: 'raw',
+    };
+    this.msPerCharacter = config.msPerCharacter ?? 60;
+    this.frequency = config.frequency ?? 440;
+    this.amplitude = config.amplitude ?? 0.3;
+    this.chunkMs = config.chunkMs ?? 100;
+    this.latencyMs = config.latencyMs ?? 0;
+    this.failWhen = config.failWhen;
+  }
+
+  /**
+   * Number of samples rendered for a text
+   */
+  samplesFor(text: string): number {
+    return Math.round((text.length * this.msPerCharacter * this.outputFormat.sampleRate) / 1000);
+  }
+
+  async *synthesize(text: string, options: SynthesizeOptions = {}): AsyncIterable<Buffer> {
+    this.texts.push(text);
+
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs);
+    }
+    if (this.failWhen?.(text)) {
+      throw new Error(`ToneTTSProvider: synthesis failed for "${text}"`);
+    }
+
+    const total = this.samplesFor(text);
+    const chunkSamples = Math.max(1, Math.round((this.chunkMs * this.outputFormat.sampleRate) / 1000));
+    const peak = Math.round(this.amplitude * 32767);
+
+    for (let start = 0; start < total; start += chunkSamples) {
+      if (options.signal?.aborted) {
+        return;
+      }
+
+      const count = Math.min(chunkSamples, total - start);
+      const chunk = Buffer.alloc(count * 2);
+      for (let i = 0; i < count; i++) {
+        const phase = (2 * Math.PI * this.frequency * (start + i)) / this.outputFormat.sampleRate;
+        chunk.writeInt16LE(Math.round(peak * Math.sin(phase)), i * 2);
+      }
+      yield chunk;
+    }
+  }
+
+  async *synthesizeStream(textStream: AsyncIterable<string>): AsyncIterable<Buffer> {
+    for await (const text of textStream) {
+      if (text && text.trim().length > 0) {
+        yield* this.synthesize(text);
+      }
+    }
+  }
+
+  async stop(): Promise<void> {
+    // Nothing to release
+  }
+}
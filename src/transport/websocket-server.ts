@@ -5,10 +5,12 @@
 
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { Server as HTTPServer } from 'http';
 import { ClientMessage, VoiceAgentEvent } from '../types/events';
 
 export interface WebSocketServerConfig {
   port?: number;
+  server?: HTTPServer; // Attach to an existing HTTP server instead of listening on port
   host?: string;
   path?: string;
   apiKeys?: string[];
@@ -43,8 +45,8 @@ export class WebSocketConnection extends EventEmitter {
    * Setup WebSocket event handlers
    */
   private setupHandlers(): void {
-    this.ws.on('message', (data: WebSocket.Data) => {
-      this.handleMessage(data);
+    this.ws.on('message', (data: WebSocket.Data, isBinary: boolean) => {
+      this.handleMessage(data, isBinary);
     });
 
     this.ws.on('pong', () => {
@@ -65,8 +67,15 @@ export class WebSocketConnection extends EventEmitter {
   /**
    * Handle incoming messages
    */
-  private handleMessage(data: WebSocket.Data): void {
+  private handleMessage(data: WebSocket.Data, isBinary: boolean = true): void {
     try {
+      // ws delivers text frames as Buffers too
+      if (!isBinary) {
+        const message = JSON.parse(data.toString()) as ClientMessage;
+        this.emit('message', message);
+        return;
+      }
+
       // Handle binary audio data
       if (Buffer.isBuffer(data)) {
         this.emit('audio-data', data);
@@ -237,8 +246,9 @@ export class WebSocketServer extends EventEmitter {
     };
 
     this.wss = new WebSocket.Server({
-      port: this.config.port,
-      host: this.config.host,
+      ...(this.config.server
+        ? { server: this.config.server }
+        : { port: this.config.port, host: this.config.host }),
       path: this.config.path,
       maxPayload: this.config.maxPayload,
     });
@@ -3,10 +3,14 @@
  * Inspired by OpenAI Realtime API
  */
 
+import type { SessionConfig, SessionPronunciation, Viseme } from './index';
+
 export type VoiceAgentEventType =
   // Session Events
   | 'session.created'
   | 'session.updated'
+  | 'session.ending'
+  | 'session.transfer_requested'
   | 'session.closed'
   
   // Connection Events
@@ -22,6 +26,8 @@ export type VoiceAgentEventType =
   | 'audio.input.buffer.speech_stopped'
   | 'audio.input.buffer.committed'
   | 'audio.input.buffer.cleared'
+  | 'audio.input.quality'
+  | 'audio.input.echo'
   | 'audio.output.started'
   | 'audio.output.done'
   | 'audio.output.speech.started'
@@ -40,6 +46,8 @@ export type VoiceAgentEventType =
   | 'response.text.done'
   | 'response.audio.delta'
   | 'response.audio.done'
+  | 'response.audio_transcript.delta'
+  | 'response.viseme.delta'
   | 'response.tool.call'
   | 'response.done'
   | 'response.cancelled'
@@ -58,6 +66,9 @@ export type VoiceAgentEventType =
   | 'agent.processing.failed'
   | 'agent.interrupted'
   | 'agent.handoff'
+
+  // Call Events
+  | 'call.amd_result'
   
   // Error Events
   | 'error'
@@ -106,6 +117,7 @@ export interface SessionCreatedEvent extends BaseEvent {
     tool_choice: string;
     temperature: number;
     max_response_output_tokens: number | 'inf';
+    pronunciations?: SessionPronunciation[];
   };
 }
 
@@ -114,6 +126,27 @@ export interface SessionUpdatedEvent extends BaseEvent {
   session: SessionCreatedEvent['session'];
 }
 
+/**
+ * The server is ending the session (idle timeout, call duration limit, ...);
+ * the goodbye has been sent and the connection closes once it has played
+ */
+export interface SessionEndingEvent extends BaseEvent {
+  type: 'session.ending';
+  reason: string;
+  message?: string;
+}
+
+/**
+ * The agent asked to transfer the caller; the host application performs the
+ * transfer and ends the session
+ */
+export interface SessionTransferRequestedEvent extends BaseEvent {
+  type: 'session.transfer_requested';
+  target: string;
+  reason: string;
+  summary?: string;
+}
+
 /**
  * Audio Events
  */
@@ -135,6 +168,34 @@ export interface AudioInputBufferSpeechStoppedEvent extends BaseEvent {
   item_id: string;
 }
 
+export interface AudioInputBufferCommittedEvent extends BaseEvent {
+  type: 'audio.input.buffer.committed';
+  item_id: string;
+  audio_start_ms: number;
+  audio_end_ms: number;
+}
+
+export interface AudioInputQualityEvent extends BaseEvent {
+  type: 'audio.input.quality';
+  duration_ms: number;
+  rms_dbfs: number;
+  peak_dbfs: number;
+  speech_level_dbfs: number | null;
+  noise_level_dbfs: number;
+  snr_db: number | null;
+  clipping_ratio: number;
+  dc_offset: number;
+  gain_db: number;
+  issues: Array<'clipping' | 'low_level' | 'dc_offset' | 'low_snr'>;
+}
+
+export interface AudioInputEchoEvent extends BaseEvent {
+  type: 'audio.input.echo';
+  detected: boolean;
+  delay_ms: number;
+  correlation: number;
+}
+
 export interface AudioOutputStartedEvent extends BaseEvent {
   type: 'audio.output.started';
   item_id: string;
@@ -159,6 +220,7 @@ export interface TranscriptionDeltaEvent extends BaseEvent {
   content_index: number;
   delta: string;
   transcript: string;
+  is_final?: boolean;
 }
 
 export interface TranscriptionDoneEvent extends BaseEvent {
@@ -169,6 +231,27 @@ export interface TranscriptionDoneEvent extends BaseEvent {
   transcript: string;
 }
 
+/**
+ * Conversation Events
+ */
+export interface ConversationItemCreatedEvent extends BaseEvent {
+  type: 'conversation.item.created';
+  item: ResponseCreatedEvent['response']['output'][number];
+}
+
+export interface InputAudioTranscriptionCompletedEvent extends BaseEvent {
+  type: 'conversation.item.input_audio_transcription.completed';
+  item_id: string;
+  content_index: number;
+  transcript: string;
+}
+
+export interface ConversationItemTruncatedEvent extends BaseEvent {
+  type: 'conversation.item.truncated';
+  item_id: string;
+  text: string;
+}
+
 /**
  * Response Events
  */
@@ -186,7 +269,7 @@ export interface ResponseCreatedEvent extends BaseEvent {
       status: 'in_progress' | 'completed' | 'incomplete';
       role: 'system' | 'user' | 'assistant';
       content?: Array<{
-        type: 'text' | 'audio';
+        type: 'text' | 'audio' | 'input_text';
         text?: string;
         audio?: string;
         transcript?: string;
@@ -209,6 +292,14 @@ export interface ResponseTextDeltaEvent extends BaseEvent {
   text: string;
 }
 
+export interface ResponseTextDoneEvent extends BaseEvent {
+  type: 'response.text.done';
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  text: string;
+}
+
 export interface ResponseAudioDeltaEvent extends BaseEvent {
   type: 'response.audio.delta';
   item_id: string;
@@ -217,6 +308,37 @@ export interface ResponseAudioDeltaEvent extends BaseEvent {
   delta: string; // base64 encoded audio
 }
 
+/**
+ * Spoken words of the response audio; times are offsets from the start of
+ * the response's audio
+ */
+export interface ResponseAudioTranscriptDeltaEvent extends BaseEvent {
+  type: 'response.audio_transcript.delta';
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  delta: string;
+  words: Array<{ word: string; start_ms: number; end_ms: number }>;
+  /** 'native' from the TTS provider, 'estimated' from text length and audio duration */
+  alignment: 'native' | 'estimated';
+}
+
+/**
+ * Viseme keyframes for one response.audio.delta chunk; offsets are from the
+ * start of that chunk, and each viseme holds until the next
+ */
+export interface ResponseVisemeDeltaEvent extends BaseEvent {
+  type: 'response.viseme.delta';
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  /** Index of the response.audio.delta within the response, from 0 */
+  chunk_index: number;
+  /** Start of that chunk in the response audio */
+  audio_start_ms: number;
+  visemes: Array<{ viseme: Viseme; offset_ms: number }>;
+}
+
 export interface ResponseDoneEvent extends BaseEvent {
   type: 'response.done';
   response: ResponseCreatedEvent['response'];
@@ -234,6 +356,18 @@ export interface ResponseToolCallEvent extends BaseEvent {
   arguments: string;
 }
 
+/**
+ * Call Events: a person or an answering machine picked up an outbound call
+ */
+export interface CallAmdResultEvent extends BaseEvent {
+  type: 'call.amd_result';
+  result: 'human' | 'machine' | 'unknown';
+  confidence: number;
+  reasons: string[];
+  decision_ms: number;
+  transcript: string;
+}
+
 /**
  * Error Event
  */
@@ -267,18 +401,30 @@ export interface RateLimitEvent extends BaseEvent {
 export type VoiceAgentEvent =
   | SessionCreatedEvent
   | SessionUpdatedEvent
+  | SessionEndingEvent
+  | SessionTransferRequestedEvent
   | AudioInputStartedEvent
   | AudioInputBufferSpeechStartedEvent
   | AudioInputBufferSpeechStoppedEvent
+  | AudioInputBufferCommittedEvent
+  | AudioInputQualityEvent
+  | AudioInputEchoEvent
   | AudioOutputStartedEvent
   | AudioOutputDoneEvent
   | TranscriptionDeltaEvent
   | TranscriptionDoneEvent
+  | ConversationItemCreatedEvent
+  | InputAudioTranscriptionCompletedEvent
+  | ConversationItemTruncatedEvent
   | ResponseCreatedEvent
   | ResponseTextDeltaEvent
+  | ResponseTextDoneEvent
   | ResponseAudioDeltaEvent
+  | ResponseAudioTranscriptDeltaEvent
+  | ResponseVisemeDeltaEvent
   | ResponseDoneEvent
   | ResponseToolCallEvent
+  | CallAmdResultEvent
   | ErrorEvent
   | RateLimitEvent
   | BaseEvent;
@@ -312,6 +458,7 @@ export interface VoiceAgentEventEmitter {
  * Client message types for WebSocket/WebRTC communication
  */
 export type ClientMessageType =
+  | 'session.create'
   | 'session.update'
   | 'input_audio_buffer.append'
   | 'input_audio_buffer.commit'
@@ -327,6 +474,11 @@ export interface ClientMessage {
   [key: string]: any;
 }
 
+export interface SessionCreateMessage extends ClientMessage {
+  type: 'session.create';
+  session?: SessionConfig;
+}
+
 export interface SessionUpdateMessage extends ClientMessage {
   type: 'session.update';
   session: Partial<SessionCreatedEvent['session']>;
@@ -341,6 +493,10 @@ export interface InputAudioBufferCommitMessage extends ClientMessage {
   type: 'input_audio_buffer.commit';
 }
 
+export interface InputAudioBufferClearMessage extends ClientMessage {
+  type: 'input_audio_buffer.clear';
+}
+
 export interface ConversationItemCreateMessage extends ClientMessage {
   type: 'conversation.item.create';
   item: {
@@ -2,16 +2,32 @@
  * Shared types for Voice Agent SDK
  */
 
+import type { SessionAudioFormat } from '../utils/audio-codec';
+import type { EndOfTurnDecision } from '../voice-agent/end-of-turn';
+
 // Export event types
 export * from './events';
+export type { SessionAudioFormat } from '../utils/audio-codec';
 
 // Base provider interfaces
 export interface STTProvider {
   transcribe(audio: Buffer): Promise<string>;
   transcribeStream(audioStream: AsyncIterable<Buffer>): AsyncIterable<string>;
+  /**
+   * Optional streaming transcription with interim results.
+   * Providers that implement it let the voice pipeline surface partial transcripts.
+   */
+  transcribeStreamResults?(audioStream: AsyncIterable<Buffer>): AsyncIterable<STTStreamResult>;
   stop(): Promise<void>;
 }
 
+export interface STTStreamResult {
+  text: string;
+  isFinal: boolean;
+  /** True when the provider detected the end of the utterance */
+  speechFinal?: boolean;
+}
+
 export interface LLMProvider {
   generate(options: {
     messages: Message[];
@@ -23,17 +39,99 @@ export interface LLMProvider {
 }
 
 export interface TTSProvider {
-  synthesize(text: string): AsyncIterable<Buffer>;
+  /**
+   * Native format of the audio this provider yields. The voice pipeline
+   * normalizes it to the session output format; defaults to raw 16kHz PCM16 mono.
+   */
+  readonly outputFormat?: AudioFormat;
+  synthesize(text: string, options?: SynthesizeOptions): AsyncIterable<Buffer>;
+  /**
+   * Optional: audio in outputFormat with word timings from the provider's own
+   * alignment. Without it, timings are estimated from text length and audio duration.
+   */
+  synthesizeWithTimestamps?(text: string, options?: SynthesizeOptions): AsyncIterable<TimedAudioChunk>;
   synthesizeStream(textStream: AsyncIterable<string>): AsyncIterable<Buffer>;
   stop(): Promise<void>;
 }
 
+/**
+ * A spoken word; times are offsets from the start of the synthesized audio
+ */
+export interface WordTiming {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Mouth shapes of the Oculus/Meta viseme set (15 visemes)
+ */
+export type Viseme =
+  | 'sil' | 'PP' | 'FF' | 'TH' | 'DD' | 'kk' | 'CH' | 'SS' | 'nn' | 'RR' | 'aa' | 'E' | 'I' | 'O' | 'U';
+
+/**
+ * A viseme keyframe; it holds until the next one
+ */
+export interface VisemeTiming {
+  viseme: Viseme;
+  startMs: number;
+}
+
+export interface TimedAudioChunk {
+  audio: Buffer;
+  /** Words whose timing became known with this chunk (may come with empty audio) */
+  words?: WordTiming[];
+  /** Native viseme keyframes, when the provider reports them */
+  visemes?: VisemeTiming[];
+  /** 'native' from the provider's alignment, 'estimated' from text length and audio duration */
+  alignment?: 'native' | 'estimated';
+}
+
+export interface SynthesizeOptions {
+  /** Aborts the in-flight provider request (e.g. on barge-in) */
+  signal?: AbortSignal;
+  /** Ask providers with native visemes to report them with the word timings */
+  visemes?: boolean;
+}
+
+/**
+ * A provider in a fallback chain; name identifies it in failover events
+ */
+export interface FallbackProviderEntry<T> {
+  name: string;
+  provider: T;
+}
+
+/**
+ * Emitted as 'provider.failover' when a fallback chain switches providers
+ */
+export interface ProviderFailoverEvent {
+  kind: 'stt' | 'tts';
+  from: string;
+  to: string;
+  /** Why the previous provider was left: it failed, its circuit is open, or it recovered */
+  reason: 'error' | 'circuit_open' | 'recovered';
+  error?: any;
+}
+
 export interface VADProvider {
   detect(audio: Buffer): Promise<boolean>;
+  /** Per-frame speech probability, for providers that score frames */
+  analyze?(audio: Buffer): Promise<VADFrameResult[]>;
   start(): Promise<void>;
   stop(): Promise<void>;
 }
 
+export interface VADFrameResult {
+  isSpeech: boolean;
+  /** Speech probability 0-1 */
+  probability: number;
+  /** Frame energy in dBFS */
+  energyDb: number;
+  /** Background level the frame was compared against, in dBFS */
+  noiseFloorDb: number;
+}
+
 // Message types
 export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
@@ -71,13 +169,22 @@ export interface AudioFormat {
   sampleRate: number;
   channels: number;
   bitDepth: number;
-  encoding: 'pcm' | 'opus' | 'mp3';
+  encoding: 'pcm' | 'opus' | 'mp3' | 'mulaw' | 'alaw';
+  /** Container wrapping the samples; WAV headers are parsed and stripped */
+  container?: 'raw' | 'wav';
 }
 
 // Configuration interfaces
+/**
+ * Built-in provider names; any name added with register*Provider() is accepted too
+ */
+export type STTProviderName = 'deepgram' | 'assemblyai' | 'openai' | (string & {});
+export type TTSProviderName = 'elevenlabs' | 'cartesia' | 'openai' | 'deepgram' | 'azure' | (string & {});
+export type VADProviderName = 'spectral' | 'energy' | (string & {});
+
 export interface STTConfig {
-  provider: 'deepgram' | 'assemblyai' | 'openai' | 'google' | 'azure';
-  apiKey: string;
+  provider: STTProviderName;
+  apiKey?: string;
   model?: string;
   language?: string;
   streaming?: boolean;
@@ -97,8 +204,8 @@ export interface LLMConfig {
 }
 
 export interface TTSConfig {
-  provider: 'elevenlabs' | 'cartesia' | 'openai' | 'deepgram' | 'azure' | 'google';
-  apiKey: string;
+  provider: TTSProviderName;
+  apiKey?: string;
   voiceId?: string;
   model?: string;
   streaming?: boolean;
@@ -107,10 +214,12 @@ export interface TTSConfig {
 }
 
 export interface VADConfig {
+  provider?: VADProviderName;
   enabled: boolean;
   silenceThresholdMs: number;
   speechThresholdMs: number;
   sensitivity?: number;
+  config?: any;
 }
 
 // Transport configurations
@@ -168,6 +277,60 @@ export interface Metrics {
   llmLatency: number;
   ttsLatency: number;
   turns: number;
+  lastTurn?: TurnMetrics;
+  percentiles?: TurnMetricsSummary;
+}
+
+/**
+ * Wall-clock timestamps (epoch ms) of one turn's milestones
+ */
+export interface TurnTimeline {
+  endOfSpeech?: number;
+  sttFinal?: number;
+  firstLlmToken?: number;
+  firstSentence?: number;
+  firstTtsByte?: number;
+  lastAudioByte?: number;
+  interruptedAt?: number;
+}
+
+/**
+ * Latency breakdown of a single turn, emitted as 'turn.metrics'
+ *
+ * Durations are measured from the end of user speech when known,
+ * otherwise from when the input reached the agent.
+ */
+export interface TurnMetrics {
+  turnId: number;
+  input: 'audio' | 'text';
+  startedAt: number;
+  timeline: TurnTimeline;
+  sttLatency?: number;
+  timeToFirstToken?: number;
+  timeToFirstSentence?: number;
+  timeToFirstAudio?: number;
+  totalLatency?: number;
+  interrupted: boolean;
+  /** Semantic end-of-turn decisions that led to this turn, oldest first */
+  endOfTurn?: EndOfTurnDecision[];
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Percentiles over the rolling window of recent turns
+ */
+export interface TurnMetricsSummary {
+  count: number;
+  sttLatency?: LatencyPercentiles;
+  timeToFirstToken?: LatencyPercentiles;
+  timeToFirstSentence?: LatencyPercentiles;
+  timeToFirstAudio?: LatencyPercentiles;
+  totalLatency?: LatencyPercentiles;
 }
 
 // Session
@@ -180,6 +343,8 @@ export interface SessionConfig {
   };
   voice?: string;
   instructions?: string;
+  input_audio_format?: SessionAudioFormat;
+  output_audio_format?: SessionAudioFormat;
   turn_detection?: {
     type: 'server_vad';
     threshold?: number;
@@ -189,6 +354,18 @@ export interface SessionConfig {
   tools?: Tool[];
   temperature?: number;
   max_tokens?: number;
+  pronunciations?: SessionPronunciation[];
+}
+
+/**
+ * Pronunciation lexicon entry in session.create / session.update
+ */
+export interface SessionPronunciation {
+  grapheme: string;
+  alias?: string;
+  phoneme?: string;
+  alphabet?: 'ipa' | 'x-sampa' | 'cmu-arpabet';
+  case_sensitive?: boolean;
 }
 
 // Client configuration
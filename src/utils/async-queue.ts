@@ -0,0 +1,67 @@
+/**
+ * Async queue utility for bridging push-based producers to async iterators
+ */
+
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiters: Array<(result: IteratorResult<T>) => void> = [];
+  private closed = false;
+
+  /**
+   * Push an item to the queue
+   */
+  push(item: T): void {
+    if (this.closed) {
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  /**
+   * Close the queue. Pending consumers finish once buffered items are drained.
+   */
+  close(): void {
+    this.closed = true;
+    while (this.waiters.length > 0) {
+      this.waiters.shift()!({ value: undefined as any, done: true });
+    }
+  }
+
+  /**
+   * Check if the queue has been closed
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Get number of buffered items
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: (): Promise<IteratorResult<T>> => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift()!, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined as any, done: true });
+        }
+        return new Promise((resolve) => this.waiters.push(resolve));
+      },
+      return: (): Promise<IteratorResult<T>> => {
+        this.close();
+        return Promise.resolve({ value: undefined as any, done: true });
+      },
+    };
+  }
+}
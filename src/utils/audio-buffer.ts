@@ -54,6 +54,16 @@ export class AudioBuffer extends EventEmitter {
     this.emit('cleared');
   }
 
+  /**
+   * Keep only the most recent durationMs of audio
+   */
+  trimToDuration(durationMs: number): void {
+    const maxBytes = Math.floor((durationMs / 1000) * this.sampleRate) * 2;
+    if (this.buffer.length > maxBytes) {
+      this.buffer = this.buffer.slice(this.buffer.length - maxBytes);
+    }
+  }
+
   /**
    * Get current buffer size in bytes
    */
@@ -0,0 +1,336 @@
+/**
+ * Audio Codecs - Session audio formats, G.711 μ-law/A-law and transcoding
+ *
+ * Session formats:
+ *   pcm16            PCM16 mono, 16kHz (SDK default)
+ *   pcm16_8000 ...   PCM16 mono at 8/16/24/48kHz
+ *   g711_ulaw        G.711 μ-law, 8kHz (telephony)
+ *   g711_alaw        G.711 A-law, 8kHz (telephony)
+ */
+
+import type { AudioFormat } from '../types';
+import { Resampler } from './resampler';
+import { WavParser } from './wav';
+
+export type SessionAudioFormat =
+  | 'pcm16'
+  | 'pcm16_8000'
+  | 'pcm16_16000'
+  | 'pcm16_24000'
+  | 'pcm16_48000'
+  | 'g711_ulaw'
+  | 'g711_alaw';
+
+const SESSION_AUDIO_FORMATS: Record<SessionAudioFormat, AudioFormat> = {
+  pcm16: { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm' },
+  pcm16_8000: { sampleRate: 8000, channels: 1, bitDepth: 16, encoding: 'pcm' },
+  pcm16_16000: { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm' },
+  pcm16_24000: { sampleRate: 24000, channels: 1, bitDepth: 16, encoding: 'pcm' },
+  pcm16_48000: { sampleRate: 48000, channels: 1, bitDepth: 16, encoding: 'pcm' },
+  g711_ulaw: { sampleRate: 8000, channels: 1, bitDepth: 8, encoding: 'mulaw' },
+  g711_alaw: { sampleRate: 8000, channels: 1, bitDepth: 8, encoding: 'alaw' },
+};
+
+/**
+ * Check if a value is a supported session audio format
+ */
+export function isSessionAudioFormat(value: unknown): value is SessionAudioFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SESSION_AUDIO_FORMATS, value);
+}
+
+/**
+ * Resolve a session audio format name to its AudioFormat
+ */
+export function parseAudioFormat(format: SessionAudioFormat): AudioFormat {
+  const parsed = SESSION_AUDIO_FORMATS[format];
+  if (!parsed) {
+    throw new Error(`Unsupported audio format: ${format}`);
+  }
+  return { ...parsed };
+}
+
+// ============================================
+// G.711 (ITU-T reference segment tables)
+// ============================================
+
+const ULAW_SEGMENT_END = [0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff, 0x1fff];
+const ALAW_SEGMENT_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+const ULAW_BIAS = 0x84;
+const ULAW_CLIP = 8159;
+
+function segment(value: number, table: number[]): number {
+  for (let i = 0; i < table.length; i++) {
+    if (value <= table[i]) {
+      return i;
+    }
+  }
+  return table.length;
+}
+
+function linearToUlaw(sample: number): number {
+  let value = sample >> 2;
+  let mask = 0xff;
+  if (value < 0) {
+    value = -value;
+    mask = 0x7f;
+  }
+  value = Math.min(value, ULAW_CLIP) + (ULAW_BIAS >> 2);
+
+  const seg = segment(value, ULAW_SEGMENT_END);
+  if (seg >= 8) {
+    return 0x7f ^ mask;
+  }
+  return ((seg << 4) | ((value >> (seg + 1)) & 0x0f)) ^ mask;
+}
+
+function ulawToLinear(byte: number): number {
+  const value = ~byte & 0xff;
+  let sample = ((value & 0x0f) << 3) + ULAW_BIAS;
+  sample <<= (value & 0x70) >> 4;
+  return value & 0x80 ? ULAW_BIAS - sample : sample - ULAW_BIAS;
+}
+
+function linearToAlaw(sample: number): number {
+  let value = sample >> 3;
+  let mask = 0xd5;
+  if (value < 0) {
+    value = -value - 1;
+    mask = 0x55;
+  }
+
+  const seg = segment(value, ALAW_SEGMENT_END);
+  if (seg >= 8) {
+    return 0x7f ^ mask;
+  }
+  const mantissa = seg < 2 ? (value >> 1) & 0x0f : (value >> seg) & 0x0f;
+  return ((seg << 4) | mantissa) ^ mask;
+}
+
+function alawToLinear(byte: number): number {
+  const value = byte ^ 0x55;
+  let sample = (value & 0x0f) << 4;
+  const seg = (value & 0x70) >> 4;
+
+  if (seg === 0) {
+    sample += 8;
+  } else {
+    sample = (sample + 0x108) << (seg - 1);
+  }
+  return value & 0x80 ? sample : -sample;
+}
+
+const ULAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, byte) => ulawToLinear(byte));
+const ALAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, byte) => alawToLinear(byte));
+
+/**
+ * Encode PCM16 to G.711 μ-law
+ */
+export function encodeMulaw(pcm: Buffer): Buffer {
+  const output = Buffer.alloc(pcm.length >> 1);
+  for (let i = 0; i < output.length; i++) {
+    output[i] = linearToUlaw(pcm.readInt16LE(i * 2));
+  }
+  return output;
+}
+
+/**
+ * Decode G.711 μ-law to PCM16
+ */
+export function decodeMulaw(data: Buffer): Buffer {
+  const output = Buffer.alloc(data.length * 2);
+  for (let i = 0; i < data.length; i++) {
+    output.writeInt16LE(ULAW_DECODE_TABLE[data[i]], i * 2);
+  }
+  return output;
+}
+
+/**
+ * Encode PCM16 to G.711 A-law
+ */
+export function encodeAlaw(pcm: Buffer): Buffer {
+  const output = Buffer.alloc(pcm.length >> 1);
+  for (let i = 0; i < output.length; i++) {
+    output[i] = linearToAlaw(pcm.readInt16LE(i * 2));
+  }
+  return output;
+}
+
+/**
+ * Decode G.711 A-law to PCM16
+ */
+export function decodeAlaw(data: Buffer): Buffer {
+  const output = Buffer.alloc(data.length * 2);
+  for (let i = 0; i < data.length; i++) {
+    output.writeInt16LE(ALAW_DECODE_TABLE[data[i]], i * 2);
+  }
+  return output;
+}
+
+// ============================================
+// Transcoding
+// ============================================
+
+/**
+ * Streaming converter between two audio formats
+ * (unwrap container → decode → downmix → resample → encode).
+ * Partial frames split across chunks are carried over to the next chunk, and
+ * resampler state is kept so call flush() once the stream ends.
+ */
+export class AudioTranscoder {
+  private from: AudioFormat;
+  private to: AudioFormat;
+  private wav: WavParser | null = null;
+  private resampler: Resampler | null = null;
+  private remainder: Buffer = Buffer.alloc(0);
+
+  constructor(from: AudioFormat, to: AudioFormat) {
+    assertSupported(from);
+    assertSupported(to);
+    if (to.container === 'wav') {
+      throw new Error('Transcoding to a WAV container is not supported');
+    }
+    this.from = from;
+    this.to = to;
+
+    if (from.container === 'wav') {
+      // The header decides the actual source format
+      this.wav = new WavParser();
+    } else {
+      this.configure(from);
+    }
+  }
+
+  /**
+   * True when input and output formats are identical
+   */
+  get isPassthrough(): boolean {
+    return (
+      !this.wav &&
+      this.from.encoding === this.to.encoding &&
+      this.from.sampleRate === this.to.sampleRate &&
+      (this.from.channels || 1) === 1
+    );
+  }
+
+  /**
+   * Convert one chunk
+   */
+  transcode(chunk: Buffer): Buffer {
+    if (this.isPassthrough) {
+      // PCM16 samples split across chunks are still carried over
+      return this.from.encoding === 'pcm' ? this.decode(chunk) : chunk;
+    }
+
+    let data = chunk;
+    if (this.wav) {
+      data = this.wav.push(chunk);
+      if (data.length === 0) {
+        return data;
+      }
+      if (!this.wav.format) {
+        // No RIFF header after all: treat as the declared raw format
+        this.wav = null;
+        this.configure(this.from);
+      } else if (this.wav.format !== this.from) {
+        this.configure(this.wav.format);
+      }
+    }
+
+    const pcm = this.downmix(this.decode(data));
+    return this.encode(this.resampler ? this.resampler.process(pcm) : pcm);
+  }
+
+  /**
+   * Emit audio held back by the resampler at the end of a stream
+   */
+  flush(): Buffer {
+    this.remainder = Buffer.alloc(0);
+    if (!this.resampler) {
+      return Buffer.alloc(0);
+    }
+    return this.encode(this.resampler.flush());
+  }
+
+  private configure(from: AudioFormat): void {
+    assertSupported(from);
+    this.from = from;
+    this.resampler = from.sampleRate !== this.to.sampleRate
+      ? new Resampler(from.sampleRate, this.to.sampleRate)
+      : null;
+  }
+
+  private decode(chunk: Buffer): Buffer {
+    const frameSize = (this.from.encoding === 'pcm' ? 2 : 1) * (this.from.channels || 1);
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+    const whole = data.length - (data.length % frameSize);
+    this.remainder = Buffer.from(data.subarray(whole));
+    const frames = whole === data.length ? data : data.subarray(0, whole);
+
+    switch (this.from.encoding) {
+      case 'mulaw':
+        return decodeMulaw(frames);
+      case 'alaw':
+        return decodeAlaw(frames);
+      default:
+        return frames;
+    }
+  }
+
+  private downmix(pcm: Buffer): Buffer {
+    const channels = this.from.channels || 1;
+    if (channels === 1) {
+      return pcm;
+    }
+
+    const frames = pcm.length / (2 * channels);
+    const output = Buffer.alloc(frames * 2);
+    for (let i = 0; i < frames; i++) {
+      let sum = 0;
+      for (let c = 0; c < channels; c++) {
+        sum += pcm.readInt16LE((i * channels + c) * 2);
+      }
+      output.writeInt16LE(Math.round(sum / channels), i * 2);
+    }
+    return output;
+  }
+
+  private encode(pcm: Buffer): Buffer {
+    switch (this.to.encoding) {
+      case 'mulaw':
+        return encodeMulaw(pcm);
+      case 'alaw':
+        return encodeAlaw(pcm);
+      default:
+        return pcm;
+    }
+  }
+}
+
+/**
+ * Normalize a provider audio stream to the given format, flushing at the end
+ */
+export async function* normalizeAudioStream(
+  source: AsyncIterable<Buffer>,
+  from: AudioFormat,
+  to: AudioFormat
+): AsyncIterable<Buffer> {
+  const transcoder = new AudioTranscoder(from, to);
+
+  for await (const chunk of source) {
+    const output = transcoder.transcode(chunk);
+    if (output.length > 0) {
+      yield output;
+    }
+  }
+
+  const tail = transcoder.flush();
+  if (tail.length > 0) {
+    yield tail;
+  }
+}
+
+function assertSupported(format: AudioFormat): void {
+  if (format.encoding !== 'pcm' && format.encoding !== 'mulaw' && format.encoding !== 'alaw') {
+    throw new Error(`Unsupported audio encoding for transcoding: ${format.encoding}`);
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Audio Processor - Input conditioning and quality metering for PCM16 mono
+ *
+ * Runs caller audio through DC removal (one-pole high-pass), automatic gain
+ * control and an optional noise gate before it reaches VAD and STT, and keeps
+ * a running quality report (levels, estimated SNR, clipping, DC offset).
+ *
+ * Work is per sample for the filter and per 10ms block for levels and gains,
+ * with gain changes ramped across each block, so it adds no latency and is
+ * cheap enough for every frame. Output has the same length as the input.
+ */
+
+import { EventEmitter } from 'events';
+
+const BLOCK_MS = 10;
+const MIN_LEVEL_DB = -90;
+const CLIP_LEVEL = 32700;
+
+export interface AudioProcessorConfig {
+  /** Sample rate of the PCM16 mono input (default: 16000) */
+  sampleRate?: number;
+  /** DC removal / high-pass filter (default: enabled at 80Hz) */
+  highPass?: boolean | { cutoffHz?: number };
+  /** Automatic gain control (default: enabled) */
+  agc?: boolean | {
+    /** Level speech is brought to (default: -20 dBFS) */
+    targetDbfs?: number;
+    /** Maximum boost (default: 24dB) */
+    maxGainDb?: number;
+    /** Maximum cut (default: -12dB) */
+    minGainDb?: number;
+  };
+  /** Noise gate after AGC (default: disabled) */
+  noiseGate?: boolean | {
+    /** Level below which the gate closes (default: -50 dBFS) */
+    thresholdDbfs?: number;
+    /** Time the gate stays open after the level drops (default: 200ms) */
+    holdMs?: number;
+    /** Attenuation while closed (default: -30dB) */
+    attenuationDb?: number;
+  };
+  /** Emit a 'report' event every N ms of audio; 0 disables (default: 5000) */
+  reportIntervalMs?: number;
+}
+
+export type AudioQualityIssue = 'clipping' | 'low_level' | 'dc_offset' | 'low_snr';
+
+/**
+ * Quality of all input audio processed so far, measured before gain is applied
+ */
+export interface AudioQualityReport {
+  durationMs: number;
+  /** Overall RMS level */
+  rmsDbfs: number;
+  peakDbfs: number;
+  /** Tracked level of active (above-noise) audio; null until speech was heard */
+  speechLevelDbfs: number | null;
+  noiseLevelDbfs: number;
+  /** speechLevelDbfs - noiseLevelDbfs; null until speech was heard */
+  snrDb: number | null;
+  /** Fraction of samples at full scale */
+  clippingRatio: number;
+  /** Mean sample value, -1 to 1 */
+  dcOffset: number;
+  /** Current AGC gain */
+  gainDb: number;
+  issues: AudioQualityIssue[];
+}
+
+export class AudioProcessor extends EventEmitter {
+  private blockSamples: number;
+  private reportIntervalSamples: number;
+  private sampleRate: number;
+
+  private highPass: { coefficient: number } | null;
+  private agc: { targetDbfs: number; maxGainDb: number; minGainDb: number } | null;
+  private gate: { thresholdDbfs: number; holdMs: number; closedGain: number } | null;
+
+  // Filter and gain state
+  private previousInput = 0;
+  private previousOutput = 0;
+  private gainDb = 0;
+  private gateGain = 1;
+  private gateHoldMs = 0;
+  // Odd trailing byte of the last chunk, completed by the next one
+  private remainder: Buffer = Buffer.alloc(0);
+
+  // Level tracking (dBFS) on the filtered, pre-gain signal
+  private noiseLevel = -60;
+  private speechLevel: number | null = null;
+
+  // Report accumulators over the raw input
+  private totalSamples = 0;
+  private sampleSum = 0;
+  private squareSum = 0;
+  private peak = 0;
+  private clippedSamples = 0;
+  private samplesSinceReport = 0;
+
+  constructor(config: AudioProcessorConfig = {}) {
+    super();
+    this.sampleRate = config.sampleRate ?? 16000;
+    this.blockSamples = Math.round((this.sampleRate * BLOCK_MS) / 1000);
+    this.reportIntervalSamples = Math.round(((config.reportIntervalMs ?? 5000) * this.sampleRate) / 1000);
+
+    const highPass = option(config.highPass, true);
+    this.highPass = highPass
+      ? { coefficient: Math.exp((-2 * Math.PI * (highPass.cutoffHz ?? 80)) / this.sampleRate) }
+      : null;
+
+    const agc = option(config.agc, true);
+    this.agc = agc
+      ? { targetDbfs: agc.targetDbfs ?? -20, maxGainDb: agc.maxGainDb ?? 24, minGainDb: agc.minGainDb ?? -12 }
+      : null;
+
+    const gate = option(config.noiseGate, false);
+    this.gate = gate
+      ? {
+        thresholdDbfs: gate.thresholdDbfs ?? -50,
+        holdMs: gate.holdMs ?? 200,
+        closedGain: Math.pow(10, (gate.attenuationDb ?? -30) / 20),
+      }
+      : null;
+  }
+
+  /**
+   * Process a chunk of PCM16 mono audio
+   */
+  process(pcm: Buffer): Buffer {
+    if (this.remainder.length > 0) {
+      pcm = Buffer.concat([this.remainder, pcm]);
+    }
+    const sampleCount = Math.floor(pcm.length / 2);
+    this.remainder = Buffer.from(pcm.subarray(sampleCount * 2));
+    const output = Buffer.alloc(sampleCount * 2);
+    const block = new Float32Array(this.blockSamples);
+
+    for (let start = 0; start < sampleCount; start += this.blockSamples) {
+      const count = Math.min(this.blockSamples, sampleCount - start);
+      let squares = 0;
+      let blockPeak = 0;
+
+      // Meter the raw input, then remove DC
+      for (let i = 0; i < count; i++) {
+        const raw = pcm.readInt16LE((start + i) * 2);
+        this.meter(raw);
+
+        const input = raw / 32768;
+        const filtered = this.highPass
+          ? input - this.previousInput + this.highPass.coefficient * this.previousOutput
+          : input;
+        this.previousInput = input;
+        this.previousOutput = filtered;
+
+        block[i] = filtered;
+        squares += filtered * filtered;
+        blockPeak = Math.max(blockPeak, Math.abs(filtered));
+      }
+
+      const level = toDb(Math.sqrt(squares / count));
+      this.trackLevels(level);
+
+      const gainFrom = Math.pow(10, this.gainDb / 20) * this.gateGain;
+      this.updateGain(level, blockPeak);
+      this.updateGate(level + this.gainDb, (count / this.sampleRate) * 1000);
+      const gainTo = Math.pow(10, this.gainDb / 20) * this.gateGain;
+
+      // Ramp the gain across the block to avoid zipper noise
+      for (let i = 0; i < count; i++) {
+        const gain = gainFrom + ((gainTo - gainFrom) * (i + 1)) / count;
+        const sample = Math.round(block[i] * gain * 32768);
+        output.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), (start + i) * 2);
+      }
+    }
+
+    this.samplesSinceReport += sampleCount;
+    if (this.reportIntervalSamples > 0 && this.samplesSinceReport >= this.reportIntervalSamples) {
+      this.samplesSinceReport = 0;
+      this.emit('report', this.getReport());
+    }
+
+    return output;
+  }
+
+  /**
+   * Quality of all audio processed since creation or the last reset()
+   */
+  getReport(): AudioQualityReport {
+    const samples = Math.max(1, this.totalSamples);
+    const rmsDbfs = toDb(Math.sqrt(this.squareSum / samples));
+    const clippingRatio = this.clippedSamples / samples;
+    const dcOffset = this.sampleSum / samples;
+    const snrDb = this.speechLevel !== null ? this.speechLevel - this.noiseLevel : null;
+
+    const issues: AudioQualityIssue[] = [];
+    if (clippingRatio > 0.001) issues.push('clipping');
+    if (this.speechLevel !== null && this.speechLevel < -40) issues.push('low_level');
+    if (Math.abs(dcOffset) > 0.01) issues.push('dc_offset');
+    if (snrDb !== null && snrDb < 15) issues.push('low_snr');
+
+    return {
+      durationMs: Math.round((this.totalSamples / this.sampleRate) * 1000),
+      rmsDbfs: round(rmsDbfs),
+      peakDbfs: round(toDb(this.peak / 32768)),
+      speechLevelDbfs: this.speechLevel !== null ? round(this.speechLevel) : null,
+      noiseLevelDbfs: round(this.noiseLevel),
+      snrDb: snrDb !== null ? round(snrDb) : null,
+      clippingRatio,
+      dcOffset,
+      gainDb: round(this.gainDb),
+      issues,
+    };
+  }
+
+  /**
+   * Clear filter, gain and report state, e.g. for a new call
+   */
+  reset(): void {
+    this.previousInput = 0;
+    this.previousOutput = 0;
+    this.gainDb = 0;
+    this.gateGain = 1;
+    this.gateHoldMs = 0;
+    this.remainder = Buffer.alloc(0);
+    this.noiseLevel = -60;
+    this.speechLevel = null;
+    this.totalSamples = 0;
+    this.sampleSum = 0;
+    this.squareSum = 0;
+    this.peak = 0;
+    this.clippedSamples = 0;
+    this.samplesSinceReport = 0;
+  }
+
+  private meter(raw: number): void {
+    const magnitude = Math.abs(raw);
+    this.totalSamples++;
+    this.sampleSum += raw / 32768;
+    this.squareSum += (raw / 32768) ** 2;
+    this.peak = Math.max(this.peak, magnitude);
+    if (magnitude >= CLIP_LEVEL) {
+      this.clippedSamples++;
+    }
+  }
+
+  /**
+   * Noise follows level minima (fast down, slow up); speech follows blocks well above noise
+   */
+  private trackLevels(level: number): void {
+    this.noiseLevel += (level < this.noiseLevel ? 0.2 : 0.002) * (level - this.noiseLevel);
+
+    if (this.isActive(level)) {
+      this.speechLevel = this.speechLevel === null ? level : this.speechLevel + 0.05 * (level - this.speechLevel);
+    }
+  }
+
+  private isActive(level: number): boolean {
+    return level > this.noiseLevel + 10 && level > -65;
+  }
+
+  /**
+   * Adapt only on active blocks, so pauses do not pump the noise up;
+   * cut quickly, boost slowly, and never push the block peak into clipping
+   */
+  private updateGain(level: number, blockPeak: number): void {
+    if (!this.agc) {
+      return;
+    }
+
+    if (this.isActive(level)) {
+      const desired = Math.min(this.agc.maxGainDb, Math.max(this.agc.minGainDb, this.agc.targetDbfs - level));
+      this.gainDb += (desired < this.gainDb ? 0.3 : 0.02) * (desired - this.gainDb);
+    }
+
+    if (blockPeak > 0) {
+      this.gainDb = Math.min(this.gainDb, toDb(0.95 / blockPeak));
+    }
+  }
+
+  private updateGate(level: number, blockMs: number): void {
+    if (!this.gate) {
+      return;
+    }
+
+    if (level > this.gate.thresholdDbfs) {
+      this.gateHoldMs = this.gate.holdMs;
+      this.gateGain = 1;
+    } else if (this.gateHoldMs > 0) {
+      this.gateHoldMs -= blockMs;
+    } else {
+      this.gateGain += 0.3 * (this.gate.closedGain - this.gateGain);
+    }
+  }
+}
+
+/**
+ * Resolve a `boolean | options` setting to options, or null when disabled
+ */
+function option<T extends object>(value: boolean | T | undefined, enabledByDefault: boolean): T | null {
+  if (value === undefined) {
+    return enabledByDefault ? ({} as T) : null;
+  }
+  if (value === false) {
+    return null;
+  }
+  return value === true ? ({} as T) : value;
+}
+
+function toDb(amplitude: number): number {
+  return Math.max(MIN_LEVEL_DB, 20 * Math.log10(amplitude || Number.MIN_VALUE));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
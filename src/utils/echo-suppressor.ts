@@ -0,0 +1,341 @@
+/**
+ * Echo Suppressor - Detects the agent's own speech coming back on the input
+ *
+ * Audio sent to the caller is recorded as a reference on a playout timeline:
+ * chunks arrive faster than real time, so each is scheduled after the
+ * previous one. Input is compared with the reference by correlating 10ms
+ * log-energy envelopes over a sliding window at every candidate delay; a
+ * strong match means the input is (mostly) echo, which is attenuated and must
+ * not count as user speech. The echo path loss learned from those matches
+ * predicts how loud echo can be, so input well above it (the caller talking
+ * over the agent) is never suppressed. Envelopes survive codecs, resampling and
+ * loudspeaker coloring far better than waveforms, and cost a few thousand
+ * multiplications per block.
+ *
+ * Optionally, input is half-duplex while the agent is speaking: only audio
+ * above a level threshold (a deliberate barge-in) counts as speech.
+ */
+
+const BLOCK_MS = 10;
+const SILENCE_DB = -90;
+const ACTIVE_DB = -50;
+const DELAY_SCORE_RATE = 0.02;
+// Smoothed correlation at which the echo delay counts as found
+const DELAY_LOCK_SCORE = 0.3;
+
+export interface EchoSuppressorConfig {
+  /** Sample rate of the PCM16 mono input and reference (default: 16000) */
+  sampleRate?: number;
+  /** Longest round trip between sending audio and hearing it back (default: 800) */
+  maxDelayMs?: number;
+  /** Envelope correlation window (default: 300) */
+  windowMs?: number;
+  /** Envelope correlation at or above which input is echo (default: 0.7) */
+  correlationThreshold?: number;
+  /** Attenuation applied to echo (default: -30dB) */
+  suppressionDb?: number;
+  /** Input this far above the predicted echo level is the caller talking over the agent (default: 6dB) */
+  doubleTalkMarginDb?: number;
+  /** Ignore input below bargeInThresholdDbfs while the agent is speaking (default: false) */
+  halfDuplex?: boolean;
+  /** Input level that counts as deliberate barge-in in half-duplex mode (default: -30 dBFS) */
+  bargeInThresholdDbfs?: number;
+}
+
+export interface EchoAnalysis {
+  /** Audio with echo attenuated */
+  audio: Buffer;
+  /** Most of the chunk matched recent output */
+  echo: boolean;
+  /** The chunk must not count as user speech (echo, or below the barge-in level in half-duplex mode) */
+  gated: boolean;
+  /** Reference audio is playing or still within the echo delay */
+  agentSpeaking: boolean;
+  /** Envelope correlation at the tracked echo delay, when output was playing */
+  correlation: number;
+  delayMs: number;
+}
+
+export class EchoSuppressor {
+  private blockSamples: number;
+  private maxDelayBlocks: number;
+  private windowBlocks: number;
+  private correlationThreshold: number;
+  private suppressionGain: number;
+  private doubleTalkMarginDb: number;
+  private halfDuplex: boolean;
+  private bargeInThresholdDbfs: number;
+
+  // Reference envelope: block i covers referenceStartMs + i * BLOCK_MS
+  private reference: number[] = [];
+  private referenceStartMs = 0;
+  private referenceRemainder: Buffer = Buffer.alloc(0);
+
+  // Recent input envelope with the wall-clock time each block ended
+  private input: Array<{ level: number; atMs: number }> = [];
+  // Odd trailing byte of the last input chunk, completed by the next one
+  private inputRemainder: Buffer = Buffer.alloc(0);
+  private gain = 1;
+  private delayScores: Float32Array;
+  private delayBlocks = 0;
+  // Input level minus reference level on echo blocks (echo return loss), once measured
+  private echoPathDb: number | null = null;
+
+  constructor(config: EchoSuppressorConfig = {}) {
+    const sampleRate = config.sampleRate ?? 16000;
+    this.blockSamples = Math.round((sampleRate * BLOCK_MS) / 1000);
+    this.maxDelayBlocks = Math.round((config.maxDelayMs ?? 800) / BLOCK_MS);
+    this.delayScores = new Float32Array(this.maxDelayBlocks + 1);
+    this.windowBlocks = Math.max(5, Math.round((config.windowMs ?? 300) / BLOCK_MS));
+    this.correlationThreshold = config.correlationThreshold ?? 0.7;
+    this.suppressionGain = Math.pow(10, (config.suppressionDb ?? -30) / 20);
+    this.doubleTalkMarginDb = config.doubleTalkMarginDb ?? 6;
+    this.halfDuplex = config.halfDuplex ?? false;
+    this.bargeInThresholdDbfs = config.bargeInThresholdDbfs ?? -30;
+  }
+
+  /**
+   * Record audio sent to the caller; it plays after everything already scheduled
+   */
+  addReference(pcm: Buffer, nowMs: number = Date.now()): void {
+    const endMs = this.referenceStartMs + this.reference.length * BLOCK_MS;
+
+    if (this.reference.length === 0 || endMs < nowMs) {
+      // Output was idle: pad with silence up to now (or start a new timeline)
+      if (this.reference.length === 0) {
+        this.referenceStartMs = nowMs;
+      } else {
+        const silentBlocks = Math.floor((nowMs - endMs) / BLOCK_MS);
+        for (let i = 0; i < silentBlocks; i++) {
+          this.reference.push(SILENCE_DB);
+        }
+      }
+      this.referenceRemainder = Buffer.alloc(0);
+    }
+
+    const data = this.referenceRemainder.length > 0 ? Buffer.concat([this.referenceRemainder, pcm]) : pcm;
+    const blockBytes = this.blockSamples * 2;
+    let offset = 0;
+    for (; offset + blockBytes <= data.length; offset += blockBytes) {
+      this.reference.push(blockLevel(data, offset, this.blockSamples));
+    }
+    this.referenceRemainder = Buffer.from(data.subarray(offset));
+
+    this.prune(nowMs);
+  }
+
+  /**
+   * Drop reference audio scheduled after now (the caller's playback was cut off)
+   */
+  clearReference(nowMs: number = Date.now()): void {
+    const keep = Math.max(0, Math.ceil((nowMs - this.referenceStartMs) / BLOCK_MS));
+    this.reference.length = Math.min(this.reference.length, keep);
+    this.referenceRemainder = Buffer.alloc(0);
+  }
+
+  /**
+   * Whether output audio is playing, or recently played and could still echo back
+   */
+  isAgentSpeaking(nowMs: number = Date.now()): boolean {
+    const fromIndex = Math.floor((nowMs - this.maxDelayBlocks * BLOCK_MS - this.referenceStartMs) / BLOCK_MS);
+    const toIndex = Math.floor((nowMs - this.referenceStartMs) / BLOCK_MS);
+
+    for (let i = Math.max(0, fromIndex); i <= Math.min(toIndex, this.reference.length - 1); i++) {
+      if (this.reference[i] > ACTIVE_DB) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Analyze an input chunk that just arrived and attenuate echo in it
+   */
+  process(pcm: Buffer, nowMs: number = Date.now()): EchoAnalysis {
+    if (this.inputRemainder.length > 0) {
+      pcm = Buffer.concat([this.inputRemainder, pcm]);
+    }
+    const sampleCount = Math.floor(pcm.length / 2);
+    this.inputRemainder = Buffer.from(pcm.subarray(sampleCount * 2));
+    const output = Buffer.alloc(sampleCount * 2);
+    const agentSpeaking = this.isAgentSpeaking(nowMs);
+    const chunkMs = (sampleCount / this.blockSamples) * BLOCK_MS;
+
+    let echoBlocks = 0;
+    let blocks = 0;
+    let peakLevel = SILENCE_DB;
+    let bestCorrelation = 0;
+
+    for (let start = 0; start < sampleCount; start += this.blockSamples) {
+      const count = Math.min(this.blockSamples, sampleCount - start);
+      const level = blockLevel(pcm, start * 2, count);
+      const atMs = nowMs - chunkMs + ((start + count) / this.blockSamples) * BLOCK_MS;
+      peakLevel = Math.max(peakLevel, level);
+
+      this.input.push({ level, atMs });
+      if (this.input.length > this.windowBlocks) {
+        this.input.shift();
+      }
+
+      let isEcho = false;
+      if (agentSpeaking && this.input.length === this.windowBlocks && level > SILENCE_DB) {
+        const match = this.match(level);
+        bestCorrelation = Math.max(bestCorrelation, match.correlation);
+        isEcho = !match.doubleTalk
+          && match.locked
+          && match.correlation >= this.correlationThreshold
+          && match.referenceLevel > ACTIVE_DB;
+
+        if (isEcho) {
+          const pathDb = level - match.referenceLevel;
+          this.echoPathDb = this.echoPathDb === null ? pathDb : this.echoPathDb + 0.1 * (pathDb - this.echoPathDb);
+        }
+      }
+      if (isEcho) {
+        echoBlocks++;
+      }
+      blocks++;
+
+      // Ramp toward the block's gain to avoid clicks
+      const target = isEcho ? this.suppressionGain : 1;
+      for (let i = 0; i < count; i++) {
+        const gain = this.gain + ((target - this.gain) * (i + 1)) / count;
+        output.writeInt16LE(Math.round(pcm.readInt16LE((start + i) * 2) * gain), (start + i) * 2);
+      }
+      this.gain = target;
+    }
+
+    const echo = blocks > 0 && echoBlocks * 2 >= blocks;
+    const belowBargeIn = this.halfDuplex && agentSpeaking && peakLevel < this.bargeInThresholdDbfs;
+
+    return {
+      audio: output,
+      echo,
+      gated: echo || belowBargeIn,
+      agentSpeaking,
+      correlation: bestCorrelation,
+      delayMs: this.delayBlocks * BLOCK_MS,
+    };
+  }
+
+  /**
+   * Forget reference and input history, e.g. for a new call
+   */
+  reset(): void {
+    this.reference = [];
+    this.referenceStartMs = 0;
+    this.referenceRemainder = Buffer.alloc(0);
+    this.input = [];
+    this.inputRemainder = Buffer.alloc(0);
+    this.gain = 1;
+    this.delayScores.fill(0);
+    this.delayBlocks = 0;
+    this.echoPathDb = null;
+  }
+
+  /**
+   * Correlate the input window with the reference at every candidate delay and
+   * judge the input at the tracked echo delay
+   *
+   * A single window can match some unrelated stretch of output by chance, but
+   * only the real echo delay matches block after block, so per-delay scores are
+   * smoothed over time and the best-scoring delay is the one used. Scores are
+   * frozen while the input is louder than the echo path allows (double talk).
+   */
+  private match(level: number): { correlation: number; referenceLevel: number; locked: boolean; doubleTalk: boolean } {
+    const n = this.input.length;
+    let inputMean = 0;
+    for (const block of this.input) {
+      inputMean += block.level;
+    }
+    inputMean /= n;
+
+    let inputVariance = 0;
+    for (const block of this.input) {
+      inputVariance += (block.level - inputMean) ** 2;
+    }
+
+    const correlations = new Float32Array(this.maxDelayBlocks + 1);
+    const referenceLevels = new Float32Array(this.maxDelayBlocks + 1).fill(SILENCE_DB);
+    const aligned = new Array<number>(n);
+
+    for (let delay = 0; delay <= this.maxDelayBlocks && inputVariance > 0; delay++) {
+      let referenceMean = 0;
+      let valid = true;
+      for (let i = 0; i < n; i++) {
+        const index = Math.round((this.input[i].atMs - this.referenceStartMs) / BLOCK_MS) - 1 - delay;
+        if (index < 0 || index >= this.reference.length) {
+          valid = false;
+          break;
+        }
+        aligned[i] = this.reference[index];
+        referenceMean += aligned[i];
+      }
+      if (!valid) {
+        continue;
+      }
+      referenceMean /= n;
+
+      let covariance = 0;
+      let referenceVariance = 0;
+      for (let i = 0; i < n; i++) {
+        const r = aligned[i] - referenceMean;
+        covariance += (this.input[i].level - inputMean) * r;
+        referenceVariance += r * r;
+      }
+      if (referenceVariance > 0) {
+        correlations[delay] = covariance / Math.sqrt(inputVariance * referenceVariance);
+        referenceLevels[delay] = aligned[n - 1];
+      }
+    }
+
+    const doubleTalk = this.echoPathDb !== null
+      && level > referenceLevels[this.delayBlocks] + this.echoPathDb + this.doubleTalkMarginDb;
+
+    if (!doubleTalk) {
+      let tracked = 0;
+      for (let delay = 0; delay <= this.maxDelayBlocks; delay++) {
+        this.delayScores[delay] += DELAY_SCORE_RATE * (correlations[delay] - this.delayScores[delay]);
+        if (this.delayScores[delay] > this.delayScores[tracked]) {
+          tracked = delay;
+        }
+      }
+      this.delayBlocks = tracked;
+    }
+    const tracked = this.delayBlocks;
+
+    // Allow one block of jitter around the tracked delay
+    let best = tracked;
+    for (const delay of [tracked - 1, tracked + 1]) {
+      if (delay >= 0 && delay <= this.maxDelayBlocks && correlations[delay] > correlations[best]) {
+        best = delay;
+      }
+    }
+    return {
+      correlation: correlations[best],
+      referenceLevel: referenceLevels[best],
+      locked: this.delayScores[tracked] >= DELAY_LOCK_SCORE,
+      doubleTalk,
+    };
+  }
+
+  private prune(nowMs: number): void {
+    // Keep what the oldest input window could still be compared against
+    const oldestMs = nowMs - (this.maxDelayBlocks + this.windowBlocks + 1) * BLOCK_MS;
+    const drop = Math.floor((oldestMs - this.referenceStartMs) / BLOCK_MS);
+    if (drop > 0) {
+      this.reference.splice(0, Math.min(drop, this.reference.length));
+      this.referenceStartMs += drop * BLOCK_MS;
+    }
+  }
+}
+
+function blockLevel(pcm: Buffer, offset: number, samples: number): number {
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(offset + i * 2) / 32768;
+    sum += sample * sample;
+  }
+  const rms = Math.sqrt(sum / Math.max(1, samples));
+  return Math.max(SILENCE_DB, 20 * Math.log10(rms || Number.MIN_VALUE));
+}
@@ -5,5 +5,53 @@
 export { Logger } from './logger';
 export { AudioBuffer } from './audio-buffer';
 export { ConversationManager } from './conversation-manager';
-export { retry } from './retry';
+export { retry, CircuitBreaker, CircuitOpenError } from './retry';
+export type { RetryOptions, CircuitBreakerOptions, CircuitState } from './retry';
+export { AsyncQueue } from './async-queue';
+export { Resampler } from './resampler';
+export { WavParser } from './wav';
+export { powerSpectrum, nextPowerOfTwo } from './spectrum';
+export { AudioProcessor } from './audio-processor';
+export type { AudioProcessorConfig, AudioQualityReport, AudioQualityIssue } from './audio-processor';
+export { EchoSuppressor } from './echo-suppressor';
+export type { EchoSuppressorConfig, EchoAnalysis } from './echo-suppressor';
+export { SpeechNormalizer, numberToWords } from './speech-normalizer';
+export type { SpeechNormalizerConfig, SpeechNormalizerRule, TextNormalizer } from './speech-normalizer';
+export {
+  parseSpeechMarkup,
+  validateSpeechMarkup,
+  renderSpeechMarkup,
+  stripSpeechMarkup,
+  hasSpeechMarkup,
+  hasOpenSpeechMarkup,
+  mapSpeechMarkupText,
+  escapeXml,
+} from './speech-markup';
+export type {
+  SpeechNode,
+  ParsedSpeechMarkup,
+  SpeechMarkupDialect,
+  RenderedSpeech,
+  EmphasisLevel,
+  SayAsType,
+  PhonemeAlphabet,
+} from './speech-markup';
+export { PronunciationLexicon, validatePronunciations } from './pronunciation-lexicon';
+export type { PronunciationEntry } from './pronunciation-lexicon';
+export { synthesizeWithTimings, estimateWordTimings, CharacterAligner, audioDurationMs } from './word-timing';
+export { ToneDetector, goertzel } from './tone-detector';
+export type { ToneDetectorConfig, Tone } from './tone-detector';
+export { textToVisemes, visemesForWords, VisemeTrack, AZURE_VISEMES } from './visemes';
+export type { VisemeDelta } from './visemes';
+export {
+  AudioTranscoder,
+  normalizeAudioStream,
+  parseAudioFormat,
+  isSessionAudioFormat,
+  encodeMulaw,
+  decodeMulaw,
+  encodeAlaw,
+  decodeAlaw,
+} from './audio-codec';
+export type { SessionAudioFormat } from './audio-codec';
 
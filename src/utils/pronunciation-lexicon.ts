@@ -0,0 +1,166 @@
+/**
+ * Pronunciation Lexicon - How brand names, SKUs and acronyms should be said
+ *
+ * Each entry maps a written term (grapheme) to an alias, an IPA/phoneme
+ * transcription or both. Terms are replaced before speech normalization:
+ *
+ * - alias only: the term is replaced by the alias text ("SQL" → "sequel")
+ * - phoneme: the term is wrapped in <phoneme> speech markup; providers with
+ *   native phoneme support use it, the others speak the alias (or the term)
+ *
+ * Matching is on whole words and case-insensitive, except for terms with more
+ * than one capital letter ("US", "iOS" stays distinct from "us", "ios").
+ */
+
+import { readFile } from 'fs/promises';
+import { escapeXml, mapSpeechMarkupText, type PhonemeAlphabet } from './speech-markup';
+
+export interface PronunciationEntry {
+  /** The term as written */
+  grapheme: string;
+  /** Respelling to say instead; also the fallback for providers without phoneme support */
+  alias?: string;
+  /** Phonetic transcription in `alphabet` */
+  phoneme?: string;
+  /** Default: 'ipa' */
+  alphabet?: PhonemeAlphabet;
+  /** Default: true when the grapheme has more than one capital letter */
+  caseSensitive?: boolean;
+}
+
+const ALPHABETS: PhonemeAlphabet[] = ['ipa', 'x-sampa', 'cmu-arpabet'];
+
+export class PronunciationLexicon {
+  private entries = new Map<string, PronunciationEntry>();
+  private pattern: RegExp | null = null;
+
+  constructor(entries: PronunciationEntry[] = []) {
+    this.add(entries);
+  }
+
+  /**
+   * Load a lexicon from a JSON file: an array of entries or `{ "entries": [...] }`
+   */
+  static async load(path: string): Promise<PronunciationLexicon> {
+    const json = JSON.parse(await readFile(path, 'utf8'));
+    return new PronunciationLexicon(Array.isArray(json) ? json : json?.entries);
+  }
+
+  /**
+   * Add or replace entries (by grapheme)
+   *
+   * @throws Error when an entry is invalid; no entries are added
+   */
+  add(entries: PronunciationEntry[]): void {
+    const issues = validatePronunciations(entries);
+    if (issues.length > 0) {
+      throw new Error(`Invalid pronunciation lexicon: ${issues.join('; ')}`);
+    }
+
+    for (const entry of entries) {
+      this.entries.set(entry.grapheme, { ...entry });
+    }
+    this.pattern = null;
+  }
+
+  /**
+   * Remove the entry for a grapheme
+   */
+  remove(grapheme: string): boolean {
+    this.pattern = null;
+    return this.entries.delete(grapheme);
+  }
+
+  /**
+   * A new lexicon with these entries layered over this one's
+   */
+  extend(entries: PronunciationEntry[]): PronunciationLexicon {
+    const lexicon = new PronunciationLexicon(this.list());
+    lexicon.add(entries);
+    return lexicon;
+  }
+
+  list(): PronunciationEntry[] {
+    return [...this.entries.values()];
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Replace known terms with their alias or phoneme markup. Existing speech
+   * markup is kept, and <say-as>/<phoneme> content is left alone.
+   */
+  apply(text: string): string {
+    if (this.entries.size === 0) {
+      return text;
+    }
+
+    const pattern = this.compile();
+    return mapSpeechMarkupText(text, (part) => part.replace(pattern, (match) => {
+      const entry = this.lookup(match);
+      if (!entry) {
+        return match;
+      }
+      if (!entry.phoneme) {
+        return entry.alias!;
+      }
+      return `<phoneme alphabet="${entry.alphabet ?? 'ipa'}" ph="${escapeXml(entry.phoneme)}">`
+        + `${escapeXml(entry.alias ?? match)}</phoneme>`;
+    }));
+  }
+
+  private lookup(match: string): PronunciationEntry | undefined {
+    const exact = this.entries.get(match);
+    if (exact) {
+      return exact;
+    }
+    const lower = match.toLowerCase();
+    for (const entry of this.entries.values()) {
+      if (!isCaseSensitive(entry) && entry.grapheme.toLowerCase() === lower) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * One alternation of all graphemes, longest first so "Acme Pro" wins over "Acme"
+   */
+  private compile(): RegExp {
+    if (!this.pattern) {
+      const alternatives = [...this.entries.keys()]
+        .sort((a, b) => b.length - a.length)
+        .map((grapheme) => grapheme.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      this.pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    }
+    return this.pattern;
+  }
+}
+
+/**
+ * Problems in a list of lexicon entries; empty when they are valid
+ */
+export function validatePronunciations(entries: unknown): string[] {
+  if (!Array.isArray(entries)) {
+    return ['entries must be an array'];
+  }
+
+  const issues: string[] = [];
+  entries.forEach((entry, index) => {
+    const label = typeof entry?.grapheme === 'string' ? `"${entry.grapheme}"` : `entry ${index}`;
+    if (typeof entry?.grapheme !== 'string' || !entry.grapheme.trim()) {
+      issues.push(`${label} needs a grapheme`);
+    } else if (typeof entry.alias !== 'string' && typeof entry.phoneme !== 'string') {
+      issues.push(`${label} needs an alias or a phoneme`);
+    } else if (entry.alphabet !== undefined && !ALPHABETS.includes(entry.alphabet)) {
+      issues.push(`${label} has unsupported alphabet "${entry.alphabet}"`);
+    }
+  });
+  return issues;
+}
+
+function isCaseSensitive(entry: PronunciationEntry): boolean {
+  return entry.caseSensitive ?? (entry.grapheme.match(/\p{Lu}/gu)?.length ?? 0) > 1;
+}
@@ -0,0 +1,128 @@
+/**
+ * Resampler - Streaming windowed-sinc sample rate conversion for PCM16 mono
+ *
+ * Band-limited interpolation with a Blackman-windowed sinc kernel. When
+ * downsampling, the kernel cutoff is lowered to the target Nyquist rate so
+ * content above it is filtered instead of aliasing. State is kept across
+ * chunks, so a stream can be resampled chunk by chunk without clicks at the
+ * boundaries; call flush() at the end of the stream for the final samples.
+ */
+
+const DEFAULT_HALF_WIDTH = 16;
+
+export class Resampler {
+  private fromSampleRate: number;
+  private toSampleRate: number;
+  private step: number;
+  private cutoff: number;
+  private radius: number;
+
+  // Input samples not yet fully consumed, and the next output position within them
+  private history: Float32Array;
+  private position: number;
+  private remainder: Buffer = Buffer.alloc(0);
+
+  constructor(fromSampleRate: number, toSampleRate: number, halfWidth: number = DEFAULT_HALF_WIDTH) {
+    this.fromSampleRate = fromSampleRate;
+    this.toSampleRate = toSampleRate;
+    this.step = fromSampleRate / toSampleRate;
+    this.cutoff = Math.min(1, toSampleRate / fromSampleRate);
+    this.radius = Math.ceil(halfWidth / this.cutoff);
+
+    // Left padding so the first output sample lines up with the first input sample
+    this.history = new Float32Array(this.radius);
+    this.position = this.radius;
+  }
+
+  /**
+   * Resample a chunk of PCM16 audio
+   */
+  process(pcm: Buffer): Buffer {
+    if (this.fromSampleRate === this.toSampleRate) {
+      return pcm;
+    }
+
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, pcm]) : pcm;
+    const whole = data.length - (data.length % 2);
+    this.remainder = Buffer.from(data.subarray(whole));
+
+    const input = new Float32Array(whole / 2);
+    for (let i = 0; i < input.length; i++) {
+      input[i] = data.readInt16LE(i * 2);
+    }
+
+    return this.render(input);
+  }
+
+  /**
+   * Emit the samples held back for look-ahead at the end of a stream
+   */
+  flush(): Buffer {
+    if (this.fromSampleRate === this.toSampleRate) {
+      return Buffer.alloc(0);
+    }
+
+    // Zero padding on the right lets the last real samples be interpolated
+    const output = this.render(new Float32Array(this.radius));
+    this.history = new Float32Array(this.radius);
+    this.position = this.radius;
+    this.remainder = Buffer.alloc(0);
+    return output;
+  }
+
+  private render(input: Float32Array): Buffer {
+    const history = new Float32Array(this.history.length + input.length);
+    history.set(this.history);
+    history.set(input, this.history.length);
+
+    // Each output sample needs `radius` input samples of look-ahead
+    const limit = history.length - this.radius;
+    const samples: number[] = [];
+
+    while (this.position < limit) {
+      samples.push(this.interpolate(history, this.position));
+      this.position += this.step;
+    }
+
+    // Keep what the next output samples still need
+    const keepFrom = Math.max(0, Math.floor(this.position) - this.radius);
+    this.history = history.slice(keepFrom);
+    this.position -= keepFrom;
+
+    const output = Buffer.alloc(samples.length * 2);
+    for (let i = 0; i < samples.length; i++) {
+      output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(samples[i]))), i * 2);
+    }
+    return output;
+  }
+
+  private interpolate(history: Float32Array, position: number): number {
+    const center = Math.floor(position);
+    const first = Math.max(0, center - this.radius + 1);
+    const last = Math.min(history.length - 1, center + this.radius);
+
+    let sum = 0;
+    let weightSum = 0;
+    for (let i = first; i <= last; i++) {
+      const weight = this.kernel(position - i);
+      sum += history[i] * weight;
+      weightSum += weight;
+    }
+
+    return weightSum !== 0 ? sum / weightSum : 0;
+  }
+
+  private kernel(distance: number): number {
+    const x = distance * this.cutoff;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+    // Blackman window over [-radius, radius]
+    const t = (distance + this.radius) / (2 * this.radius);
+    if (t <= 0 || t >= 1) {
+      return 0;
+    }
+    const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * t) + 0.08 * Math.cos(4 * Math.PI * t);
+
+    return sinc * window;
+  }
+}
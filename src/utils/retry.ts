@@ -89,3 +89,191 @@ export class RateLimiter {
   }
 }
 
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Share of failed (or slow) calls in the window that opens the circuit (default: 0.5) */
+  failureRateThreshold?: number;
+  /** Calls slower than this count as failures (default: no latency limit) */
+  slowCallThresholdMs?: number;
+  /** Calls needed in the window before the failure rate is evaluated (default: 5) */
+  minimumCalls?: number;
+  /** Number of most recent calls considered (default: 20) */
+  windowSize?: number;
+  /** How long the circuit stays open before a half-open probe (default: 10000) */
+  openDurationMs?: number;
+  /** Growth of the open duration after each failed probe (default: 2) */
+  backoffMultiplier?: number;
+  /** Upper bound for the open duration (default: 60000) */
+  maxOpenDurationMs?: number;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Circuit breaker for provider calls
+ *
+ * Tracks the outcome of recent calls. Once the failure rate crosses the
+ * threshold the circuit opens and callers should skip the provider. After the
+ * open duration a single half-open probe is let through: success closes the
+ * circuit, failure reopens it with an exponentially longer cooldown.
+ */
+export class CircuitBreaker {
+  private options: Required<Omit<CircuitBreakerOptions, 'onStateChange'>>;
+  private onStateChange?: CircuitBreakerOptions['onStateChange'];
+  private outcomes: boolean[] = [];
+  private currentState: CircuitState = 'closed';
+  private openUntil = 0;
+  private openDuration: number;
+  private probeInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureRateThreshold: options.failureRateThreshold ?? 0.5,
+      slowCallThresholdMs: options.slowCallThresholdMs ?? Infinity,
+      minimumCalls: options.minimumCalls ?? 5,
+      windowSize: options.windowSize ?? 20,
+      openDurationMs: options.openDurationMs ?? 10000,
+      backoffMultiplier: options.backoffMultiplier ?? 2,
+      maxOpenDurationMs: options.maxOpenDurationMs ?? 60000,
+    };
+    this.onStateChange = options.onStateChange;
+    this.openDuration = this.options.openDurationMs;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /**
+   * Failure rate over the current window (0-1)
+   */
+  get failureRate(): number {
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    return this.outcomes.filter((ok) => !ok).length / this.outcomes.length;
+  }
+
+  /**
+   * Whether a call may be made now. Moves an expired open circuit to half-open
+   * and reserves its single probe.
+   */
+  canRequest(): boolean {
+    if (this.currentState === 'closed') {
+      return true;
+    }
+
+    if (this.currentState === 'open') {
+      if (Date.now() < this.openUntil) {
+        return false;
+      }
+      this.transition('half_open');
+    }
+
+    if (this.probeInFlight) {
+      return false;
+    }
+    this.probeInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a completed call; slow calls count as failures
+   */
+  recordSuccess(latencyMs: number = 0): void {
+    if (latencyMs > this.options.slowCallThresholdMs) {
+      this.recordFailure();
+      return;
+    }
+
+    if (this.currentState === 'half_open') {
+      this.probeInFlight = false;
+      this.outcomes = [];
+      this.openDuration = this.options.openDurationMs;
+      this.transition('closed');
+      return;
+    }
+
+    this.record(true);
+  }
+
+  /**
+   * Record a failed call
+   */
+  recordFailure(): void {
+    if (this.currentState === 'half_open') {
+      this.probeInFlight = false;
+      this.openDuration = Math.min(
+        this.openDuration * this.options.backoffMultiplier,
+        this.options.maxOpenDurationMs
+      );
+      this.open();
+      return;
+    }
+
+    this.record(false);
+
+    if (
+      this.currentState === 'closed' &&
+      this.outcomes.length >= this.options.minimumCalls &&
+      this.failureRate >= this.options.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  /**
+   * Release a half-open probe that ended without a verdict (e.g. cancelled)
+   */
+  releaseProbe(): void {
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Run fn through the breaker, retrying per options before counting a failure
+   */
+  async execute<T>(fn: () => Promise<T>, retryOptions: RetryOptions = { maxAttempts: 1 }): Promise<T> {
+    if (!this.canRequest()) {
+      throw new CircuitOpenError();
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await retry(fn, retryOptions);
+      this.recordSuccess(Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.recordFailure();
+      throw error;
+    }
+  }
+
+  private record(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open(): void {
+    this.openUntil = Date.now() + this.openDuration;
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.currentState;
+    if (previous === state) {
+      return;
+    }
+    this.currentState = state;
+    this.onStateChange?.(state, previous);
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(message: string = 'Circuit breaker is open') {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Spectrum - Power spectrum of short PCM frames
+ *
+ * An in-place radix-2 FFT over a Hann-windowed frame, zero-padded to the next
+ * power of two. Meant for 10-30ms analysis frames, not long signals.
+ */
+
+/**
+ * Smallest power of two >= n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) {
+    size <<= 1;
+  }
+  return size;
+}
+
+/**
+ * Power spectrum of a frame of samples in [-1, 1]
+ *
+ * @returns fftSize / 2 + 1 bins; bin k is at k * sampleRate / fftSize Hz
+ */
+export function powerSpectrum(samples: Float32Array, fftSize: number = nextPowerOfTwo(samples.length)): Float32Array {
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const count = Math.min(samples.length, fftSize);
+
+  for (let i = 0; i < count; i++) {
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, count - 1));
+    real[i] = samples[i] * window;
+  }
+
+  fft(real, imag);
+
+  const bins = fftSize / 2 + 1;
+  const power = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) {
+    power[k] = real[k] * real[k] + imag[k] * imag[k];
+  }
+  return power;
+}
+
+/**
+ * Iterative in-place radix-2 FFT; length must be a power of two
+ */
+function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const half = size >> 1;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + half;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
@@ -0,0 +1,459 @@
+/**
+ * Speech Markup - Provider-neutral prosody markup for TTS
+ *
+ * Agents and normalizers can mark up text with a small SSML subset:
+ *
+ *   <break time="500ms"/>            pause (or strength="weak|medium|strong|...")
+ *   <emphasis level="strong">…</emphasis>
+ *   <prosody rate="slow" pitch="+10%" volume="loud">…</prosody>
+ *   <say-as interpret-as="characters">…</say-as>
+ *   <phoneme alphabet="ipa" ph="təˈmeɪtoʊ">…</phoneme>
+ *
+ * Each TTS provider renders it into what it supports: escaped SSML (Azure),
+ * break/phoneme tags plus a speed setting (ElevenLabs, Cartesia) or plain
+ * text (OpenAI, Deepgram). Anything else that looks like a tag is dropped
+ * and its text kept; a bare "&" or "<" is ordinary text.
+ */
+
+export type EmphasisLevel = 'strong' | 'moderate' | 'reduced' | 'none';
+
+export type SayAsType =
+  | 'characters'
+  | 'spell-out'
+  | 'digits'
+  | 'cardinal'
+  | 'ordinal'
+  | 'date'
+  | 'time'
+  | 'telephone';
+
+export type PhonemeAlphabet = 'ipa' | 'x-sampa' | 'cmu-arpabet';
+
+export type SpeechNode =
+  | { type: 'text'; text: string }
+  | { type: 'break'; timeMs: number }
+  | { type: 'emphasis'; level: EmphasisLevel; children: SpeechNode[] }
+  | { type: 'prosody'; rate?: number; pitch?: string; volume?: string; children: SpeechNode[] }
+  | { type: 'say-as'; interpretAs: SayAsType; format?: string; text: string }
+  | { type: 'phoneme'; alphabet: PhonemeAlphabet; ph: string; text: string };
+
+export interface ParsedSpeechMarkup {
+  nodes: SpeechNode[];
+  /** Problems found; the offending markup was dropped and its text kept */
+  issues: string[];
+}
+
+/**
+ * How a provider accepts markup
+ * - ssml: full SSML fragment, XML-escaped
+ * - elevenlabs: plain text with <break time="1.5s" /> and <phoneme> tags
+ * - cartesia: plain text with <break time="500ms"/> tags
+ * - plain: text only; pauses become punctuation
+ */
+export type SpeechMarkupDialect = 'ssml' | 'elevenlabs' | 'cartesia' | 'plain';
+
+export interface RenderedSpeech {
+  text: string;
+  /**
+   * Speaking rate multiplier for providers that only take a per-request speed;
+   * taken from the first prosody rate (not set for ssml, which keeps it inline)
+   */
+  rate?: number;
+}
+
+const MAX_BREAK_MS = 10000;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0, 'x-weak': 100, weak: 250, medium: 500, strong: 750, 'x-strong': 1200,
+};
+const RATES: Record<string, number> = {
+  'x-slow': 0.5, slow: 0.75, medium: 1, default: 1, fast: 1.25, 'x-fast': 1.5,
+};
+const PITCHES = ['x-low', 'low', 'medium', 'default', 'high', 'x-high'];
+const VOLUMES = ['silent', 'x-soft', 'soft', 'medium', 'default', 'loud', 'x-loud'];
+const EMPHASIS_LEVELS: EmphasisLevel[] = ['strong', 'moderate', 'reduced', 'none'];
+const SAY_AS_TYPES: SayAsType[] = ['characters', 'spell-out', 'digits', 'cardinal', 'ordinal', 'date', 'time', 'telephone'];
+const PHONEME_ALPHABETS: PhonemeAlphabet[] = ['ipa', 'x-sampa', 'cmu-arpabet'];
+
+const TAG_PATTERN = /<\/?[a-zA-Z][\w:-]*(?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*\s*\/?>/g;
+const SPEECH_TAG_PATTERN = /<\/?(?:speak|break|emphasis|prosody|say-as|phoneme)\b[^<>]*>/i;
+
+type OpenElement = {
+  name: string;
+  node: SpeechNode | null;
+  children: SpeechNode[];
+  attributes: Record<string, string>;
+};
+
+/**
+ * Parse marked-up text, dropping invalid markup
+ */
+export function parseSpeechMarkup(text: string): ParsedSpeechMarkup {
+  const issues: string[] = [];
+  const root: OpenElement = { name: '#root', node: null, children: [], attributes: {} };
+  const stack: OpenElement[] = [root];
+  let position = 0;
+
+  const appendText = (value: string) => {
+    if (!value) return;
+    const children = stack[stack.length - 1].children;
+    const last = children[children.length - 1];
+    const decoded = decodeEntities(value);
+    if (last?.type === 'text') {
+      last.text += decoded;
+    } else {
+      children.push({ type: 'text', text: decoded });
+    }
+  };
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    appendText(text.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const tag = match[0];
+    const name = tag.match(/^<\/?([\w:-]+)/)![1].toLowerCase();
+    const closing = tag.startsWith('</');
+    const selfClosing = tag.endsWith('/>');
+
+    if (closing) {
+      const index = stack.map((element) => element.name).lastIndexOf(name);
+      if (index <= 0) {
+        issues.push(`Unexpected </${name}>`);
+        continue;
+      }
+      while (stack.length > index) {
+        const element = stack.pop()!;
+        if (stack.length > index) {
+          issues.push(`Unclosed <${element.name}>`);
+        }
+        close(element, stack[stack.length - 1], issues);
+      }
+      continue;
+    }
+
+    const element: OpenElement = { name, node: null, children: [], attributes: parseAttributes(tag) };
+    if (selfClosing || name === 'break') {
+      close(element, stack[stack.length - 1], issues);
+    } else {
+      stack.push(element);
+    }
+  }
+  appendText(text.slice(position));
+
+  while (stack.length > 1) {
+    const element = stack.pop()!;
+    issues.push(`Unclosed <${element.name}>`);
+    close(element, stack[stack.length - 1], issues);
+  }
+
+  return { nodes: root.children, issues };
+}
+
+/**
+ * Problems in marked-up text; empty when it is valid
+ */
+export function validateSpeechMarkup(text: string): string[] {
+  return parseSpeechMarkup(text).issues;
+}
+
+/**
+ * Whether text contains speech markup tags
+ */
+export function hasSpeechMarkup(text: string): boolean {
+  return SPEECH_TAG_PATTERN.test(text);
+}
+
+/**
+ * Whether a speech markup element is still open, e.g. a sentence ends inside <prosody>
+ */
+export function hasOpenSpeechMarkup(text: string): boolean {
+  let depth = 0;
+  for (const match of text.matchAll(new RegExp(SPEECH_TAG_PATTERN, 'gi'))) {
+    const tag = match[0];
+    if (tag.endsWith('/>') || /^<break\b/i.test(tag)) continue;
+    depth += tag.startsWith('</') ? -1 : 1;
+  }
+  return depth > 0;
+}
+
+/**
+ * Apply a transform to the text between speech markup tags; the tags and the
+ * content of <say-as> and <phoneme> are kept as written
+ */
+export function mapSpeechMarkupText(text: string, transform: (text: string) => string): string {
+  let verbatim = 0;
+
+  return text.split(new RegExp(`(${SPEECH_TAG_PATTERN.source})`, 'i')).map((part, index) => {
+    // Odd parts are the captured tags
+    if (index % 2 === 1) {
+      if (/^<\/?(say-as|phoneme)\b/i.test(part) && !part.endsWith('/>')) {
+        verbatim += part.startsWith('</') ? -1 : 1;
+      }
+      return part;
+    }
+    return verbatim > 0 || !part ? part : transform(part);
+  }).join('');
+}
+
+/**
+ * Text with all markup removed, e.g. for display
+ */
+export function stripSpeechMarkup(text: string): string {
+  return renderSpeechMarkup(text, 'plain').text;
+}
+
+/**
+ * Render marked-up text for a provider dialect
+ */
+export function renderSpeechMarkup(text: string, dialect: SpeechMarkupDialect): RenderedSpeech {
+  // Fast path: plain text only needs escaping for SSML
+  if (!/[<&]/.test(text)) {
+    return { text };
+  }
+
+  const { nodes } = parseSpeechMarkup(text);
+
+  if (dialect === 'ssml') {
+    return { text: nodes.map(toSsml).join('') };
+  }
+
+  const rate = firstRate(nodes);
+  const rendered = nodes.map((node) => toText(node, dialect)).join('');
+  return {
+    text: rendered.replace(/\s+/g, ' ').replace(/\s+([,.!?])/g, '$1').trim(),
+    ...(rate !== undefined ? { rate } : {}),
+  };
+}
+
+/**
+ * Escape text for use in XML content or attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function close(element: OpenElement, parent: OpenElement, issues: string[]): void {
+  const node = toNode(element, issues);
+  for (const child of node ? [node] : element.children) {
+    const last = parent.children[parent.children.length - 1];
+    if (child.type === 'text' && last?.type === 'text') {
+      last.text += child.text;
+    } else {
+      parent.children.push(child);
+    }
+  }
+}
+
+/**
+ * Validate an element; null keeps only its children
+ */
+function toNode(element: OpenElement, issues: string[]): SpeechNode | null {
+  const { name, attributes, children } = element;
+
+  switch (name) {
+    case 'speak':
+      return null;
+
+    case 'break': {
+      const timeMs = attributes.time !== undefined
+        ? parseDuration(attributes.time)
+        : BREAK_STRENGTHS[attributes.strength ?? 'medium'];
+      if (timeMs === undefined || timeMs === null) {
+        issues.push(`Invalid <break> ${attributes.time !== undefined ? `time "${attributes.time}"` : `strength "${attributes.strength}"`}`);
+        return null;
+      }
+      return { type: 'break', timeMs: Math.min(timeMs, MAX_BREAK_MS) };
+    }
+
+    case 'emphasis': {
+      const level = (attributes.level ?? 'moderate') as EmphasisLevel;
+      if (!EMPHASIS_LEVELS.includes(level)) {
+        issues.push(`Invalid <emphasis> level "${attributes.level}"`);
+        return { type: 'emphasis', level: 'moderate', children };
+      }
+      return { type: 'emphasis', level, children };
+    }
+
+    case 'prosody': {
+      const rate = attributes.rate !== undefined ? parseRate(attributes.rate) : undefined;
+      const pitch = attributes.pitch;
+      const volume = attributes.volume;
+      const node: SpeechNode = { type: 'prosody', children };
+
+      if (rate === null) {
+        issues.push(`Invalid <prosody> rate "${attributes.rate}"`);
+      } else if (rate !== undefined) {
+        node.rate = rate;
+      }
+      if (pitch !== undefined) {
+        if (PITCHES.includes(pitch) || /^[+-]\d+(\.\d+)?(%|st|Hz)$/.test(pitch)) {
+          node.pitch = pitch;
+        } else {
+          issues.push(`Invalid <prosody> pitch "${pitch}"`);
+        }
+      }
+      if (volume !== undefined) {
+        if (VOLUMES.includes(volume) || /^[+-]\d+(\.\d+)?dB$/.test(volume)) {
+          node.volume = volume;
+        } else {
+          issues.push(`Invalid <prosody> volume "${volume}"`);
+        }
+      }
+      return node.rate === undefined && node.pitch === undefined && node.volume === undefined ? null : node;
+    }
+
+    case 'say-as': {
+      const interpretAs = attributes['interpret-as'] as SayAsType;
+      if (!SAY_AS_TYPES.includes(interpretAs)) {
+        issues.push(`Invalid <say-as> interpret-as "${attributes['interpret-as'] ?? ''}"`);
+        return null;
+      }
+      return { type: 'say-as', interpretAs, format: attributes.format, text: plainText(children) };
+    }
+
+    case 'phoneme': {
+      const alphabet = (attributes.alphabet ?? 'ipa') as PhonemeAlphabet;
+      if (!PHONEME_ALPHABETS.includes(alphabet) || !attributes.ph) {
+        issues.push(`Invalid <phoneme> ${attributes.ph ? `alphabet "${alphabet}"` : 'without ph'}`);
+        return null;
+      }
+      return { type: 'phoneme', alphabet, ph: attributes.ph, text: plainText(children) };
+    }
+
+    default:
+      issues.push(`Unsupported <${name}>`);
+      return null;
+  }
+}
+
+function toSsml(node: SpeechNode): string {
+  switch (node.type) {
+    case 'text':
+      return escapeXml(node.text);
+    case 'break':
+      return `<break time="${node.timeMs}ms"/>`;
+    case 'emphasis':
+      return `<emphasis level="${node.level}">${node.children.map(toSsml).join('')}</emphasis>`;
+    case 'prosody': {
+      const attributes = [
+        node.rate !== undefined ? `rate="${round(node.rate)}"` : '',
+        node.pitch !== undefined ? `pitch="${escapeXml(node.pitch)}"` : '',
+        node.volume !== undefined ? `volume="${escapeXml(node.volume)}"` : '',
+      ].filter(Boolean).join(' ');
+      return `<prosody ${attributes}>${node.children.map(toSsml).join('')}</prosody>`;
+    }
+    case 'say-as':
+      return `<say-as interpret-as="${node.interpretAs}"${node.format ? ` format="${escapeXml(node.format)}"` : ''}>`
+        + `${escapeXml(node.text)}</say-as>`;
+    case 'phoneme':
+      return `<phoneme alphabet="${node.alphabet}" ph="${escapeXml(node.ph)}">${escapeXml(node.text)}</phoneme>`;
+  }
+}
+
+function toText(node: SpeechNode, dialect: Exclude<SpeechMarkupDialect, 'ssml'>): string {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'break':
+      if (dialect === 'elevenlabs') {
+        // ElevenLabs accepts up to 3 seconds per break
+        return ` <break time="${round(Math.min(node.timeMs, 3000) / 1000)}s" /> `;
+      }
+      if (dialect === 'cartesia') {
+        return ` <break time="${node.timeMs}ms"/> `;
+      }
+      return node.timeMs >= 500 ? '... ' : node.timeMs > 0 ? ', ' : ' ';
+    case 'emphasis':
+    case 'prosody':
+      return node.children.map((child) => toText(child, dialect)).join('');
+    case 'say-as':
+      if (node.interpretAs === 'characters' || node.interpretAs === 'spell-out') {
+        return node.text.replace(/\s+/g, '').split('').join(' ');
+      }
+      if (node.interpretAs === 'digits' || node.interpretAs === 'telephone') {
+        return node.text.replace(/\d/g, '$& ').replace(/\s+/g, ' ').trim();
+      }
+      return node.text;
+    case 'phoneme':
+      if (dialect === 'elevenlabs' && node.alphabet !== 'x-sampa') {
+        return `<phoneme alphabet="${node.alphabet}" ph="${escapeXml(node.ph)}">${node.text}</phoneme>`;
+      }
+      return node.text;
+  }
+}
+
+function plainText(nodes: SpeechNode[]): string {
+  return nodes.map((node) => toText(node, 'plain')).join('');
+}
+
+function firstRate(nodes: SpeechNode[]): number | undefined {
+  for (const node of nodes) {
+    if (node.type === 'prosody') {
+      return node.rate ?? firstRate(node.children);
+    }
+    if (node.type === 'emphasis') {
+      const rate = firstRate(node.children);
+      if (rate !== undefined) return rate;
+    }
+  }
+  return undefined;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * "500ms" / "1.5s" → ms; null when invalid
+ */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/);
+  if (!match) {
+    return null;
+  }
+  return Math.round(Number(match[1]) * (match[2] === 's' ? 1000 : 1));
+}
+
+/**
+ * Named rate, multiplier ("1.2"), percentage ("80%") or relative ("+20%") → multiplier in 0.5-2; null when invalid
+ */
+function parseRate(value: string): number | null {
+  const trimmed = value.trim();
+  let rate: number;
+
+  if (RATES[trimmed] !== undefined) {
+    rate = RATES[trimmed];
+  } else if (/^[+-]\d+(\.\d+)?%$/.test(trimmed)) {
+    rate = 1 + Number(trimmed.slice(0, -1)) / 100;
+  } else if (/^\d+(\.\d+)?%$/.test(trimmed)) {
+    rate = Number(trimmed.slice(0, -1)) / 100;
+  } else if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    rate = Number(trimmed);
+  } else {
+    return null;
+  }
+
+  return rate >= 0.5 && rate <= 2 ? rate : null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,446 @@
+/**
+ * Speech Normalizer - Rewrites LLM text into what a voice should say
+ *
+ * Runs between sentence segmentation and synthesis, so TTS providers receive
+ * consistent, speakable text: markdown and code are stripped, and numbers,
+ * currency, dates, times, phone numbers, emails, URLs and identifiers are
+ * spelled out. Only the spoken text changes; displayed text is untouched.
+ *
+ * Verbalization is English, with locale differences for en-US and en-GB
+ * (date order, 24-hour times, "one hundred and five"). For other locales
+ * only markup, URLs and emails are rewritten and numbers are left to the
+ * TTS provider. Speech markup tags (see speech-markup.ts) pass through
+ * untouched.
+ */
+
+import { hasSpeechMarkup, mapSpeechMarkupText } from './speech-markup';
+
+export interface SpeechNormalizerRule {
+  /** Strings match literally */
+  pattern: RegExp | string;
+  replacement: string | ((match: string, ...groups: string[]) => string);
+}
+
+export interface SpeechNormalizerConfig {
+  /** BCP 47 locale (default: 'en-US') */
+  locale?: string;
+  /** Custom rules, applied in order before the built-in ones */
+  rules?: SpeechNormalizerRule[];
+  /** Strip markdown, code and HTML (default: true) */
+  markdown?: boolean;
+  /** Speak URLs and email addresses (default: true) */
+  urls?: boolean;
+  /** Speak phone numbers digit by digit (default: true) */
+  phoneNumbers?: boolean;
+  /** Speak currency amounts (default: true) */
+  currency?: boolean;
+  /** Speak dates and times (default: true) */
+  dates?: boolean;
+  /** Speak numbers, ordinals, percentages and identifiers (default: true) */
+  numbers?: boolean;
+}
+
+/**
+ * Anything that can rewrite a sentence before synthesis
+ */
+export interface TextNormalizer {
+  normalize(text: string): string;
+}
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: Array<[number, string]> = [
+  [1e12, 'trillion'],
+  [1e9, 'billion'],
+  [1e6, 'million'],
+  [1e3, 'thousand'],
+];
+const ORDINAL_WORDS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const CURRENCIES: Record<string, { major: [string, string]; minor?: [string, string] }> = {
+  '$': { major: ['dollar', 'dollars'], minor: ['cent', 'cents'] },
+  '€': { major: ['euro', 'euros'], minor: ['cent', 'cents'] },
+  '£': { major: ['pound', 'pounds'], minor: ['penny', 'pence'] },
+  '¥': { major: ['yen', 'yen'] },
+  '₹': { major: ['rupee', 'rupees'], minor: ['paisa', 'paise'] },
+};
+const SCALE_SUFFIXES: Record<string, string> = {
+  k: 'thousand', thousand: 'thousand',
+  m: 'million', mm: 'million', million: 'million',
+  b: 'billion', bn: 'billion', billion: 'billion',
+  t: 'trillion', trillion: 'trillion',
+};
+
+const ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\be\.g\./gi, 'for example'],
+  [/\bi\.e\./gi, 'that is'],
+  [/\betc\./gi, 'et cetera'],
+  [/\bvs\.?(?=\s)/gi, 'versus'],
+];
+
+export class SpeechNormalizer implements TextNormalizer {
+  private english: boolean;
+  private british: boolean;
+  private rules: SpeechNormalizerRule[];
+  private options: Required<Omit<SpeechNormalizerConfig, 'locale' | 'rules'>>;
+
+  constructor(config: SpeechNormalizerConfig = {}) {
+    const locale = config.locale || 'en-US';
+    this.english = /^en\b/i.test(locale);
+    this.british = /^en-(GB|IE|AU|NZ|IN|ZA)$/i.test(locale);
+    this.rules = [...(config.rules || [])];
+    this.options = {
+      markdown: config.markdown ?? true,
+      urls: config.urls ?? true,
+      phoneNumbers: config.phoneNumbers ?? true,
+      currency: config.currency ?? true,
+      dates: config.dates ?? true,
+      numbers: config.numbers ?? true,
+    };
+  }
+
+  /**
+   * Add a custom rule; it runs after the existing custom rules
+   */
+  addRule(rule: SpeechNormalizerRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Rewrite text for speech. May return an empty string (e.g. a code block).
+   */
+  normalize(text: string): string {
+    let result = text;
+
+    for (const rule of this.rules) {
+      result = applyRule(result, rule);
+    }
+
+    if (hasSpeechMarkup(result)) {
+      return this.normalizeMarkup(result);
+    }
+    return this.normalizeText(result);
+  }
+
+  /**
+   * Normalize only the text between speech markup tags
+   */
+  private normalizeMarkup(text: string): string {
+    return mapSpeechMarkupText(text, (part) => (part.trim() ? ` ${this.normalizeText(part)} ` : part))
+      .replace(/\s+/g, ' ')
+      .replace(/\s+([,.!?;:])/g, '$1')
+      .trim();
+  }
+
+  private normalizeText(text: string): string {
+    let result = text;
+
+    if (this.options.markdown) {
+      result = stripMarkdown(result);
+    }
+    if (this.options.urls) {
+      result = this.speakEmailsAndUrls(result);
+    }
+
+    if (this.english) {
+      if (this.options.phoneNumbers) {
+        result = this.speakPhoneNumbers(result);
+      }
+      if (this.options.currency) {
+        result = this.speakCurrency(result);
+      }
+      if (this.options.dates) {
+        result = this.speakDates(result);
+        result = this.speakTimes(result);
+      }
+      if (this.options.numbers) {
+        result = this.speakNumbers(result);
+      }
+      for (const [pattern, replacement] of ABBREVIATIONS) {
+        result = result.replace(pattern, replacement);
+      }
+      // Leave XML entities (&amp;) in marked-up text alone
+      result = result.replace(/\s*&(?!#?\w+;)\s*/g, ' and ');
+    }
+
+    return result.replace(/\s+/g, ' ').replace(/\s+([,.!?;:])/g, '$1').trim();
+  }
+
+  private speakEmailsAndUrls(text: string): string {
+    return text
+      .replace(/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, (email) => {
+        const [user, domain] = email.split('@');
+        return `${spokenAddress(user)} at ${spokenAddress(domain)}`;
+      })
+      .replace(/\b(?:https?:\/\/)?(?:www\.)?((?:[a-z0-9-]+\.)+[a-z]{2,})(\/[^\s)]*[^\s).,!?;:])?/gi, (match, host: string, path?: string) => {
+        // Only rewrite what is clearly a URL, not "e.g." or "3.5"
+        if (!/^(https?:\/\/|www\.)/i.test(match) && !/\.(com|org|net|io|ai|dev|co|uk|us|edu|gov|app)$/i.test(host)) {
+          return match;
+        }
+        const segments = (path || '').split('/').filter(Boolean);
+        return [spokenAddress(host), ...segments.map(spokenAddress)].join(' slash ');
+      });
+  }
+
+  private speakPhoneNumbers(text: string): string {
+    return text.replace(
+      /(\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+      (phone) => {
+        const groups = phone.replace(/[()]/g, ' ').split(/[\s.-]+/).filter(Boolean);
+        return groups
+          .map((group) => (group.startsWith('+') ? `plus ${spellDigits(group.slice(1))}` : spellDigits(group)))
+          .join(', ');
+      }
+    );
+  }
+
+  private speakCurrency(text: string): string {
+    return text.replace(
+      /([$€£¥₹])\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?:\s?(thousand|million|billion|trillion|bn|mm|[kmbt])\b)?/gi,
+      (match, symbol: string, whole: string, fraction: string | undefined, suffix: string | undefined) => {
+        const currency = CURRENCIES[symbol];
+        const major = Number(whole.replace(/,/g, ''));
+
+        if (suffix) {
+          const amount = fraction ? `${this.cardinal(major)} point ${spellDigits(fraction)}` : this.cardinal(major);
+          return `${amount} ${SCALE_SUFFIXES[suffix.toLowerCase()]} ${currency.major[1]}`;
+        }
+
+        const minor = fraction ? Number(fraction.padEnd(2, '0')) : 0;
+        const parts: string[] = [];
+        if (major > 0 || minor === 0 || !currency.minor) {
+          parts.push(`${this.cardinal(major)} ${currency.major[major === 1 ? 0 : 1]}`);
+        }
+        if (minor > 0 && currency.minor) {
+          parts.push(`${this.cardinal(minor)} ${currency.minor[minor === 1 ? 0 : 1]}`);
+        }
+        return parts.join(' and ');
+      }
+    );
+  }
+
+  private speakDates(text: string): string {
+    return text
+      // ISO dates: 2025-03-04
+      .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, year: string, month: string, day: string) =>
+        this.date(Number(day), Number(month), Number(year)) ?? match)
+      // Numeric dates: 3/4/2025 is month first in en-US and day first elsewhere
+      .replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, (match, first: string, second: string, year: string) => {
+        const [day, month] = this.british ? [first, second] : [second, first];
+        const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+        return this.date(Number(day), Number(month), fullYear) ?? match;
+      })
+      // Written dates: March 4, 2025 / March 4th
+      .replace(
+        new RegExp(`\\b(${MONTHS.join('|')})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+        (match, month: string, day: string, year?: string) =>
+          `${month} ${this.ordinal(Number(day))}${year ? `, ${yearWords(Number(year))}` : ''}`
+      );
+  }
+
+  private speakTimes(text: string): string {
+    return text.replace(
+      /\b(\d{1,2}):(\d{2})(?::\d{2})?(?:\s?([ap])\.?m\.?\b)?/gi,
+      (match, hourText: string, minuteText: string, meridiem?: string) => {
+        const hour = Number(hourText);
+        const minute = Number(minuteText);
+        if (hour > 23 || minute > 59) {
+          return match;
+        }
+
+        const minutes = minute === 0 ? '' : minute < 10 ? ` oh ${ONES[minute]}` : ` ${this.cardinal(minute)}`;
+
+        if (meridiem) {
+          return `${this.cardinal(hour % 12 || 12)}${minutes} ${meridiem.toUpperCase()}M`;
+        }
+        // 24-hour clock reads as is in British English
+        if (this.british) {
+          return `${this.cardinal(hour)}${minute === 0 ? (hour === 0 ? ' hundred' : ' hundred hours') : minutes}`;
+        }
+        if (hour === 0 || hour > 12) {
+          return `${this.cardinal(hour % 12 || 12)}${minutes} ${hour < 12 ? 'AM' : 'PM'}`;
+        }
+        return `${this.cardinal(hour)}${minute === 0 ? " o'clock" : minutes}`;
+      }
+    );
+  }
+
+  private speakNumbers(text: string): string {
+    return text
+      // Identifiers such as order numbers are spelled out character by character
+      .replace(/\b(?=[A-Z0-9-]*[A-Z])(?=(?:[A-Z-]*\d){3})[A-Z0-9]+(?:-[A-Z0-9]+)*\b/g, spellCharacters)
+      .replace(/#\s?(?=\w)/g, 'number ')
+      .replace(/(\d+(?:\.\d+)?)\s?%/g, (match, value: string) => `${this.decimal(value)} percent`)
+      .replace(/\b(\d+)(?:st|nd|rd|th)\b/gi, (match, value: string) => this.ordinal(Number(value)))
+      .replace(/\b(\d+)\s?[-–]\s?(\d+)\b/g, '$1 to $2')
+      .replace(/(^|[\s(])-(?=\d)/g, '$1minus ')
+      .replace(/\b\d{1,3}(?:,\d{3})+(?:\.\d+)?\b|\b\d+(?:\.\d+)?\b/g, (value) => {
+        const digits = value.replace(/,/g, '');
+        // Codes and long digit strings are read digit by digit
+        if (!value.includes(',') && !digits.includes('.') && (digits.length >= 6 || (digits.length > 1 && digits.startsWith('0')))) {
+          return spellDigits(digits);
+        }
+        const number = Number(digits);
+        if (!value.includes(',') && Number.isInteger(number) && number >= 1100 && number < 2100) {
+          return yearWords(number);
+        }
+        return this.decimal(digits);
+      });
+  }
+
+  private date(day: number, month: number, year: number): string | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31) {
+      return null;
+    }
+
+    const monthName = MONTHS[month - 1];
+    return this.british
+      ? `the ${this.ordinal(day)} of ${monthName}, ${yearWords(year)}`
+      : `${monthName} ${this.ordinal(day)}, ${yearWords(year)}`;
+  }
+
+  private decimal(value: string): string {
+    const [whole, fraction] = value.split('.');
+    const words = this.cardinal(Number(whole));
+    return fraction ? `${words} point ${spellDigits(fraction)}` : words;
+  }
+
+  private cardinal(value: number): string {
+    return numberToWords(value, this.british);
+  }
+
+  private ordinal(value: number): string {
+    const words = this.cardinal(value);
+    return words.replace(/(\w+)$/, (last) => {
+      if (ORDINAL_WORDS[last]) return ORDINAL_WORDS[last];
+      if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+      return `${last}th`;
+    });
+  }
+}
+
+/**
+ * Integer to English words, e.g. 1299 → "one thousand two hundred ninety-nine"
+ */
+export function numberToWords(value: number, british = false): string {
+  if (!Number.isFinite(value)) {
+    return String(value);
+  }
+  if (value < 0) {
+    return `minus ${numberToWords(-value, british)}`;
+  }
+
+  let remaining = Math.floor(value);
+  if (remaining < 20) {
+    return ONES[remaining];
+  }
+
+  const parts: string[] = [];
+  for (const [scale, name] of SCALES) {
+    if (remaining >= scale) {
+      parts.push(`${hundreds(Math.floor(remaining / scale), british)} ${name}`);
+      remaining %= scale;
+    }
+  }
+  if (remaining > 0) {
+    // "one thousand and five" in British English
+    const joiner = british && parts.length > 0 && remaining < 100 ? 'and ' : '';
+    parts.push(joiner + hundreds(remaining, british));
+  }
+
+  return parts.join(' ');
+}
+
+function hundreds(value: number, british: boolean): string {
+  const parts: string[] = [];
+  if (value >= 100) {
+    parts.push(`${ONES[Math.floor(value / 100)]} hundred`);
+    value %= 100;
+    if (value > 0 && british) {
+      parts.push('and');
+    }
+  }
+  if (value >= 20) {
+    parts.push(TENS[Math.floor(value / 10)] + (value % 10 ? `-${ONES[value % 10]}` : ''));
+  } else if (value > 0) {
+    parts.push(ONES[value]);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Years as spoken: 1999 → "nineteen ninety-nine", 2005 → "two thousand five"
+ */
+function yearWords(year: number): string {
+  if ((year >= 2000 && year < 2010) || year < 1100 || year >= 10000) {
+    return numberToWords(year);
+  }
+
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (rest === 0) {
+    return `${numberToWords(century)} hundred`;
+  }
+  return `${numberToWords(century)} ${rest < 10 ? `oh ${ONES[rest]}` : numberToWords(rest)}`;
+}
+
+function spellDigits(digits: string): string {
+  return digits.split('').filter((digit) => /\d/.test(digit)).map((digit) => ONES[Number(digit)]).join(' ');
+}
+
+function spellCharacters(text: string): string {
+  return text
+    .split('')
+    .map((char) => (/\d/.test(char) ? ONES[Number(char)] : char === '-' ? 'dash' : char))
+    .join(' ');
+}
+
+/**
+ * Hosts and email users: dots and separators spoken, digits kept for the number pass
+ */
+function spokenAddress(text: string): string {
+  return text
+    .replace(/\./g, ' dot ')
+    .replace(/_/g, ' underscore ')
+    .replace(/-/g, ' dash ')
+    .replace(/\+/g, ' plus ')
+    .trim();
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<\/?[a-z][^>]*>/gi, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, ' ')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/gm, '')
+    .replace(/^[\s|:-]+$/gm, ' ')
+    .replace(/^\s*\|(.*)\|\s*$/gm, '$1')
+    .replace(/\s*\|\s*/g, ', ')
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])([*_])(?=\S)(.+?)(?<=\S)\2(?![\w*])/g, '$1$3')
+    .replace(/\*/g, '');
+}
+
+function applyRule(text: string, rule: SpeechNormalizerRule): string {
+  const pattern = typeof rule.pattern === 'string'
+    ? new RegExp(rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
+    : rule.pattern.global ? rule.pattern : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`);
+
+  return typeof rule.replacement === 'string'
+    ? text.replace(pattern, rule.replacement)
+    : text.replace(pattern, rule.replacement as (match: string, ...groups: any[]) => string);
+}
@@ -0,0 +1,154 @@
+/**
+ * Tone Detector - Finds steady pure tones (voicemail beeps) in PCM16 input
+ *
+ * Each 20ms block is run through Goertzel filters on a grid of frequencies;
+ * a block is tonal when one frequency holds most of its energy. A tone is
+ * reported once it ends, when it held steady for at least minDurationMs and
+ * no longer than maxDurationMs (longer tones are hum or fax, not a beep).
+ */
+
+const BLOCK_MS = 20;
+// A tone may drift this far between blocks and still count as the same tone
+const DRIFT_HZ = 60;
+
+export interface ToneDetectorConfig {
+  /** Sample rate of the PCM16 mono input (default: 16000) */
+  sampleRate?: number;
+  /** Frequencies to test (default: 400-2100Hz every half bin) */
+  frequencies?: number[];
+  /** Share of a block's energy at one frequency for it to count as tonal (default: 0.6) */
+  threshold?: number;
+  /** Quieter blocks are never tonal (default: -45 dBFS) */
+  minLevelDbfs?: number;
+  /** Shortest beep (default: 120ms) */
+  minDurationMs?: number;
+  /** Longest beep (default: 2500ms) */
+  maxDurationMs?: number;
+}
+
+export interface Tone {
+  frequency: number;
+  /** Offset of the tone in the input audio (ms) */
+  startMs: number;
+  durationMs: number;
+}
+
+/**
+ * Goertzel power of one frequency in a block of samples in [-1, 1]
+ */
+export function goertzel(samples: Float32Array, frequency: number, sampleRate: number): number {
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s0 = samples[i] + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  return s1 * s1 + s2 * s2 - coeff * s1 * s2;
+}
+
+export class ToneDetector {
+  private sampleRate: number;
+  private blockSamples: number;
+  private frequencies: number[];
+  private threshold: number;
+  private minEnergy: number;
+  private minDurationMs: number;
+  private maxDurationMs: number;
+
+  private pending = new Float32Array(0);
+  private audioMs = 0;
+  private current: Tone | null = null;
+
+  constructor(config: ToneDetectorConfig = {}) {
+    this.sampleRate = config.sampleRate ?? 16000;
+    this.blockSamples = Math.round((this.sampleRate * BLOCK_MS) / 1000);
+    this.threshold = config.threshold ?? 0.6;
+    this.minDurationMs = config.minDurationMs ?? 120;
+    this.maxDurationMs = config.maxDurationMs ?? 2500;
+
+    // Mean square of a block at the minimum level
+    const minLevel = Math.pow(10, (config.minLevelDbfs ?? -45) / 20);
+    this.minEnergy = minLevel * minLevel;
+
+    const step = 1000 / BLOCK_MS / 2;
+    this.frequencies = config.frequencies?.length
+      ? config.frequencies
+      : Array.from({ length: Math.floor((2100 - 400) / step) + 1 }, (_, i) => 400 + i * step);
+  }
+
+  /**
+   * Feed PCM16 audio; returns the tones that ended in it
+   */
+  process(pcm: Buffer): Tone[] {
+    const incoming = new Float32Array(pcm.length >> 1);
+    for (let i = 0; i < incoming.length; i++) {
+      incoming[i] = pcm.readInt16LE(i * 2) / 32768;
+    }
+    const samples = new Float32Array(this.pending.length + incoming.length);
+    samples.set(this.pending);
+    samples.set(incoming, this.pending.length);
+
+    const tones: Tone[] = [];
+    let offset = 0;
+    for (; offset + this.blockSamples <= samples.length; offset += this.blockSamples) {
+      const tone = this.processBlock(samples.subarray(offset, offset + this.blockSamples));
+      if (tone) {
+        tones.push(tone);
+      }
+      this.audioMs += BLOCK_MS;
+    }
+    this.pending = samples.slice(offset);
+    return tones;
+  }
+
+  reset(): void {
+    this.pending = new Float32Array(0);
+    this.audioMs = 0;
+    this.current = null;
+  }
+
+  private processBlock(block: Float32Array): Tone | null {
+    const frequency = this.dominantFrequency(block);
+
+    if (frequency !== null && this.current && Math.abs(frequency - this.current.frequency) <= DRIFT_HZ) {
+      this.current.durationMs += BLOCK_MS;
+      return null;
+    }
+
+    // The tone stopped (or changed pitch): report it if it was beep-length
+    const ended = this.current;
+    this.current = frequency !== null ? { frequency, startMs: this.audioMs, durationMs: BLOCK_MS } : null;
+    if (ended && ended.durationMs >= this.minDurationMs && ended.durationMs <= this.maxDurationMs) {
+      return ended;
+    }
+    return null;
+  }
+
+  /**
+   * The frequency holding most of the block's energy, if it holds enough
+   */
+  private dominantFrequency(block: Float32Array): number | null {
+    let energy = 0;
+    for (let i = 0; i < block.length; i++) {
+      energy += block[i] * block[i];
+    }
+    if (energy / block.length < this.minEnergy) {
+      return null;
+    }
+
+    let best = 0;
+    let bestFrequency = 0;
+    for (const frequency of this.frequencies) {
+      const power = goertzel(block, frequency, this.sampleRate);
+      if (power > best) {
+        best = power;
+        bestFrequency = frequency;
+      }
+    }
+
+    // A pure tone puts N/2 * energy into its Goertzel power
+    return (2 * best) / (block.length * energy) >= this.threshold ? bestFrequency : null;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Visemes - Mouth shapes for lip-synced avatars
+ *
+ * Uses the 15-viseme Oculus/Meta set. Providers with native visemes (Azure)
+ * report keyframes directly; otherwise each timed word is spelled out into
+ * visemes with English grapheme rules and spread over the word's duration.
+ *
+ * VisemeTrack lines the keyframes up with the audio chunks of a response, so
+ * each delta carries offsets relative to the start of one audio chunk.
+ */
+
+import type { Viseme, VisemeTiming, WordTiming } from '../types';
+
+export interface VisemeDelta {
+  /** Index of the audio chunk within the response, from 0 */
+  chunkIndex: number;
+  /** Start of that chunk in the response audio */
+  audioStartMs: number;
+  /** Keyframes with offsets from the start of the chunk */
+  visemes: Array<{ viseme: Viseme; offsetMs: number }>;
+}
+
+/**
+ * Azure viseme IDs (0-21) mapped to the Oculus set
+ */
+export const AZURE_VISEMES: Viseme[] = [
+  'sil', 'aa', 'aa', 'O', 'E', 'RR', 'I', 'U', 'O', 'aa', 'O',
+  'aa', 'kk', 'RR', 'nn', 'SS', 'CH', 'TH', 'FF', 'DD', 'kk', 'PP',
+];
+
+// Longest spellings first; silent letters map to nothing
+const GRAPHEMES: Array<[string, Viseme[]]> = [
+  ['tch', ['CH']], ['igh', ['aa', 'I']], ['dge', ['CH']],
+  ['th', ['TH']], ['sh', ['CH']], ['ch', ['CH']], ['ph', ['FF']], ['gh', []], ['ck', ['kk']],
+  ['ng', ['nn']], ['qu', ['kk', 'U']], ['wh', ['U']], ['wr', ['RR']], ['kn', ['nn']],
+  ['ee', ['I']], ['ea', ['I']], ['ie', ['I']], ['oo', ['U']], ['ou', ['aa', 'U']], ['ow', ['O']],
+  ['oa', ['O']], ['ai', ['E']], ['ay', ['E']], ['ey', ['E']], ['oi', ['O', 'I']], ['oy', ['O', 'I']],
+  ['au', ['O']], ['aw', ['O']],
+  ['a', ['aa']], ['e', ['E']], ['i', ['I']], ['o', ['O']], ['u', ['U']], ['y', ['I']], ['w', ['U']],
+  ['b', ['PP']], ['m', ['PP']], ['p', ['PP']], ['f', ['FF']], ['v', ['FF']],
+  ['d', ['DD']], ['t', ['DD']], ['n', ['nn']], ['l', ['nn']], ['r', ['RR']],
+  ['s', ['SS']], ['z', ['SS']], ['x', ['kk', 'SS']], ['k', ['kk']], ['q', ['kk']], ['g', ['kk']],
+  ['j', ['CH']], ['h', []],
+];
+
+// Word gap that closes the mouth
+const SILENCE_GAP_MS = 60;
+
+/**
+ * Visemes for a written English word, with repeats collapsed
+ */
+export function textToVisemes(word: string): Viseme[] {
+  let text = word.toLowerCase().replace(/[^a-z]/g, '');
+  // Silent final e ("make", "time")
+  if (text.length > 2 && /[^aeiou]e$/.test(text)) {
+    text = text.slice(0, -1);
+  }
+
+  const visemes: Viseme[] = [];
+  let position = 0;
+  while (position < text.length) {
+    let matched = false;
+    for (const [spelling, shapes] of GRAPHEMES) {
+      if (text.startsWith(spelling, position)) {
+        visemes.push(...shapes);
+        position += spelling.length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Only c is left: soft before e/i/y ("city"), hard otherwise
+      visemes.push(text[position] === 'c' && /[eiy]/.test(text[position + 1] ?? '') ? 'SS' : 'kk');
+      position += 1;
+    }
+  }
+
+  return visemes.filter((viseme, index) => viseme !== visemes[index - 1]);
+}
+
+/**
+ * Estimate viseme keyframes from word timings, closing the mouth in gaps
+ * between words and after the last word
+ */
+export function visemesForWords(words: WordTiming[]): VisemeTiming[] {
+  const keyframes: VisemeTiming[] = [];
+  let previousEndMs: number | null = null;
+
+  for (const word of words) {
+    const visemes = textToVisemes(word.word);
+    if (visemes.length === 0) {
+      continue;
+    }
+    if (previousEndMs !== null && word.startMs - previousEndMs >= SILENCE_GAP_MS) {
+      keyframes.push({ viseme: 'sil', startMs: previousEndMs });
+    }
+
+    const slotMs = (word.endMs - word.startMs) / visemes.length;
+    visemes.forEach((viseme, index) => {
+      keyframes.push({ viseme, startMs: Math.round(word.startMs + index * slotMs) });
+    });
+    previousEndMs = word.endMs;
+  }
+
+  if (previousEndMs !== null) {
+    keyframes.push({ viseme: 'sil', startMs: previousEndMs });
+  }
+  return keyframes;
+}
+
+/**
+ * Assigns viseme keyframes to the audio chunks they fall in. A chunk is
+ * released once keyframes are known up to its end (or its sentence is complete).
+ */
+export class VisemeTrack {
+  private keyframes: VisemeTiming[] = [];
+  private chunks: Array<{ index: number; startMs: number; endMs: number }> = [];
+  private audioMs = 0;
+  private chunkCount = 0;
+  private knownUntilMs = 0;
+
+  /**
+   * Record an emitted audio chunk
+   */
+  addAudio(durationMs: number): void {
+    this.chunks.push({ index: this.chunkCount++, startMs: this.audioMs, endMs: this.audioMs + durationMs });
+    this.audioMs += durationMs;
+  }
+
+  /**
+   * Add keyframes timed from the start of the response audio
+   */
+  addKeyframes(keyframes: VisemeTiming[]): void {
+    if (keyframes.length === 0) {
+      return;
+    }
+    this.keyframes.push(...keyframes);
+    this.keyframes.sort((a, b) => a.startMs - b.startMs);
+    this.knownUntilMs = Math.max(this.knownUntilMs, keyframes[keyframes.length - 1].startMs);
+  }
+
+  /**
+   * No more keyframes will arrive for the audio so far
+   */
+  complete(): void {
+    this.knownUntilMs = Math.max(this.knownUntilMs, this.audioMs);
+  }
+
+  /**
+   * Deltas for the chunks that are ready, in order
+   */
+  take(): VisemeDelta[] {
+    const deltas: VisemeDelta[] = [];
+
+    while (this.chunks.length > 0 && this.chunks[0].endMs <= this.knownUntilMs) {
+      const chunk = this.chunks.shift()!;
+      const count = this.keyframes.findIndex((keyframe) => keyframe.startMs >= chunk.endMs);
+      const keyframes = this.keyframes.splice(0, count === -1 ? this.keyframes.length : count);
+
+      if (keyframes.length > 0) {
+        deltas.push({
+          chunkIndex: chunk.index,
+          audioStartMs: Math.round(chunk.startMs),
+          visemes: keyframes.map((keyframe) => ({
+            viseme: keyframe.viseme,
+            offsetMs: Math.max(0, Math.round(keyframe.startMs - chunk.startMs)),
+          })),
+        });
+      }
+    }
+
+    return deltas;
+  }
+}
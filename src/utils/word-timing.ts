@@ -0,0 +1,155 @@
+/**
+ * Word Timing - Which words a stretch of synthesized audio contains
+ *
+ * Providers with native alignment (ElevenLabs, Cartesia, Azure) report word
+ * or character timestamps; for the others, word timings are estimated once a
+ * sentence's audio is complete by spreading its duration over the words by
+ * length, with extra time for pauses at punctuation.
+ */
+
+import type { AudioFormat, SynthesizeOptions, TimedAudioChunk, TTSProvider, WordTiming } from '../types';
+import { AudioTranscoder } from './audio-codec';
+import { stripSpeechMarkup } from './speech-markup';
+
+const DEFAULT_FORMAT: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
+// Estimated pauses after punctuation, in characters of speech
+const SENTENCE_PAUSE = 6;
+const CLAUSE_PAUSE = 3;
+
+/**
+ * Synthesize with word timings, converted to `outputFormat`. Uses the provider's
+ * native alignment when it has one (and `native` is set), otherwise a final
+ * chunk with empty audio carries the estimated timings for the whole text.
+ */
+export async function* synthesizeWithTimings(
+  provider: TTSProvider,
+  text: string,
+  outputFormat: AudioFormat,
+  options: SynthesizeOptions = {},
+  native = true
+): AsyncIterable<TimedAudioChunk> {
+  const transcoder = new AudioTranscoder(provider.outputFormat || DEFAULT_FORMAT, outputFormat);
+
+  if (native && provider.synthesizeWithTimestamps) {
+    for await (const chunk of provider.synthesizeWithTimestamps(text, options)) {
+      const audio = transcoder.transcode(chunk.audio);
+      if (audio.length > 0 || chunk.words?.length || chunk.visemes?.length) {
+        yield { audio, words: chunk.words, visemes: chunk.visemes, alignment: chunk.alignment ?? 'native' };
+      }
+    }
+    const tail = transcoder.flush();
+    if (tail.length > 0) {
+      yield { audio: tail };
+    }
+    return;
+  }
+
+  let bytes = 0;
+  for await (const chunk of provider.synthesize(text, options)) {
+    const audio = transcoder.transcode(chunk);
+    if (audio.length > 0) {
+      bytes += audio.length;
+      yield { audio };
+    }
+  }
+  const tail = transcoder.flush();
+  if (tail.length > 0) {
+    bytes += tail.length;
+    yield { audio: tail };
+  }
+
+  const words = estimateWordTimings(stripSpeechMarkup(text), audioDurationMs(bytes, outputFormat));
+  if (words.length > 0) {
+    yield { audio: Buffer.alloc(0), words, alignment: 'estimated' };
+  }
+}
+
+/**
+ * Spread a duration over the words of a text by their spoken length
+ */
+export function estimateWordTimings(text: string, durationMs: number): WordTiming[] {
+  const words = text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word));
+  if (words.length === 0 || durationMs <= 0) {
+    return [];
+  }
+
+  const units = words.map((word) => ({
+    // One extra character for the gap between words
+    speech: word.replace(/[^\p{L}\p{N}]/gu, '').length + 1,
+    pause: /[.!?…]["')\]]*$/.test(word) ? SENTENCE_PAUSE : /[,;:]["')\]]*$/.test(word) ? CLAUSE_PAUSE : 0,
+  }));
+  // The pause after the last word is not part of the audio
+  units[units.length - 1].pause = 0;
+
+  const msPerUnit = durationMs / units.reduce((total, unit) => total + unit.speech + unit.pause, 0);
+  let cursor = 0;
+
+  return words.map((word, index) => {
+    const startMs = cursor;
+    const endMs = startMs + units[index].speech * msPerUnit;
+    cursor = endMs + units[index].pause * msPerUnit;
+    return { word, startMs: Math.round(startMs), endMs: Math.round(endMs) };
+  });
+}
+
+/**
+ * Groups streamed character timestamps into words. Characters inside markup
+ * tags are skipped, and a word split across chunks is completed by the next one.
+ */
+export class CharacterAligner {
+  private word = '';
+  private startMs = 0;
+  private endMs = 0;
+  private inTag = false;
+
+  /**
+   * Add characters with their start and end times; returns the words they complete
+   */
+  push(characters: string[], startsMs: number[], endsMs: number[]): WordTiming[] {
+    const words: WordTiming[] = [];
+
+    characters.forEach((character, index) => {
+      if (this.inTag || character === '<') {
+        this.inTag = character !== '>';
+        return;
+      }
+      if (/\s/.test(character)) {
+        this.complete(words);
+        return;
+      }
+      if (!this.word) {
+        this.startMs = startsMs[index];
+      }
+      this.word += character;
+      this.endMs = endsMs[index];
+    });
+
+    return words;
+  }
+
+  /**
+   * Words still open at the end of the stream
+   */
+  flush(): WordTiming[] {
+    const words: WordTiming[] = [];
+    this.complete(words);
+    this.inTag = false;
+    return words;
+  }
+
+  private complete(words: WordTiming[]): void {
+    if (this.word) {
+      words.push({ word: this.word, startMs: Math.round(this.startMs), endMs: Math.round(this.endMs) });
+      this.word = '';
+    }
+  }
+}
+
+/**
+ * Playback duration of audio in a raw format
+ */
+export function audioDurationMs(bytes: number, format: AudioFormat): number {
+  const bytesPerSample = format.encoding === 'mulaw' || format.encoding === 'alaw' ? 1 : format.bitDepth / 8;
+  return (bytes / (format.sampleRate * (format.channels || 1) * bytesPerSample)) * 1000;
+}
@@ -0,0 +1,223 @@
+/**
+ * Answering Machine Detection - Did a person or a voicemail greeting pick up?
+ *
+ * For outbound calls. Decided from the first moments of the call:
+ * - cadence: people answer with a short "Hello?" and wait; a voicemail
+ *   greeting talks on for several seconds
+ * - beep: a steady tone (Goertzel filters on the input PCM) is a machine
+ *   ready to record
+ * - transcript: voicemail phrases ("leave a message", "not available") or a
+ *   long greeting point to a machine
+ *
+ * Events:
+ * - 'result' (AnsweringMachineResult) - once, when decided
+ * - 'beep' (Tone)
+ * - 'message_ready' ({ after: 'beep' | 'silence' }) - a machine finished its
+ *   greeting: a message left now is recorded
+ *
+ * Time is measured in audio time, like the turn detector.
+ */
+
+import { EventEmitter } from 'events';
+import { ToneDetector, ToneDetectorConfig } from '../utils/tone-detector';
+
+export type AnsweringMachineVerdict = 'human' | 'machine' | 'unknown';
+
+/**
+ * Payload of 'call.amd_result'
+ */
+export interface AnsweringMachineResult {
+  result: AnsweringMachineVerdict;
+  confidence: number;
+  /** The cues behind the result (beep, long_greeting, voicemail_phrase, ...) */
+  reasons: string[];
+  /** Audio time from the start of the call to the decision (ms) */
+  decisionMs: number;
+  /** What was transcribed before the decision */
+  transcript: string;
+}
+
+export interface AnsweringMachineConfig {
+  enabled?: boolean;
+  /** A greeting that runs longer than this is a machine (default: 3000ms) */
+  maxGreetingMs?: number;
+  /** Silence after a short greeting that means a person is waiting for a reply (default: 800ms) */
+  greetingSilenceMs?: number;
+  /** More words than this in the greeting is a machine (default: 10) */
+  maxGreetingWords?: number;
+  /** Nobody speaking for this long is undecided (default: 4000ms) */
+  initialSilenceMs?: number;
+  /** Undecided after this long (default: 6000ms) */
+  timeoutMs?: number;
+  /** Beep detection; false disables it */
+  beep?: ToneDetectorConfig | false;
+  /** Silence after a machine's greeting that stands in for a beep it never played (default: 2000ms) */
+  messageSilenceMs?: number;
+  /** Message left after the beep; without it the session ends as soon as a machine is detected */
+  voicemail?: {
+    text: string;
+    /** Recording of `text` in the session output format */
+    audio?: Buffer;
+    /** End the session once the message is left; false goes on with the call (default: true) */
+    hangUp?: boolean;
+  };
+}
+
+const VOICEMAIL_PHRASES = [
+  /\bleave (me |us )?(a |your )?(brief |short )?(message|name)\b/,
+  /\b(is )?(not|un)\s?available\b/,
+  /\b(after|at) the (tone|beep)\b/,
+  /\bvoice ?mail\b/,
+  /\bmail ?box\b/,
+  /\brecord your message\b/,
+  /\b(can't|cannot|can not) (come to|take|get to) the phone\b/,
+  /\bget back to you\b/,
+  /\byou('ve| have) reached\b/,
+];
+
+// Confidence of a result by the cue that decided it
+const BASE_CONFIDENCE: Record<string, number> = {
+  beep: 0.95,
+  voicemail_phrase: 0.9,
+  long_transcript: 0.8,
+  short_greeting: 0.8,
+  long_greeting: 0.75,
+};
+
+export class AnsweringMachineDetector extends EventEmitter {
+  private sampleRate: number;
+  private maxGreetingMs: number;
+  private greetingSilenceMs: number;
+  private maxGreetingWords: number;
+  private initialSilenceMs: number;
+  private timeoutMs: number;
+  private messageSilenceMs: number;
+  private toneDetector: ToneDetector | null;
+
+  private audioMs = 0;
+  private speaking = false;
+  private greetingStartMs = 0;
+  private lastSpeechMs = 0;
+  private heardSpeech = false;
+  private words: string[] = [];
+  private result: AnsweringMachineResult | null = null;
+  private messageReady = false;
+
+  constructor(config: AnsweringMachineConfig = {}, sampleRate: number = 16000) {
+    super();
+    this.sampleRate = sampleRate;
+    this.maxGreetingMs = config.maxGreetingMs ?? 3000;
+    this.greetingSilenceMs = config.greetingSilenceMs ?? 800;
+    this.maxGreetingWords = config.maxGreetingWords ?? 10;
+    this.initialSilenceMs = config.initialSilenceMs ?? 4000;
+    this.timeoutMs = config.timeoutMs ?? 6000;
+    this.messageSilenceMs = config.messageSilenceMs ?? 2000;
+    this.toneDetector = config.beep === false ? null : new ToneDetector({ sampleRate, ...config.beep });
+  }
+
+  get decided(): AnsweringMachineResult | null {
+    return this.result;
+  }
+
+  /**
+   * Feed a frame of PCM16 input with its VAD decision
+   */
+  process(frame: Buffer, isSpeech: boolean): void {
+    if (this.result && (this.result.result !== 'machine' || this.messageReady)) {
+      return;
+    }
+    this.audioMs += (frame.length / 2 / this.sampleRate) * 1000;
+
+    const tones = this.toneDetector?.process(frame) ?? [];
+    if (tones.length > 0) {
+      this.emit('beep', tones[0]);
+      this.decide('machine', ['beep']);
+      this.markMessageReady('beep');
+      return;
+    }
+
+    if (isSpeech) {
+      if (!this.speaking) {
+        this.speaking = true;
+        this.greetingStartMs = this.audioMs;
+      }
+      this.heardSpeech = true;
+      this.lastSpeechMs = this.audioMs;
+    } else if (this.speaking && this.audioMs - this.lastSpeechMs >= this.greetingSilenceMs) {
+      this.speaking = false;
+      if (!this.result) {
+        // A short greeting, then waiting for a reply
+        this.decide('human', ['short_greeting']);
+        return;
+      }
+    }
+
+    if (this.result) {
+      if (this.heardSpeech && !this.speaking && this.audioMs - this.lastSpeechMs >= this.messageSilenceMs) {
+        this.markMessageReady('silence');
+      }
+      return;
+    }
+
+    if (this.speaking && this.lastSpeechMs - this.greetingStartMs >= this.maxGreetingMs) {
+      this.decide('machine', ['long_greeting']);
+    } else if (!this.heardSpeech && this.audioMs >= this.initialSilenceMs) {
+      this.decide('unknown', ['initial_silence']);
+    } else if (this.audioMs >= this.timeoutMs) {
+      this.decide('unknown', ['timeout']);
+    }
+  }
+
+  /**
+   * Feed a transcript of what the callee said
+   */
+  transcript(text: string): void {
+    this.words.push(...text.trim().split(/\s+/).filter(Boolean));
+    if (this.result) {
+      return;
+    }
+
+    const heard = this.words.join(' ').toLowerCase();
+    if (VOICEMAIL_PHRASES.some((phrase) => phrase.test(heard))) {
+      this.decide('machine', ['voicemail_phrase']);
+    } else if (this.words.length > this.maxGreetingWords) {
+      this.decide('machine', ['long_transcript']);
+    }
+  }
+
+  private decide(result: AnsweringMachineVerdict, reasons: string[]): void {
+    if (this.result) {
+      return;
+    }
+
+    const heard = this.words.join(' ').toLowerCase();
+    let confidence = BASE_CONFIDENCE[reasons[0]] ?? 0.5;
+
+    // Transcript cues that agree with the cadence
+    if (result === 'machine' && reasons[0] !== 'voicemail_phrase' && VOICEMAIL_PHRASES.some((phrase) => phrase.test(heard))) {
+      reasons.push('voicemail_phrase');
+      confidence += 0.15;
+    }
+    if (result === 'human' && this.words.length > 0 && this.words.length <= 4) {
+      reasons.push('short_transcript');
+      confidence += 0.1;
+    }
+
+    this.result = {
+      result,
+      confidence: Math.round(Math.min(confidence, 0.99) * 100) / 100,
+      reasons,
+      decisionMs: Math.round(this.audioMs),
+      transcript: this.words.join(' '),
+    };
+    this.emit('result', this.result);
+  }
+
+  private markMessageReady(after: 'beep' | 'silence'): void {
+    if (this.messageReady || this.result?.result !== 'machine') {
+      return;
+    }
+    this.messageReady = true;
+    this.emit('message_ready', { after });
+  }
+}
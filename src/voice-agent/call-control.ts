@@ -0,0 +1,97 @@
+/**
+ * Call Control Tools - Let the agent hang up or hand the caller to a human
+ *
+ * - end_call: the model says goodbye and calls it; once the response has
+ *   played out the session ends and the transport closes the connection
+ * - transfer_call(target, reason, summary): emits 'session.transfer_requested'
+ *   for the host application, which performs the actual transfer (SIP REFER,
+ *   queue, ...) and ends the session when it is done
+ *
+ * Both are opt-in per agent: enable them through `agent.callControl`, or add
+ * endCallTool() / transferCallTool() to the tools of a handoff agent. The
+ * voice agent acts on them only after the response completes, so a caller
+ * who barges in on the goodbye keeps the call going.
+ */
+
+import { z } from 'zod';
+import { tool } from '../agents-sdk/agent';
+
+export const END_CALL_TOOL = 'end_call';
+export const TRANSFER_CALL_TOOL = 'transfer_call';
+
+export interface EndCallToolOptions {
+  description?: string;
+}
+
+export interface TransferCallToolOptions {
+  /** Allowed targets (queue names, departments, numbers); any string when omitted */
+  targets?: string[];
+  /** Ask the model for a handoff summary for whoever takes over (default: true) */
+  summary?: boolean;
+  description?: string;
+}
+
+export interface CallControlConfig {
+  endCall?: boolean | EndCallToolOptions;
+  transfer?: boolean | TransferCallToolOptions;
+}
+
+/**
+ * Payload of 'session.transfer_requested'
+ */
+export interface TransferRequest {
+  target: string;
+  reason: string;
+  /** What the caller needs, for the human taking over */
+  summary?: string;
+}
+
+export function endCallTool(options: EndCallToolOptions = {}) {
+  return {
+    ...tool({
+      description: options.description
+        || 'End the call. Only use this once the conversation is over and you have said goodbye in this response.',
+      parameters: z.object({
+        reason: z.string().optional().describe('Why the call is ending'),
+      }),
+      execute: async () => ({ status: 'ending' }),
+    }),
+    filler: false,
+  };
+}
+
+export function transferCallTool(options: TransferCallToolOptions = {}) {
+  const target = options.targets?.length
+    ? z.enum(options.targets as [string, ...string[]])
+    : z.string();
+
+  return {
+    ...tool({
+      description: options.description
+        || 'Transfer the caller to a human or another team. Tell the caller you are transferring them before calling this.',
+      parameters: z.object({
+        target: target.describe('Who to transfer the caller to'),
+        reason: z.string().describe('Why the caller is being transferred'),
+        ...(options.summary === false
+          ? {}
+          : { summary: z.string().describe('A short summary of the call so far for the person taking over') }),
+      }),
+      execute: async () => ({ status: 'transfer_requested' }),
+    }),
+    filler: false,
+  };
+}
+
+/**
+ * The tools a call control configuration enables
+ */
+export function callControlTools(config: CallControlConfig = {}): Record<string, any> {
+  const tools: Record<string, any> = {};
+  if (config.endCall) {
+    tools[END_CALL_TOOL] = endCallTool(config.endCall === true ? {} : config.endCall);
+  }
+  if (config.transfer) {
+    tools[TRANSFER_CALL_TOOL] = transferCallTool(config.transfer === true ? {} : config.transfer);
+  }
+  return tools;
+}
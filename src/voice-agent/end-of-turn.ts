@@ -0,0 +1,320 @@
+/**
+ * End of Turn - Semantic end-of-turn detection on top of silence endpointing
+ *
+ * Silence alone cuts people off mid-thought ("my account number is... uh...").
+ * Once a transcript for the user's turn is available it is scored for how
+ * likely the user is done, and the score picks the silence the turn needs:
+ * a confident "done" shortens the window down to minSilenceMs, an unfinished
+ * thought stretches it up to maxSilenceMs. A neutral score keeps the
+ * configured silence threshold.
+ *
+ * The heuristic scorer is instant and decides clear cases; an optional small
+ * LLM, run as an agents-sdk Agent with structured output, is only consulted
+ * when the heuristic is unsure.
+ */
+
+import type { LanguageModel } from 'ai';
+import { z } from 'zod';
+import { Agent, AgentConfig, run } from '../agents-sdk/agent';
+
+export interface EndOfTurnContext {
+  /** What the user said so far in this turn */
+  transcript: string;
+  /** The agent's previous reply, if any */
+  lastAgentMessage?: string;
+}
+
+export interface EndOfTurnScore {
+  /** Probability (0-1) that the user has finished the turn */
+  probability: number;
+  reasons: string[];
+}
+
+export interface EndOfTurnScorer {
+  /** Reported in decisions (default: 'custom') */
+  readonly name?: string;
+  score(context: EndOfTurnContext): EndOfTurnScore | Promise<EndOfTurnScore>;
+}
+
+export interface LLMEndOfTurnScorerConfig {
+  /** Model of the scoring agent (default: the voice agent's model, or the agents-sdk default model) */
+  model?: LanguageModel;
+  /** Settings of the scoring agent (default: temperature 0) */
+  modelSettings?: AgentConfig['modelSettings'];
+  /** Give up on the model after this long (default: 1000ms) */
+  timeoutMs?: number;
+  /** Replaces the default instructions; the reply must still be the JSON classification */
+  instructions?: string;
+}
+
+export interface EndOfTurnConfig {
+  enabled?: boolean;
+  /** Primary scorer (default: HeuristicEndOfTurnScorer) */
+  scorer?: EndOfTurnScorer;
+  /** Small model consulted when the primary score falls inside llmRange */
+  llm?: LLMEndOfTurnScorerConfig;
+  /** Scores in this range count as unsure (default: [0.25, 0.75]) */
+  llmRange?: [number, number];
+  /** Silence required when the user is clearly done (default: 250ms) */
+  minSilenceMs?: number;
+  /** Silence allowed when the user is clearly mid-thought (default: 2500ms) */
+  maxSilenceMs?: number;
+}
+
+/**
+ * One scoring of a turn's transcript, recorded in the turn metrics
+ */
+export interface EndOfTurnDecision {
+  transcript: string;
+  probability: number;
+  /** Name of the scorer that produced the probability */
+  scorer: string;
+  reasons: string[];
+  /** Silence the turn needs after the last speech */
+  silenceMs: number;
+  /** Extra wait after scoring before the agent responds; 0 responds immediately */
+  holdMs: number;
+  /** Time spent scoring */
+  latencyMs: number;
+}
+
+const CONJUNCTIONS = new Set([
+  'and', 'but', 'or', 'so', 'because', 'cause', 'then', 'if', 'when', 'while',
+  'although', 'though', 'unless', 'since', 'that', 'which', 'who', 'where',
+]);
+
+const FILLERS = new Set(['uh', 'um', 'umm', 'uhm', 'er', 'erm', 'ah', 'hmm', 'mm', 'like', 'well']);
+
+const FILLER_PHRASES = ['you know', 'i mean', 'let me see', 'let me think', 'let me check', 'hold on', 'one second', 'just a second'];
+
+// Words that cannot end a complete phrase
+const DANGLING = new Set([
+  'the', 'a', 'an', 'to', 'of', 'for', 'with', 'in', 'on', 'at', 'from', 'by', 'about', 'into',
+  'my', 'your', 'our', 'their', 'his', 'her', 'its', 'is', 'are', 'was', 'were', 'am', 'be',
+  'i', 'we', "i'm", "it's", 'than', 'as', 'some', 'any',
+]);
+
+const SHORT_ANSWERS = new Set([
+  'yes', 'yeah', 'yep', 'no', 'nope', 'sure', 'okay', 'ok', 'correct', 'right', 'exactly',
+  'thanks', 'thank you', "that's all", "that's it", 'bye', 'goodbye', 'please',
+]);
+
+const DIGIT_WORDS = new Set(['zero', 'oh', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine']);
+
+// Digits the agent asked for, by what it asked for
+const EXPECTED_DIGITS: Array<[RegExp, number]> = [
+  [/\b(card number|credit card|debit card)\b/, 16],
+  [/\b(phone|mobile|cell)( number)?\b/, 10],
+  [/\b(social security|ssn)\b/, 9],
+  [/\b(zip|postal) code\b|\bzip\b/, 5],
+  [/\bpin\b/, 4],
+];
+
+/**
+ * Rule-based scorer: trailing conjunctions, fillers and dangling words,
+ * partially spoken numbers and unanswered agent questions
+ */
+export class HeuristicEndOfTurnScorer implements EndOfTurnScorer {
+  readonly name = 'heuristic';
+
+  score(context: EndOfTurnContext): EndOfTurnScore {
+    const text = context.transcript.trim();
+    const words = text.toLowerCase().replace(/[^\p{L}\p{N}' ]+/gu, ' ').split(/\s+/).filter(Boolean);
+    const lastWord = words[words.length - 1] ?? '';
+    const tail = words.slice(-3).join(' ');
+    const agentMessage = context.lastAgentMessage?.trim().toLowerCase() ?? '';
+
+    let probability = 0.5;
+    const reasons: string[] = [];
+    const adjust = (delta: number, reason: string) => {
+      probability += delta;
+      reasons.push(reason);
+    };
+
+    if (/(\.\.\.|…|,|-|—)$/.test(text)) adjust(-0.3, 'trailing_pause');
+    if (CONJUNCTIONS.has(lastWord)) adjust(-0.35, 'trailing_conjunction');
+    if (FILLERS.has(lastWord) || FILLER_PHRASES.some((phrase) => tail.endsWith(phrase))) {
+      adjust(-0.35, 'trailing_filler');
+    } else if (DANGLING.has(lastWord)) {
+      adjust(-0.3, 'incomplete_phrase');
+    }
+
+    const digits = trailingDigits(words);
+    if (digits > 0) {
+      const expected = EXPECTED_DIGITS.find(([pattern]) => pattern.test(agentMessage))?.[1];
+      if (expected !== undefined) {
+        adjust(digits < expected ? -0.45 : 0.25, digits < expected ? 'incomplete_number' : 'number_complete');
+      } else if (digits >= 2) {
+        adjust(-0.2, 'number_sequence');
+      }
+    }
+
+    // Only preamble in reply to a question: the answer is still coming
+    if (agentMessage.endsWith('?') && words.length > 0 && words.every((word) => isPreamble(word))) {
+      adjust(-0.3, 'unanswered_question');
+    }
+
+    // Completion cues only count when nothing suggests the thought is unfinished
+    if (probability >= 0.5) {
+      if (text.endsWith('?')) {
+        adjust(0.3, 'user_question');
+      } else if (/[.!]$/.test(text)) {
+        adjust(0.15, 'terminal_punctuation');
+      }
+      if (SHORT_ANSWERS.has(words.join(' '))) {
+        adjust(0.3, 'short_answer');
+      }
+    }
+
+    return { probability: clamp(probability, 0.05, 0.95), reasons };
+  }
+}
+
+const CLASSIFICATION = z.object({
+  probability: z.number().min(0).max(1),
+  reason: z.string(),
+});
+
+const LLM_INSTRUCTIONS = 'You decide whether a caller on a phone call has finished speaking and expects a reply. '
+  + 'Mid-sentence pauses, trailing words like "and" or "um", and partially given numbers mean they are not done. '
+  + 'Reply with only a JSON object: {"probability": <0-1 that they are done>, "reason": "<a few words>"}';
+
+/**
+ * Asks a small model whether the user is done, through an agents-sdk Agent
+ * whose output is the zod-validated classification
+ */
+export class LLMEndOfTurnScorer implements EndOfTurnScorer {
+  readonly name = 'llm';
+  private agent: Agent<unknown, z.infer<typeof CLASSIFICATION>>;
+  private timeoutMs: number;
+
+  constructor(config: LLMEndOfTurnScorerConfig) {
+    this.agent = new Agent({
+      name: 'EndOfTurn',
+      instructions: config.instructions || LLM_INSTRUCTIONS,
+      model: config.model,
+      outputType: CLASSIFICATION,
+      modelSettings: config.modelSettings ?? { temperature: 0 },
+    });
+    this.timeoutMs = config.timeoutMs ?? 1000;
+  }
+
+  async score(context: EndOfTurnContext): Promise<EndOfTurnScore> {
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => abortController.abort(), this.timeoutMs);
+
+    try {
+      const result = await run(
+        this.agent,
+        context.lastAgentMessage
+          ? `Agent: ${context.lastAgentMessage}\nCaller so far: ${context.transcript}`
+          : `Caller so far: ${context.transcript}`,
+        { maxTurns: 1, signal: abortController.signal }
+      );
+
+      return { probability: result.finalOutput.probability, reasons: [result.finalOutput.reason] };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export class EndOfTurnDetector {
+  private scorer: EndOfTurnScorer;
+  private llm: LLMEndOfTurnScorer | null;
+  private llmRange: [number, number];
+  private baseSilenceMs: number;
+  readonly minSilenceMs: number;
+  readonly maxSilenceMs: number;
+
+  /**
+   * @param baseSilenceMs - silence threshold for a neutral score
+   */
+  constructor(config: EndOfTurnConfig, baseSilenceMs: number) {
+    this.scorer = config.scorer ?? new HeuristicEndOfTurnScorer();
+    this.llm = config.llm ? new LLMEndOfTurnScorer(config.llm) : null;
+    this.llmRange = config.llmRange ?? [0.25, 0.75];
+    this.minSilenceMs = Math.min(config.minSilenceMs ?? 250, baseSilenceMs);
+    this.maxSilenceMs = Math.max(config.maxSilenceMs ?? 2500, baseSilenceMs);
+    this.baseSilenceMs = baseSilenceMs;
+  }
+
+  /**
+   * Update the silence threshold used for a neutral score
+   */
+  setBaseSilence(baseSilenceMs: number): void {
+    this.baseSilenceMs = Math.min(this.maxSilenceMs, Math.max(this.minSilenceMs, baseSilenceMs));
+  }
+
+  /**
+   * Score a transcript and decide how much longer to wait for the user
+   *
+   * @param elapsedSilenceMs - silence already observed since the user stopped speaking
+   */
+  async evaluate(context: EndOfTurnContext, elapsedSilenceMs: number): Promise<EndOfTurnDecision> {
+    const startedAt = Date.now();
+    let score = await this.scorer.score(context);
+    let scorer = this.scorer.name ?? 'custom';
+
+    const [low, high] = this.llmRange;
+    if (this.llm && score.probability >= low && score.probability <= high) {
+      try {
+        score = await this.llm.score(context);
+        scorer = this.llm.name;
+      } catch (error) {
+        score = { ...score, reasons: [...score.reasons, 'llm_unavailable'] };
+      }
+    }
+
+    const silenceMs = this.silenceFor(score.probability);
+
+    return {
+      transcript: context.transcript,
+      probability: score.probability,
+      scorer,
+      reasons: score.reasons,
+      silenceMs,
+      holdMs: Math.max(0, silenceMs - elapsedSilenceMs),
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Map a probability to a silence window: 0.5 keeps the base threshold,
+   * certainty either way moves it linearly to the min or max
+   */
+  silenceFor(probability: number): number {
+    const p = clamp(probability, 0, 1);
+    const silence = p >= 0.5
+      ? this.baseSilenceMs - ((p - 0.5) / 0.5) * (this.baseSilenceMs - this.minSilenceMs)
+      : this.baseSilenceMs + ((0.5 - p) / 0.5) * (this.maxSilenceMs - this.baseSilenceMs);
+    return Math.round(silence);
+  }
+}
+
+/**
+ * Number of digits in the run of numbers the transcript ends with
+ * ("4 5 1 2", "four five one two" or "4512")
+ */
+function trailingDigits(words: string[]): number {
+  let digits = 0;
+  for (let i = words.length - 1; i >= 0; i--) {
+    const word = words[i];
+    if (/^\d+$/.test(word)) {
+      digits += word.length;
+    } else if (DIGIT_WORDS.has(word)) {
+      digits += 1;
+    } else if (word !== 'double' && word !== 'dash') {
+      break;
+    }
+  }
+  return digits;
+}
+
+function isPreamble(word: string): boolean {
+  return FILLERS.has(word) || ['let', 'me', 'see', 'think', 'check', 'hold', 'on', 'so'].includes(word);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
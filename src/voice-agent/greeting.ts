@@ -0,0 +1,88 @@
+/**
+ * Greeting - The agent opens the conversation
+ *
+ * - text: a fixed greeting
+ * - audio: a pre-recorded greeting in the session output format, played
+ *   instead of synthesizing; `text` is its transcript and is required
+ * - instructions: an opener generated by the agent's model from these
+ *   instructions and the caller context; `text` is the fallback when
+ *   generation fails
+ *
+ * Inbound sessions are greeted as soon as the agent starts. Outbound calls
+ * wait for the callee to answer ("Hello?") or for timeoutMs without a word,
+ * then greet. The greeting is recorded as the first assistant message, after
+ * the callee's answer.
+ */
+
+import { generateText, type LanguageModel } from 'ai';
+
+export interface GreetingConfig {
+  text?: string;
+  audio?: Buffer;
+  instructions?: string;
+  /** Who is calling or being called and why (name, account, reason) */
+  context?: string | Record<string, unknown>;
+  /** 'inbound' greets right away; 'outbound' waits for the callee (default: 'inbound') */
+  mode?: 'inbound' | 'outbound';
+  /** Outbound: how long to wait for the callee to say something (default: 3000ms) */
+  timeoutMs?: number;
+}
+
+export interface GenerateGreetingOptions {
+  /** The agent's own instructions, for persona and tone */
+  agentInstructions?: string;
+  /** What the callee said when answering an outbound call */
+  calleeSaid?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Caller context as prompt lines
+ */
+export function describeCallerContext(context: GreetingConfig['context']): string {
+  if (!context) {
+    return '';
+  }
+  if (typeof context === 'string') {
+    return context.trim();
+  }
+  return Object.entries(context)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join('\n');
+}
+
+/**
+ * Generate the opening line with the agent's model
+ */
+export async function generateGreeting(
+  model: LanguageModel,
+  config: GreetingConfig,
+  options: GenerateGreetingOptions = {}
+): Promise<string> {
+  const outbound = config.mode === 'outbound';
+  const context = describeCallerContext(config.context);
+
+  const result = await generateText({
+    model,
+    system: [
+      options.agentInstructions,
+      outbound
+        ? 'You placed this call and the callee has just picked up. Write your opening line.'
+        : 'A caller has just connected. Write your opening line.',
+      'Reply with only the words to say aloud: one or two short sentences, no markdown.',
+      config.instructions,
+    ].filter(Boolean).join('\n\n'),
+    prompt: [
+      context ? `Caller context:\n${context}` : 'No caller context is available.',
+      options.calleeSaid ? `The callee answered: "${options.calleeSaid}"` : '',
+    ].filter(Boolean).join('\n\n'),
+    abortSignal: options.signal,
+  });
+
+  const text = result.text.trim();
+  if (!text) {
+    throw new Error('Greeting model returned no text');
+  }
+  return text;
+}
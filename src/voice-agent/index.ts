@@ -7,5 +7,30 @@
  * - agents-sdk as the LLM layer
  */
 
-export { VoiceAgent, VoiceAgentConfig } from './voice-agent';
+export { VoiceAgent, VoiceAgentConfig, VoiceAgentSessionUpdate } from './voice-agent';
+export type { AudioTranscriptDelta } from './voice-agent';
 export { VoiceAgent as default } from './voice-agent';
+export { TurnDetector } from './turn-detector';
+export type { TurnState, TurnDetectorConfig, TurnBoundary } from './turn-detector';
+export { EndOfTurnDetector, HeuristicEndOfTurnScorer, LLMEndOfTurnScorer } from './end-of-turn';
+export type {
+  EndOfTurnConfig,
+  EndOfTurnContext,
+  EndOfTurnDecision,
+  EndOfTurnScore,
+  EndOfTurnScorer,
+  LLMEndOfTurnScorerConfig,
+} from './end-of-turn';
+export { SynthesisPipeline } from './synthesis-pipeline';
+export type { SynthesisPipelineConfig, SynthesisEvent, SentenceSynthesizer } from './synthesis-pipeline';
+export { TurnTimer, TurnMetricsWindow, percentiles } from './turn-metrics';
+export { ToolFillerScheduler, DEFAULT_FILLER_PHRASES, DEFAULT_PROGRESS_PHRASES } from './tool-fillers';
+export type { ToolFillerConfig, ToolFiller } from './tool-fillers';
+export { SessionPolicies, DEFAULT_REPROMPTS, DEFAULT_GOODBYES } from './session-policies';
+export type { SessionPolicyConfig, SessionPolicyActions, SessionEndReason, SessionEnding } from './session-policies';
+export { endCallTool, transferCallTool, callControlTools, END_CALL_TOOL, TRANSFER_CALL_TOOL } from './call-control';
+export type { CallControlConfig, EndCallToolOptions, TransferCallToolOptions, TransferRequest } from './call-control';
+export { generateGreeting, describeCallerContext } from './greeting';
+export type { GreetingConfig, GenerateGreetingOptions } from './greeting';
+export { AnsweringMachineDetector } from './answering-machine';
+export type { AnsweringMachineConfig, AnsweringMachineResult, AnsweringMachineVerdict } from './answering-machine';
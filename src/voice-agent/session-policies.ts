@@ -0,0 +1,208 @@
+/**
+ * Session Policies - When a call should prompt the user or end on its own
+ *
+ * - idle: after timeoutMs of silence from both sides, the agent reprompts with
+ *   escalating messages; once maxReprompts go unanswered the session ends
+ * - maxDuration: a spoken warning warningBeforeMs before the limit, then the
+ *   session ends at durationMs
+ * - failedTranscriptions: the session ends after this many failed or empty
+ *   transcriptions in a row
+ *
+ * Every ending has a spoken goodbye. The policies only decide; the agent
+ * speaks and ends the session through the actions it passes in.
+ */
+
+export type SessionEndReason =
+  | 'idle_timeout'
+  | 'max_duration'
+  | 'transcription_failures'
+  | 'end_call'
+  | 'transferred'
+  | 'voicemail'
+  | 'requested';
+
+// The reasons these policies end a session for
+type PolicyEndReason = 'idle_timeout' | 'max_duration' | 'transcription_failures';
+
+/**
+ * Payload of 'session.ending'
+ */
+export interface SessionEnding {
+  reason: SessionEndReason;
+  /** The goodbye that was spoken */
+  message?: string;
+}
+
+export interface SessionPolicyConfig {
+  idle?: {
+    /** Silence before each reprompt (default: 8000ms) */
+    timeoutMs?: number;
+    /** Escalating reprompts; the last one repeats */
+    reprompts?: string[];
+    /** Unanswered reprompts before the session ends (default: one per reprompt) */
+    maxReprompts?: number;
+    goodbye?: string;
+  };
+  maxDuration?: {
+    durationMs: number;
+    /** Time before the limit to warn the user (default: 60000ms) */
+    warningBeforeMs?: number;
+    /** false skips the warning */
+    warning?: string | false;
+    goodbye?: string;
+  };
+  failedTranscriptions?: {
+    /** Consecutive failed or empty transcriptions before the session ends */
+    max: number;
+    goodbye?: string;
+  };
+}
+
+export interface SessionPolicyActions {
+  /** Speak a reprompt or warning */
+  say(text: string): void;
+  end(reason: SessionEndReason, goodbye: string): void;
+  /** The agent is responding, speaking or hearing speech: no idle time passes */
+  isBusy(): boolean;
+}
+
+export const DEFAULT_REPROMPTS = ['Are you still there?', "I haven't heard anything. Are you still on the line?"];
+
+export const DEFAULT_GOODBYES: Record<PolicyEndReason, string> = {
+  idle_timeout: "I haven't heard from you, so I'll end the call now. Goodbye!",
+  max_duration: "We've reached the time limit for this call. Thank you, goodbye!",
+  transcription_failures: "I'm sorry, I'm having trouble hearing you. Please try calling again. Goodbye!",
+};
+
+const DEFAULT_WARNING = 'Just so you know, we have about a minute left on this call.';
+
+// How often a busy agent is checked again before idle time starts
+const BUSY_POLL_MS = 250;
+
+export class SessionPolicies {
+  private config: SessionPolicyConfig;
+  private actions: SessionPolicyActions;
+
+  private timers = new Set<NodeJS.Timeout>();
+  private idleTimer: NodeJS.Timeout | null = null;
+  private lastActivityAt = 0;
+  private reprompts = 0;
+  private failedTranscriptions = 0;
+  private stopped = false;
+
+  constructor(config: SessionPolicyConfig, actions: SessionPolicyActions) {
+    this.config = config;
+    this.actions = actions;
+  }
+
+  /**
+   * The call started: start the duration limit and idle timing
+   */
+  start(): void {
+    const maxDuration = this.config.maxDuration;
+    if (maxDuration) {
+      const warningBeforeMs = maxDuration.warningBeforeMs ?? 60000;
+      if (maxDuration.warning !== false && maxDuration.durationMs > warningBeforeMs) {
+        this.after(maxDuration.durationMs - warningBeforeMs, () => this.actions.say(maxDuration.warning || DEFAULT_WARNING));
+      }
+      this.after(maxDuration.durationMs, () => this.end('max_duration', maxDuration.goodbye));
+    }
+    this.userActive();
+  }
+
+  /**
+   * The user spoke or sent input: unanswered reprompts start over
+   */
+  userActive(): void {
+    this.reprompts = 0;
+    this.touch();
+  }
+
+  /**
+   * A transcription succeeded
+   */
+  transcribed(): void {
+    this.failedTranscriptions = 0;
+  }
+
+  /**
+   * A transcription failed or came back empty
+   */
+  transcriptionFailed(): void {
+    const policy = this.config.failedTranscriptions;
+    if (policy && ++this.failedTranscriptions >= policy.max) {
+      this.end('transcription_failures', policy.goodbye);
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.idleTimer = null;
+  }
+
+  /**
+   * Restart idle time from now
+   */
+  private touch(): void {
+    if (!this.config.idle || this.stopped) {
+      return;
+    }
+    this.lastActivityAt = Date.now();
+    this.scheduleIdle(this.config.idle.timeoutMs ?? 8000);
+  }
+
+  private scheduleIdle(ms: number): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.timers.delete(this.idleTimer);
+    }
+    this.idleTimer = this.after(ms, () => this.checkIdle());
+  }
+
+  private checkIdle(): void {
+    const idle = this.config.idle!;
+    const timeoutMs = idle.timeoutMs ?? 8000;
+
+    if (this.actions.isBusy()) {
+      this.lastActivityAt = Date.now();
+      this.scheduleIdle(Math.min(BUSY_POLL_MS, timeoutMs));
+      return;
+    }
+    const remaining = this.lastActivityAt + timeoutMs - Date.now();
+    if (remaining > 0) {
+      this.scheduleIdle(remaining);
+      return;
+    }
+
+    const reprompts = idle.reprompts?.length ? idle.reprompts : DEFAULT_REPROMPTS;
+    if (this.reprompts >= (idle.maxReprompts ?? reprompts.length)) {
+      this.end('idle_timeout', idle.goodbye);
+      return;
+    }
+
+    this.actions.say(reprompts[Math.min(this.reprompts, reprompts.length - 1)]);
+    this.reprompts++;
+    this.touch();
+  }
+
+  private end(reason: PolicyEndReason, goodbye?: string): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stop();
+    this.actions.end(reason, goodbye ?? DEFAULT_GOODBYES[reason]);
+  }
+
+  private after(ms: number, callback: () => void): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, Math.max(0, ms));
+    this.timers.add(timer);
+    return timer;
+  }
+}
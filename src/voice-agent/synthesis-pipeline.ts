@@ -0,0 +1,196 @@
+/**
+ * Synthesis Pipeline - Bounded, ordered sentence-level TTS
+ *
+ * Sentences are enqueued as the LLM completes them. Up to `concurrency`
+ * sentences are synthesized at once (the one being played plus look-ahead),
+ * so TTS for sentence N+1 runs while sentence N streams out and the LLM
+ * stream is never blocked on audio. Output is always emitted in sentence order.
+ */
+
+import { AsyncQueue } from '../utils/async-queue';
+import type { TimedAudioChunk, VisemeTiming, WordTiming } from '../types';
+
+export interface SynthesisPipelineConfig {
+  /** Maximum sentences synthesized at once, including the one being emitted (default: 2) */
+  concurrency?: number;
+  /** Aborts pending and in-flight synthesis */
+  signal?: AbortSignal;
+}
+
+export type SynthesisEvent =
+  | { type: 'sentence.started'; sentence: string }
+  | {
+      type: 'audio';
+      sentence: string;
+      chunk: Buffer;
+      words?: WordTiming[];
+      visemes?: VisemeTiming[];
+      alignment?: TimedAudioChunk['alignment'];
+    }
+  | { type: 'sentence.done'; sentence: string; synthesisMs: number }
+  | { type: 'sentence.failed'; sentence: string; error: any };
+
+/**
+ * Yields audio, optionally with word timings and visemes relative to the start of the sentence
+ */
+export type SentenceSynthesizer = (sentence: string, signal?: AbortSignal) => AsyncIterable<Buffer | TimedAudioChunk>;
+
+interface SentenceJob {
+  sentence: string;
+  synthesize: SentenceSynthesizer;
+  audio: AsyncQueue<TimedAudioChunk>;
+  started: boolean;
+  startedAt: number;
+  finishedAt: number;
+  error?: any;
+}
+
+export class SynthesisPipeline {
+  private synthesize: SentenceSynthesizer;
+  private concurrency: number;
+  private signal?: AbortSignal;
+
+  private jobs: SentenceJob[] = [];
+  private closed = false;
+  private wake: (() => void) | null = null;
+
+  constructor(synthesize: SentenceSynthesizer, config: SynthesisPipelineConfig = {}) {
+    this.synthesize = synthesize;
+    this.concurrency = Math.max(1, config.concurrency ?? 2);
+    this.signal = config.signal;
+
+    this.signal?.addEventListener('abort', () => {
+      // Release the consumer even if a provider ignores the signal
+      for (const job of this.jobs) {
+        job.audio.close();
+      }
+      this.notify();
+    });
+  }
+
+  /**
+   * Queue a sentence for synthesis, optionally with its own synthesizer
+   * (e.g. one that replays cached audio)
+   */
+  enqueue(sentence: string, synthesize: SentenceSynthesizer = this.synthesize): void {
+    if (this.closed || this.signal?.aborted || !sentence.trim()) {
+      return;
+    }
+
+    this.jobs.push({
+      sentence,
+      synthesize,
+      audio: new AsyncQueue<TimedAudioChunk>(),
+      started: false,
+      startedAt: 0,
+      finishedAt: 0,
+    });
+    this.startJobs();
+    this.notify();
+  }
+
+  /**
+   * Signal that no more sentences will be enqueued
+   */
+  close(): void {
+    this.closed = true;
+    this.notify();
+  }
+
+  /**
+   * Number of sentences queued or being emitted
+   */
+  get pending(): number {
+    return this.jobs.length;
+  }
+
+  /**
+   * Ordered output events. Completes once closed and drained, or when aborted.
+   */
+  async *output(): AsyncIterable<SynthesisEvent> {
+    while (!this.signal?.aborted) {
+      const job = this.jobs[0];
+
+      if (!job) {
+        if (this.closed) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+        continue;
+      }
+
+      yield { type: 'sentence.started', sentence: job.sentence };
+
+      for await (const chunk of job.audio) {
+        if (this.signal?.aborted) {
+          return;
+        }
+        yield {
+          type: 'audio',
+          sentence: job.sentence,
+          chunk: chunk.audio,
+          words: chunk.words,
+          visemes: chunk.visemes,
+          alignment: chunk.alignment,
+        };
+      }
+
+      if (this.signal?.aborted) {
+        return;
+      }
+
+      if (job.error) {
+        yield { type: 'sentence.failed', sentence: job.sentence, error: job.error };
+      } else {
+        yield {
+          type: 'sentence.done',
+          sentence: job.sentence,
+          synthesisMs: job.finishedAt - job.startedAt,
+        };
+      }
+
+      // Free the slot and start look-ahead synthesis
+      this.jobs.shift();
+      this.startJobs();
+    }
+  }
+
+  /**
+   * Start synthesis for queued sentences within the concurrency window
+   */
+  private startJobs(): void {
+    for (const job of this.jobs.slice(0, this.concurrency)) {
+      if (!job.started) {
+        this.startJob(job);
+      }
+    }
+  }
+
+  private startJob(job: SentenceJob): void {
+    job.started = true;
+    job.startedAt = Date.now();
+
+    (async () => {
+      try {
+        for await (const chunk of job.synthesize(job.sentence, this.signal)) {
+          job.audio.push(Buffer.isBuffer(chunk) ? { audio: chunk } : chunk);
+        }
+      } catch (error) {
+        job.error = error;
+      } finally {
+        job.finishedAt = Date.now();
+        job.audio.close();
+      }
+    })();
+  }
+
+  private notify(): void {
+    if (this.wake) {
+      const wake = this.wake;
+      this.wake = null;
+      wake();
+    }
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Tool Fillers - Speech that covers dead air while tools run
+ *
+ * A slow tool (CRM lookup, payment) leaves the caller in silence until it
+ * returns and the model resumes. Once a tool has been called and no audio has
+ * played for delayMs, a filler is spoken ("Let me check that for you."): the
+ * tool's own message if it declares one, otherwise one of the default phrases.
+ * Tools that keep running get a progress update after every progressIntervalMs
+ * of silence, up to maxPerResponse fillers.
+ *
+ * Tools declare their message next to the definition:
+ *
+ *   lookup_order: { ...tool({ ... }), filler: 'Let me pull up your order.' }
+ *
+ * `filler: false` keeps a fast tool from ever triggering one.
+ */
+
+import type { CoreMessage } from 'ai';
+
+export interface ToolFillerConfig {
+  enabled?: boolean;
+  /** Silence after a tool call before the first filler (default: 800ms) */
+  delayMs?: number;
+  /** Used in turn when the tool declares no filler */
+  phrases?: string[];
+  /** Silence before each "still working on it" update; false disables them (default: 6000ms) */
+  progressIntervalMs?: number | false;
+  progressPhrases?: string[];
+  /** Most fillers spoken in one response, updates included (default: 3) */
+  maxPerResponse?: number;
+  /** Synthesize the phrases when the agent initializes so they play instantly (default: true) */
+  preSynthesize?: boolean;
+}
+
+/**
+ * Payload of 'response.filler'
+ */
+export interface ToolFiller {
+  text: string;
+  /** The tool that was running */
+  toolName: string;
+  kind: 'filler' | 'progress';
+}
+
+export const DEFAULT_FILLER_PHRASES = ['Let me check that for you.', 'One moment please.', 'Just a second.'];
+
+export const DEFAULT_PROGRESS_PHRASES = ["I'm still working on it.", 'Thanks for waiting, this is taking a moment.'];
+
+/**
+ * Decides when fillers are due for one response. `say` queues a filler for
+ * playback; `silentForMs` reports how long no audio has been playing.
+ */
+export class ToolFillerScheduler {
+  private delayMs: number;
+  private progressIntervalMs: number | false;
+  private maxPerResponse: number;
+  private phrases: string[];
+  private progressPhrases: string[];
+
+  private running: Array<{ toolName: string; filler?: string | false }> = [];
+  private timer: NodeJS.Timeout | null = null;
+  private spoken = 0;
+  private next = 0;
+
+  constructor(
+    config: ToolFillerConfig,
+    private say: (filler: ToolFiller) => void,
+    private silentForMs: () => number,
+    // Shared across responses so consecutive fillers vary
+    rotation = 0
+  ) {
+    this.delayMs = config.delayMs ?? 800;
+    this.progressIntervalMs = config.progressIntervalMs ?? 6000;
+    this.maxPerResponse = config.maxPerResponse ?? 3;
+    this.phrases = config.phrases?.length ? config.phrases : DEFAULT_FILLER_PHRASES;
+    this.progressPhrases = config.progressPhrases?.length ? config.progressPhrases : DEFAULT_PROGRESS_PHRASES;
+    this.next = rotation;
+  }
+
+  /**
+   * Fillers said so far, for rotating phrases in the next response
+   */
+  get rotation(): number {
+    return this.next;
+  }
+
+  /**
+   * A tool was called; `filler` is the message the tool declares
+   */
+  toolCalled(toolName: string, filler?: string | false): void {
+    this.running.push({ toolName, filler });
+    if (!this.timer && filler !== false) {
+      this.schedule(this.delayMs);
+    }
+  }
+
+  /**
+   * A tool returned; fillers stop once no tool is running
+   */
+  toolFinished(toolName: string): void {
+    const index = this.running.findIndex((tool) => tool.toolName === toolName);
+    if (index !== -1) {
+      this.running.splice(index, 1);
+    }
+    if (this.running.length === 0) {
+      this.clear();
+    }
+  }
+
+  /**
+   * The model is talking again, or the response ended
+   */
+  stop(): void {
+    this.running = [];
+    this.clear();
+  }
+
+  private schedule(ms: number): void {
+    this.clear();
+    this.timer = setTimeout(() => this.check(), Math.max(0, ms));
+  }
+
+  private check(): void {
+    this.timer = null;
+    const tool = this.running.find((running) => running.filler !== false);
+    if (!tool || this.spoken >= this.maxPerResponse) {
+      return;
+    }
+
+    const kind = this.spoken === 0 ? 'filler' : 'progress';
+    const quietMs = kind === 'filler' ? this.delayMs : this.progressIntervalMs;
+    if (quietMs === false) {
+      return;
+    }
+
+    // Audio is still playing (the model spoke before the call, or the last filler)
+    const remaining = quietMs - this.silentForMs();
+    if (remaining > 0) {
+      this.schedule(remaining);
+      return;
+    }
+
+    this.spoken++;
+    this.say({
+      text: kind === 'filler' && tool.filler ? tool.filler : this.pick(kind === 'filler' ? this.phrases : this.progressPhrases),
+      toolName: tool.toolName,
+      kind,
+    });
+    if (this.progressIntervalMs !== false) {
+      this.schedule(this.progressIntervalMs);
+    }
+  }
+
+  private pick(phrases: string[]): string {
+    return phrases[this.next++ % phrases.length];
+  }
+
+  private clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Every phrase a configuration can speak, with the fillers tools declare, for pre-synthesis
+ */
+export function fillerPhrases(config: ToolFillerConfig, declared: string[] = []): string[] {
+  const progress = config.progressIntervalMs === false
+    ? []
+    : config.progressPhrases?.length ? config.progressPhrases : DEFAULT_PROGRESS_PHRASES;
+
+  return [...new Set([
+    ...(config.phrases?.length ? config.phrases : DEFAULT_FILLER_PHRASES),
+    ...progress,
+    ...declared,
+  ])];
+}
+
+/**
+ * The runner's messages for a response with the fillers spoken during it: each
+ * filler follows the results of the tool it covered as assistant text, so tool
+ * calls and their results stay adjacent
+ */
+export function withSpokenFillers(messages: CoreMessage[], fillers: ToolFiller[]): CoreMessage[] {
+  const after = new Map<number, string[]>();
+  for (const filler of fillers) {
+    let index = messages.findIndex((message) =>
+      message.role === 'tool' && message.content.some((part) => part.toolName === filler.toolName)
+    );
+    if (index === -1) {
+      index = messages.length - 1;
+    }
+    after.set(index, [...(after.get(index) ?? []), filler.text]);
+  }
+
+  return messages.flatMap((message, index) => {
+    const spoken = after.get(index);
+    return spoken ? [message, { role: 'assistant' as const, content: spoken.join(' ') }] : [message];
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Turn Detector - Silence-based endpointing driven by per-frame VAD decisions
+ *
+ * States:
+ *   idle → speech-pending → speaking → trailing-silence → committed
+ *
+ * - idle:             no speech
+ * - speech-pending:   speech seen, but shorter than speechThresholdMs
+ * - speaking:         user is speaking ('speech_started' emitted)
+ * - trailing-silence: silence after speech, shorter than silenceThresholdMs
+ * - committed:        silence exceeded the threshold ('speech_stopped' + 'committed' emitted)
+ *
+ * Time is measured in audio time (sum of frame durations), so decisions are
+ * deterministic for a given input regardless of how fast audio arrives.
+ */
+
+import { EventEmitter } from 'events';
+
+export type TurnState =
+  | 'idle'
+  | 'speech-pending'
+  | 'speaking'
+  | 'trailing-silence'
+  | 'committed';
+
+export interface TurnDetectorConfig {
+  /** Continuous speech required before a turn starts (ms) */
+  speechThresholdMs?: number;
+  /** Continuous silence required before a turn is committed (ms) */
+  silenceThresholdMs?: number;
+}
+
+export interface TurnBoundary {
+  /** Offset of the start of speech in the input audio (ms) */
+  audioStartMs: number;
+  /** Offset of the end of speech in the input audio (ms) */
+  audioEndMs: number;
+}
+
+export class TurnDetector extends EventEmitter {
+  private speechThresholdMs: number;
+  private silenceThresholdMs: number;
+
+  private state: TurnState = 'idle';
+  private audioMs = 0;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private speechStartMs = 0;
+  private speechEndMs = 0;
+
+  constructor(config: TurnDetectorConfig = {}) {
+    super();
+    this.speechThresholdMs = config.speechThresholdMs ?? 300;
+    this.silenceThresholdMs = config.silenceThresholdMs ?? 700;
+  }
+
+  /**
+   * Feed one VAD decision for a frame of the given duration
+   */
+  process(isSpeech: boolean, frameMs: number): TurnState {
+    // A committed turn is over; start fresh on the next frame
+    if (this.state === 'committed') {
+      this.state = 'idle';
+    }
+
+    const frameStartMs = this.audioMs;
+    this.audioMs += frameMs;
+
+    switch (this.state) {
+      case 'idle':
+        if (isSpeech) {
+          this.speechStartMs = frameStartMs;
+          this.speechMs = frameMs;
+          this.transition('speech-pending');
+          this.checkSpeechStarted();
+        }
+        break;
+
+      case 'speech-pending':
+        if (isSpeech) {
+          this.speechMs += frameMs;
+          this.checkSpeechStarted();
+        } else {
+          this.speechMs = 0;
+          this.transition('idle');
+        }
+        break;
+
+      case 'speaking':
+        if (!isSpeech) {
+          this.speechEndMs = frameStartMs;
+          this.silenceMs = frameMs;
+          this.transition('trailing-silence');
+          this.checkSilenceExceeded();
+        }
+        break;
+
+      case 'trailing-silence':
+        if (isSpeech) {
+          this.silenceMs = 0;
+          this.transition('speaking');
+        } else {
+          this.silenceMs += frameMs;
+          this.checkSilenceExceeded();
+        }
+        break;
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Commit the current turn immediately (e.g. audio stopped arriving).
+   * No-op unless the user is speaking or in trailing silence.
+   */
+  commit(): void {
+    if (this.state === 'speaking') {
+      this.speechEndMs = this.audioMs;
+    }
+    if (this.state === 'speaking' || this.state === 'trailing-silence') {
+      this.completeTurn();
+    }
+  }
+
+  /**
+   * Reset to idle without emitting events
+   */
+  reset(): void {
+    this.state = 'idle';
+    this.speechMs = 0;
+    this.silenceMs = 0;
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): TurnState {
+    return this.state;
+  }
+
+  /**
+   * Check if the user is currently in a turn (speaking or trailing silence)
+   */
+  get isUserSpeaking(): boolean {
+    return this.state === 'speaking' || this.state === 'trailing-silence';
+  }
+
+  /**
+   * Total audio time processed (ms)
+   */
+  get audioTimeMs(): number {
+    return this.audioMs;
+  }
+
+  /**
+   * Update thresholds (e.g. from a session update)
+   */
+  setThresholds(config: TurnDetectorConfig): void {
+    this.speechThresholdMs = config.speechThresholdMs ?? this.speechThresholdMs;
+    this.silenceThresholdMs = config.silenceThresholdMs ?? this.silenceThresholdMs;
+  }
+
+  private checkSpeechStarted(): void {
+    if (this.speechMs >= this.speechThresholdMs) {
+      this.transition('speaking');
+      this.emit('speech_started', { audioStartMs: this.speechStartMs });
+    }
+  }
+
+  private checkSilenceExceeded(): void {
+    if (this.silenceMs >= this.silenceThresholdMs) {
+      this.completeTurn();
+    }
+  }
+
+  private completeTurn(): void {
+    const boundary: TurnBoundary = {
+      audioStartMs: this.speechStartMs,
+      audioEndMs: this.speechEndMs,
+    };
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.transition('committed');
+    this.emit('speech_stopped', { audioEndMs: boundary.audioEndMs });
+    this.emit('committed', boundary);
+  }
+
+  private transition(next: TurnState): void {
+    if (this.state !== next) {
+      const previous = this.state;
+      this.state = next;
+      this.emit('state', next, previous);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Turn Metrics - Per-turn latency timeline and rolling percentiles
+ *
+ * A TurnTimer records when each milestone of a turn happened (end of speech,
+ * final transcript, first LLM token, first sentence, first/last audio byte,
+ * interruption). TurnMetricsWindow keeps the most recent turns and reports
+ * p50/p90/p99 for the derived latencies.
+ */
+
+import type {
+  TurnTimeline,
+  TurnMetrics,
+  TurnMetricsSummary,
+  LatencyPercentiles,
+} from '../types';
+import type { EndOfTurnDecision } from './end-of-turn';
+
+type LatencyKey = Exclude<keyof TurnMetricsSummary, 'count'>;
+
+const LATENCY_KEYS: LatencyKey[] = [
+  'sttLatency',
+  'timeToFirstToken',
+  'timeToFirstSentence',
+  'timeToFirstAudio',
+  'totalLatency',
+];
+
+export class TurnTimer {
+  readonly turnId: number;
+  readonly input: 'audio' | 'text';
+  readonly startedAt: number;
+  private timeline: TurnTimeline = {};
+  private endOfTurn: EndOfTurnDecision[] = [];
+
+  constructor(turnId: number, input: 'audio' | 'text', startedAt: number = Date.now()) {
+    this.turnId = turnId;
+    this.input = input;
+    this.startedAt = startedAt;
+  }
+
+  /**
+   * Record a milestone. The first occurrence wins, except lastAudioByte
+   * which always moves forward.
+   */
+  mark(milestone: keyof TurnTimeline, at: number = Date.now()): void {
+    if (milestone === 'lastAudioByte' || this.timeline[milestone] === undefined) {
+      this.timeline[milestone] = at;
+    }
+  }
+
+  /**
+   * Record the end-of-turn decisions that led to this turn
+   */
+  recordEndOfTurn(decisions: EndOfTurnDecision[]): void {
+    this.endOfTurn.push(...decisions);
+  }
+
+  /**
+   * Build the metrics for this turn
+   */
+  finish(): TurnMetrics {
+    const timeline = { ...this.timeline };
+    const origin = timeline.endOfSpeech ?? this.startedAt;
+    const since = (from: number, to?: number) => (to === undefined ? undefined : to - from);
+
+    return {
+      turnId: this.turnId,
+      input: this.input,
+      startedAt: this.startedAt,
+      timeline,
+      sttLatency: timeline.endOfSpeech !== undefined ? since(origin, timeline.sttFinal) : undefined,
+      timeToFirstToken: since(origin, timeline.firstLlmToken),
+      timeToFirstSentence: since(origin, timeline.firstSentence),
+      timeToFirstAudio: since(origin, timeline.firstTtsByte),
+      totalLatency: since(origin, timeline.lastAudioByte),
+      interrupted: timeline.interruptedAt !== undefined,
+      ...(this.endOfTurn.length > 0 ? { endOfTurn: [...this.endOfTurn] } : {}),
+    };
+  }
+}
+
+export class TurnMetricsWindow {
+  private size: number;
+  private turns: TurnMetrics[] = [];
+
+  constructor(size = 100) {
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * Add a finished turn, dropping the oldest once the window is full
+   */
+  add(turn: TurnMetrics): void {
+    this.turns.push(turn);
+    if (this.turns.length > this.size) {
+      this.turns.shift();
+    }
+  }
+
+  /**
+   * p50/p90/p99 for each latency over the turns in the window
+   */
+  summary(): TurnMetricsSummary {
+    const summary: TurnMetricsSummary = { count: this.turns.length };
+
+    for (const key of LATENCY_KEYS) {
+      const values = this.turns
+        .map((turn) => turn[key])
+        .filter((value): value is number => value !== undefined);
+
+      if (values.length > 0) {
+        summary[key] = percentiles(values);
+      }
+    }
+
+    return summary;
+  }
+
+  clear(): void {
+    this.turns = [];
+  }
+}
+
+/**
+ * Nearest-rank percentiles
+ */
+export function percentiles(values: number[]): LatencyPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+  return {
+    p50: rank(50),
+    p90: rank(90),
+    p99: rank(99),
+  };
+}
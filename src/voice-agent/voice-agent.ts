@@ -20,12 +20,91 @@ import type {
   Tool,
   Message,
   Metrics,
+  STTStreamResult,
+  AudioFormat,
+  TimedAudioChunk,
+  WordTiming,
+  ProviderFailoverEvent,
+  STTProviderName,
+  TTSProviderName,
+  VADProviderName,
 } from '../types';
-import { createSTTProvider } from '../providers/stt';
-import { createTTSProvider } from '../providers/tts';
+import { createSTTProvider, FallbackSTTProvider } from '../providers/stt';
+import { createTTSProvider, FallbackTTSProvider } from '../providers/tts';
 import { createVADProvider } from '../providers/vad';
 import { AudioBuffer } from '../utils/audio-buffer';
+import { AsyncQueue } from '../utils/async-queue';
+import { AudioTranscoder, SessionAudioFormat, normalizeAudioStream, parseAudioFormat } from '../utils/audio-codec';
+import { AudioProcessor, AudioProcessorConfig, AudioQualityReport } from '../utils/audio-processor';
+import { EchoSuppressor, EchoSuppressorConfig, EchoAnalysis } from '../utils/echo-suppressor';
+import { SpeechNormalizer, SpeechNormalizerConfig, TextNormalizer } from '../utils/speech-normalizer';
+import { hasOpenSpeechMarkup } from '../utils/speech-markup';
+import { synthesizeWithTimings, audioDurationMs } from '../utils/word-timing';
+import { PronunciationLexicon, PronunciationEntry } from '../utils/pronunciation-lexicon';
+import { VisemeTrack, visemesForWords } from '../utils/visemes';
+import { TurnDetector, TurnBoundary } from './turn-detector';
+import { EndOfTurnDetector, EndOfTurnConfig, EndOfTurnDecision } from './end-of-turn';
+import { SynthesisPipeline } from './synthesis-pipeline';
+import { ToolFillerScheduler, ToolFillerConfig, ToolFiller, fillerPhrases, withSpokenFillers } from './tool-fillers';
+import { SessionPolicies, SessionPolicyConfig, SessionEndReason, SessionEnding } from './session-policies';
+import { GreetingConfig, generateGreeting } from './greeting';
+import { AnsweringMachineDetector, AnsweringMachineConfig, AnsweringMachineResult } from './answering-machine';
+import { CallControlConfig, TransferRequest, END_CALL_TOOL, TRANSFER_CALL_TOOL, callControlTools } from './call-control';
+import { TurnTimer, TurnMetricsWindow } from './turn-metrics';
 import { Logger } from '../utils/logger';
+import { sleep, type CircuitBreakerOptions } from '../utils/retry';
+
+/**
+ * Input audio format (PCM16 mono) expected by STT and VAD
+ */
+const INPUT_SAMPLE_RATE = 16000;
+
+/**
+ * Assumed TTS output for providers that do not declare an outputFormat
+ */
+const DEFAULT_TTS_FORMAT: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
+/**
+ * VAD frame size for turn detection
+ */
+const VAD_FRAME_MS = 20;
+
+/**
+ * Name used in logs and failover events for a provider instance passed in config
+ */
+function providerName(provider: object): string {
+  return provider.constructor?.name || 'custom';
+}
+
+/**
+ * Audio kept before detected speech
+ */
+const PREFIX_PADDING_MS = 300;
+
+/**
+ * How often a deferred reprompt or warning checks whether the agent is free
+ */
+const IDLE_POLL_MS = 250;
+
+/**
+ * A user turn that passed (or is waiting on) the end-of-turn check
+ */
+interface UserTurn {
+  transcript: string;
+  decisions: EndOfTurnDecision[];
+  /** Wall-clock end of the user's speech; 0 when unknown */
+  endOfSpeech: number;
+}
+
+/**
+ * Payload of 'response.audio_transcript.delta': words as they are spoken,
+ * timed from the start of the response audio
+ */
+export interface AudioTranscriptDelta {
+  delta: string;
+  words: WordTiming[];
+  alignment: 'native' | 'estimated';
+}
 
 /**
  * Voice Agent Configuration
@@ -43,13 +122,24 @@ export interface VoiceAgentConfig {
     mediasoup?: any;
   };
   
-  // STT Provider
+  // STT Provider: a registered provider name or a constructed instance
   stt: {
-    provider: 'deepgram' | 'assemblyai' | 'openai';
-    apiKey: string;
+    provider: STTProviderName | STTProvider;
+    apiKey?: string;
     model?: string;
     language?: string;
     streaming?: boolean;
+    interimResults?: boolean;
+    config?: Record<string, any>; // Provider-specific options, validated by its schema
+    // Providers tried in order when the primary fails
+    fallbacks?: Array<{
+      provider: STTProviderName | STTProvider;
+      apiKey?: string;
+      model?: string;
+      language?: string;
+      config?: Record<string, any>;
+    }>;
+    circuitBreaker?: CircuitBreakerOptions;
   };
   
   // Agent (LLM) - This IS agents-sdk
@@ -58,6 +148,8 @@ export interface VoiceAgentConfig {
     name?: string;
     instructions: string | ((context: any) => string);
     tools?: Record<string, any>;
+    // Built-in end_call and transfer_call tools (opt-in)
+    callControl?: CallControlConfig;
     handoffs?: Agent[];
     guardrails?: any[];
     session?: Session;
@@ -68,22 +160,68 @@ export interface VoiceAgentConfig {
     };
   };
   
-  // TTS Provider
+  // TTS Provider: a registered provider name or a constructed instance
   tts: {
-    provider: 'elevenlabs' | 'cartesia' | 'openai' | 'deepgram' | 'azure';
-    apiKey: string;
+    provider: TTSProviderName | TTSProvider;
+    apiKey?: string;
     voiceId?: string;
     model?: string;
     streaming?: boolean;
+    concurrency?: number; // Sentences synthesized ahead of playback (default: 2)
+    // Rewrites each sentence for speech (default: SpeechNormalizer in the STT language); false disables it
+    normalization?: SpeechNormalizerConfig | TextNormalizer | false;
+    // Pronunciations applied before normalization: entries, a lexicon or the path of a JSON lexicon file
+    lexicon?: PronunciationEntry[] | PronunciationLexicon | string;
+    // Word timings for response.audio_transcript.delta (default: 'native' where the provider has them, else estimated)
+    wordTimings?: 'native' | 'estimated' | false;
+    // Emit response.viseme.delta for lip sync: native visemes where the provider has them, else from word timings
+    visemes?: boolean;
+    config?: Record<string, any>; // Provider-specific options, validated by its schema
+    // Providers tried in order when the primary fails; a reply resumes from the failed sentence
+    fallbacks?: Array<{
+      provider: TTSProviderName | TTSProvider;
+      apiKey?: string;
+      voiceId?: string;
+      model?: string;
+      config?: Record<string, any>;
+    }>;
+    circuitBreaker?: CircuitBreakerOptions;
+  };
+  
+  // Client audio formats (default: pcm16 at 16kHz); transcoded at the edges
+  audio?: {
+    inputFormat?: SessionAudioFormat;
+    outputFormat?: SessionAudioFormat;
+    // Input conditioning before VAD and STT (default: DC removal + AGC); false disables it
+    processing?: AudioProcessorConfig | false;
+    // Suppress the agent's own output coming back on the input (default: enabled); false disables it
+    echoSuppression?: EchoSuppressorConfig | false;
   };
   
   // VAD (optional)
   vad?: {
     enabled: boolean;
+    provider?: VADProviderName | VADProvider; // Default: 'spectral'
     silenceThresholdMs?: number;
     speechThresholdMs?: number;
     sensitivity?: number;
+    config?: Record<string, any>;
   };
+
+  // Semantic end-of-turn detection on top of silence endpointing (optional)
+  endOfTurn?: EndOfTurnConfig;
+
+  // Filler speech while slow tools run (optional)
+  toolFillers?: ToolFillerConfig;
+
+  // Idle reprompts, maximum call duration and failed-transcription limits (optional)
+  policies?: SessionPolicyConfig;
+
+  // The agent speaks first: fixed, pre-recorded or generated greeting (optional)
+  greeting?: GreetingConfig;
+
+  // Outbound calls: tell a person from a voicemail greeting, optionally leave a message (optional)
+  answeringMachine?: AnsweringMachineConfig;
   
   // Other options
   interruption?: {
@@ -93,7 +231,26 @@ export interface VoiceAgentConfig {
   logging?: {
     level?: 'debug' | 'info' | 'warn' | 'error';
     enableMetrics?: boolean;
+    metricsWindowSize?: number; // Turns kept for latency percentiles (default: 100)
+  };
+}
+
+/**
+ * Live session changes applied between turns (e.g. from a realtime session.update)
+ */
+export interface VoiceAgentSessionUpdate {
+  instructions?: string;
+  modelSettings?: VoiceAgentConfig['agent']['modelSettings'];
+  vad?: {
+    silenceThresholdMs?: number;
+    speechThresholdMs?: number;
   };
+  audio?: {
+    inputFormat?: SessionAudioFormat;
+    outputFormat?: SessionAudioFormat;
+  };
+  /** Session pronunciations layered over the configured lexicon; replaces earlier session entries */
+  pronunciations?: PronunciationEntry[];
 }
 
 export class VoiceAgent extends EventEmitter {
@@ -104,17 +261,53 @@ export class VoiceAgent extends EventEmitter {
   private sttProvider: STTProvider;
   private agent: Agent; // This IS the LLM layer
   private ttsProvider: TTSProvider;
+  private speechNormalizer: TextNormalizer | null = null;
+  private baseLexicon = new PronunciationLexicon();
+  private lexicon = this.baseLexicon;
   private vadProvider: VADProvider | null = null;
+  private turnDetector: TurnDetector | null = null;
+  private endOfTurn: EndOfTurnDetector | null = null;
 
   // State management
   private audioInputBuffer: AudioBuffer;
+  private inputTranscoder!: AudioTranscoder;
+  private audioProcessor: AudioProcessor | null = null;
+  private echoSuppressor: EchoSuppressor | null = null;
+  private referenceTranscoder!: AudioTranscoder;
+  private echoDetected = false;
   private session?: Session;
   
   private isProcessing = false;
-  private isInterrupted = false;
-  private currentAudioStream: AsyncIterable<Buffer> | null = null;
   private processingTimeout: NodeJS.Timeout | null = null;
   private processingLock = false; // Prevent concurrent processing
+  private responseAbortController: AbortController | null = null;
+
+  // Tool fillers: synthesized phrases by text, and when emitted audio finishes playing
+  private fillerAudio = new Map<string, Array<Buffer | TimedAudioChunk>>();
+  private fillerRotation = 0;
+  private playbackEndsAt = 0;
+
+  // Session policies; once ending, new input is ignored
+  private policies: SessionPolicies | null = null;
+  private ending = false;
+
+  // Greeting: 'waiting' for an outbound callee to answer, then 'greeting' until it is spoken
+  private greetingState: 'waiting' | 'greeting' | null = null;
+  private greetingTimer: NodeJS.Timeout | null = null;
+
+  // Answering machine detection: transcripts are held while 'detecting' and ignored on a 'machine'
+  private amd: AnsweringMachineDetector | null = null;
+  private amdState: 'detecting' | 'machine' | null = null;
+  private amdTranscript = '';
+
+  // Streaming STT state
+  private liveAudioStream: AsyncQueue<Buffer> | null = null;
+  private lastLiveAudioAt = 0;
+  private pendingTranscript = '';
+
+  // End-of-turn state: a transcript held while the user may still continue
+  private heldTurn: { turn: UserTurn; timer: NodeJS.Timeout } | null = null;
+  private lastAgentMessage = '';
 
   // Metrics
   private metrics: Metrics = {
@@ -124,60 +317,199 @@ export class VoiceAgent extends EventEmitter {
     ttsLatency: 0,
     turns: 0,
   };
+  private turnMetrics: TurnMetricsWindow;
+  private turnSequence = 0;
+  private lastSpeechEndedAt = 0;
 
   constructor(config: VoiceAgentConfig) {
     super();
     this.config = config;
     this.logger = new Logger(config.logging?.level || 'info', '[VoiceAgent]');
 
-    // Initialize STT Provider
-    this.sttProvider = createSTTProvider({
-      provider: config.stt.provider,
-      apiKey: config.stt.apiKey,
-      model: config.stt.model,
-      language: config.stt.language,
-      streaming: config.stt.streaming,
-    } as any);
+    // Initialize STT Provider, wrapped in a fallback chain when fallbacks are configured
+    const sttProviders = [config.stt, ...(config.stt.fallbacks || [])].map(({ provider, ...stt }) =>
+      typeof provider === 'string'
+        ? {
+          name: provider,
+          provider: createSTTProvider({
+            provider,
+            apiKey: stt.apiKey,
+            model: stt.model,
+            language: stt.language ?? config.stt.language,
+            interimResults: config.stt.interimResults ?? config.stt.streaming,
+            config: stt.config,
+          }),
+        }
+        : { name: providerName(provider), provider }
+    );
+    this.sttProvider = sttProviders.length > 1
+      ? this.forwardFailover(new FallbackSTTProvider(sttProviders, { circuitBreaker: config.stt.circuitBreaker }))
+      : sttProviders[0].provider;
 
     // Initialize Agent (agents-sdk IS the LLM layer)
     this.agent = new Agent({
       name: config.agent.name || 'VoiceAssistant',
       model: config.agent.model,
       instructions: config.agent.instructions,
-      tools: config.agent.tools,
+      tools: { ...config.agent.tools, ...callControlTools(config.agent.callControl) },
       handoffs: config.agent.handoffs,
       guardrails: config.agent.guardrails,
       modelSettings: config.agent.modelSettings,
     });
 
-    // Initialize TTS Provider
-    this.ttsProvider = createTTSProvider({
-      provider: config.tts.provider,
-      apiKey: config.tts.apiKey,
-      voiceId: config.tts.voiceId,
-      model: config.tts.model,
-      streaming: config.tts.streaming,
-    } as any);
+    // Initialize TTS Provider, wrapped in a fallback chain when fallbacks are configured
+    const ttsProviders = [config.tts, ...(config.tts.fallbacks || [])].map(({ provider, ...tts }) =>
+      typeof provider === 'string'
+        ? {
+          name: provider,
+          provider: createTTSProvider({
+            provider,
+            apiKey: tts.apiKey,
+            voiceId: tts.voiceId,
+            model: tts.model,
+            config: tts.config,
+          }),
+        }
+        : { name: providerName(provider), provider }
+    );
+    this.ttsProvider = ttsProviders.length > 1
+      ? this.forwardFailover(new FallbackTTSProvider(ttsProviders, { circuitBreaker: config.tts.circuitBreaker }))
+      : ttsProviders[0].provider;
+
+    // Spoken form of each sentence; displayed text is never normalized
+    const normalization = config.tts.normalization;
+    if (normalization !== false) {
+      this.speechNormalizer = normalization && 'normalize' in normalization
+        ? normalization
+        : new SpeechNormalizer({ locale: config.stt.language, ...normalization });
+    }
+
+    const lexicon = config.tts.lexicon;
+    if (lexicon instanceof PronunciationLexicon) {
+      this.baseLexicon = this.lexicon = lexicon;
+    } else if (Array.isArray(lexicon)) {
+      this.baseLexicon = this.lexicon = new PronunciationLexicon(lexicon);
+    }
 
-    // Initialize VAD if enabled
+    if (config.policies) {
+      this.policies = new SessionPolicies(config.policies, {
+        say: (text) => this.sayWhenIdle(text),
+        end: (reason, goodbye) => void this.endSession(reason, goodbye),
+        isBusy: () => this.isProcessing
+          || this.responseAbortController !== null
+          || this.heldTurn !== null
+          || this.greetingState !== null
+          || this.amdState !== null
+          || Boolean(this.turnDetector?.isUserSpeaking)
+          || Date.now() < this.playbackEndsAt,
+      });
+    }
+
+    // Semantic end-of-turn: the silence threshold becomes the window for a neutral score;
+    // the LLM scorer runs on the agent's model unless it names its own
+    if (config.endOfTurn && config.endOfTurn.enabled !== false) {
+      const llm = config.endOfTurn.llm;
+      this.endOfTurn = new EndOfTurnDetector(
+        llm ? { ...config.endOfTurn, llm: { ...llm, model: llm.model ?? config.agent.model } } : config.endOfTurn,
+        config.vad?.silenceThresholdMs || 700
+      );
+    }
+
+    // Initialize VAD and turn detection if enabled
     if (config.vad?.enabled !== false) {
-      this.vadProvider = createVADProvider({
-        enabled: true,
-        silenceThresholdMs: config.vad?.silenceThresholdMs || 700,
+      const vadProvider = config.vad?.provider;
+      this.vadProvider = vadProvider !== undefined && typeof vadProvider !== 'string'
+        ? vadProvider
+        : createVADProvider({
+          provider: vadProvider,
+          enabled: true,
+          silenceThresholdMs: config.vad?.silenceThresholdMs || 700,
+          speechThresholdMs: config.vad?.speechThresholdMs || 300,
+          sensitivity: config.vad?.sensitivity,
+          config: config.vad?.config,
+        });
+      // With semantic end-of-turn, turns commit at the shortest window and are held as needed
+      this.turnDetector = new TurnDetector({
+        silenceThresholdMs: this.endOfTurn?.minSilenceMs ?? (config.vad?.silenceThresholdMs || 700),
         speechThresholdMs: config.vad?.speechThresholdMs || 300,
       });
+      this.setupTurnDetection(this.turnDetector);
     }
 
     // Initialize audio buffer
     this.audioInputBuffer = new AudioBuffer();
+    this.setAudioFormats(config.audio || {});
+    if (config.audio?.echoSuppression !== false) {
+      this.echoSuppressor = new EchoSuppressor({ ...config.audio?.echoSuppression, sampleRate: INPUT_SAMPLE_RATE });
+    }
+    if (config.audio?.processing !== false) {
+      this.audioProcessor = new AudioProcessor({ ...config.audio?.processing, sampleRate: INPUT_SAMPLE_RATE });
+      this.audioProcessor.on('report', (report: AudioQualityReport) => this.emit('audio.input.quality', report));
+    }
+    this.turnMetrics = new TurnMetricsWindow(config.logging?.metricsWindowSize);
 
     // Initialize session if provided
     this.session = config.agent.session;
 
     this.logger.info('Voice Agent initialized', {
-      stt: config.stt.provider,
+      stt: sttProviders.map((entry) => entry.name).join(' → '),
       agent: config.agent.name,
-      tts: config.tts.provider,
+      tts: ttsProviders.map((entry) => entry.name).join(' → '),
+    });
+  }
+
+  /**
+   * Re-emit provider.failover from a fallback chain
+   */
+  private forwardFailover<T extends EventEmitter>(provider: T): T {
+    provider.on('provider.failover', (event: ProviderFailoverEvent) => {
+      this.logger.warn(`${event.kind.toUpperCase()} failover: ${event.from} → ${event.to} (${event.reason})`);
+      this.emit('provider.failover', event);
+    });
+    return provider;
+  }
+
+  /**
+   * Forward turn detector decisions as events and commit turns for processing
+   */
+  private setupTurnDetection(turnDetector: TurnDetector): void {
+    turnDetector.on('speech_started', (event: { audioStartMs: number }) => {
+      this.emit('audio.input.buffer.speech_started', event);
+      this.deferHeldTurn();
+      this.policies?.userActive();
+      // The callee is answering: greet once their words are transcribed
+      if (this.greetingState === 'waiting' && !this.amdState) {
+        this.clearGreetingTimer();
+      }
+
+      // Barge-in: the user started talking over the agent
+      if (this.config.interruption?.enabled && this.responseAbortController) {
+        void this.interrupt();
+      }
+    });
+
+    turnDetector.on('speech_stopped', (event: { audioEndMs: number }) => {
+      // Speech ended before the trailing silence that confirmed it; convert to wall clock
+      this.lastSpeechEndedAt = Date.now() - (turnDetector.audioTimeMs - event.audioEndMs);
+      this.emit('audio.input.buffer.speech_stopped', event);
+      // Greet anyway if the answer is never transcribed
+      if (this.greetingState === 'waiting' && !this.amdState) {
+        this.scheduleGreeting(this.config.greeting?.timeoutMs ?? 3000);
+      }
+    });
+
+    turnDetector.on('committed', (boundary: TurnBoundary) => {
+      if (this.processingTimeout) {
+        clearTimeout(this.processingTimeout);
+        this.processingTimeout = null;
+      }
+
+      this.emit('audio.input.buffer.committed', boundary);
+
+      // Streaming STT does its own endpointing and starts the turn on the final transcript
+      if (!this.config.stt.streaming) {
+        void this.processBufferedAudio();
+      }
     });
   }
 
@@ -186,9 +518,30 @@ export class VoiceAgent extends EventEmitter {
    */
   async initialize(): Promise<void> {
     try {
+      if (typeof this.config.tts.lexicon === 'string') {
+        this.baseLexicon = this.lexicon = await PronunciationLexicon.load(this.config.tts.lexicon);
+        this.logger.info(`Loaded ${this.lexicon.size} pronunciations`);
+      }
       if (this.vadProvider) {
         await this.vadProvider.start();
       }
+      const fillers = this.config.toolFillers;
+      if (fillers && fillers.enabled !== false && fillers.preSynthesize !== false) {
+        void this.prepareFillers(fillers);
+      }
+      this.policies?.start();
+      const amd = this.config.answeringMachine;
+      if (amd && amd.enabled !== false) {
+        this.startAnsweringMachineDetection(amd);
+      }
+      if (this.config.greeting) {
+        // Outbound calls wait for the callee (and the machine detection); inbound greets once setup is done
+        const outbound = this.config.greeting.mode === 'outbound';
+        this.greetingState = outbound ? 'waiting' : 'greeting';
+        if (!outbound || !this.amdState) {
+          this.scheduleGreeting(outbound ? this.config.greeting.timeoutMs ?? 3000 : 0);
+        }
+      }
       this.logger.info('Voice Agent ready');
       this.emit('ready');
     } catch (error) {
@@ -209,26 +562,65 @@ export class VoiceAgent extends EventEmitter {
    * - 'response.text.delta' (streaming text from LLM)
    * - 'response.text' (full text from LLM)
    * - 'audio.chunk' (audio chunks from TTS)
+   * - 'response.audio_transcript.delta' (spoken words with timings)
+   * - 'response.filler' (filler speech while a tool runs)
    * - 'tool.call' (when tools are called)
+   * - 'session.transfer_requested' (the agent called transfer_call)
    * - 'processing.stopped'
    * 
    * Note: Uses debouncing to wait for complete audio input before processing.
    * This prevents fragmenting a single user utterance into multiple transcriptions.
+   * 
+   * With `stt.streaming` enabled, audio is forwarded to the STT provider's live
+   * stream instead, and 'transcription.delta' / 'transcription.done' are emitted.
    */
   async processAudio(audioData: Buffer): Promise<void> {
+    if (this.ending) {
+      return;
+    }
+
     try {
-      // Add to buffer
-      this.audioInputBuffer.write(audioData);
+      // Decode the client format to what STT and VAD expect
+      audioData = this.inputTranscoder.transcode(audioData);
+      if (audioData.length === 0) {
+        return;
+      }
 
-      // Check VAD if enabled
-      if (this.vadProvider) {
-        const hasVoice = await this.vadProvider.detect(audioData);
-        if (!hasVoice) {
-          return;
-        }
+      // Echo is attenuated before AGC so the gain does not adapt to the agent's own voice
+      let gated = false;
+      if (this.echoSuppressor) {
+        const echo = this.echoSuppressor.process(audioData);
+        audioData = echo.audio;
+        gated = echo.gated;
+        this.trackEcho(echo);
+      }
+      if (this.audioProcessor) {
+        audioData = this.audioProcessor.process(audioData);
+      }
+
+      if (this.config.stt.streaming) {
+        // Echo must not reach the live transcript; silence keeps the stream's timing for its endpointing
+        this.processStreamingAudio(gated ? Buffer.alloc(audioData.length) : audioData);
+      } else if (!gated || this.vadProvider) {
+        this.audioInputBuffer.write(audioData);
       }
 
-      // Clear existing timeout
+      // Turn detection: per-frame VAD decisions drive the turn state machine
+      if (this.vadProvider && this.turnDetector) {
+        await this.detectTurn(audioData, this.vadProvider, this.turnDetector, gated);
+        return;
+      }
+
+      // Without VAD, echo must not extend or start the debounce
+      if (gated) {
+        return;
+      }
+
+      if (this.config.stt.streaming) {
+        return;
+      }
+
+      // Without VAD, fall back to debouncing: wait for silence (no new chunks) before processing
       if (this.processingTimeout) {
         clearTimeout(this.processingTimeout);
         this.processingTimeout = null;
@@ -239,11 +631,9 @@ export class VoiceAgent extends EventEmitter {
         return;
       }
 
-      // Debounce: Wait for silence (no new chunks) before processing
-      // This ensures we get the COMPLETE audio before transcribing
       this.processingTimeout = setTimeout(async () => {
         await this.processBufferedAudio();
-      }, 500); // 500ms silence threshold
+      }, this.config.vad?.silenceThresholdMs || 500);
 
     } catch (error) {
       this.logger.error('Error processing audio', error);
@@ -251,6 +641,60 @@ export class VoiceAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Emit 'audio.input.echo' when echo starts or stops being detected
+   */
+  private trackEcho(echo: EchoAnalysis): void {
+    if (echo.echo === this.echoDetected) {
+      return;
+    }
+
+    this.echoDetected = echo.echo;
+    this.logger.debug(echo.echo ? `Echo detected (delay ${echo.delayMs}ms)` : 'Echo cleared');
+    this.emit('audio.input.echo', { detected: echo.echo, delayMs: echo.delayMs, correlation: echo.correlation });
+  }
+
+  /**
+   * Run VAD on fixed-size frames and feed the decisions to the turn detector
+   *
+   * @param gated - the audio is echo (or too quiet to barge in) and must not count as speech
+   */
+  private async detectTurn(
+    audioData: Buffer,
+    vadProvider: VADProvider,
+    turnDetector: TurnDetector,
+    gated: boolean = false
+  ): Promise<void> {
+    const frameBytes = (INPUT_SAMPLE_RATE / 1000) * VAD_FRAME_MS * 2;
+
+    for (let offset = 0; offset + 1 < audioData.length; offset += frameBytes) {
+      const frame = audioData.subarray(offset, Math.min(offset + frameBytes, audioData.length));
+      const frameMs = (frame.length / 2 / INPUT_SAMPLE_RATE) * 1000;
+      const isSpeech = await vadProvider.detect(frame);
+      turnDetector.process(isSpeech && !gated, frameMs);
+      if (this.amdState) {
+        this.amd?.process(frame, isSpeech && !gated);
+      }
+    }
+
+    // Keep a little audio before speech starts so the first syllable is not clipped
+    if (turnDetector.getState() === 'idle' && !this.config.stt.streaming) {
+      this.audioInputBuffer.trimToDuration(PREFIX_PADDING_MS);
+    }
+
+    // If audio stops arriving mid-turn, commit after the silence threshold
+    if (this.processingTimeout) {
+      clearTimeout(this.processingTimeout);
+      this.processingTimeout = null;
+    }
+    if (turnDetector.isUserSpeaking) {
+      this.processingTimeout = setTimeout(() => {
+        this.processingTimeout = null;
+        turnDetector.commit();
+      }, this.config.vad?.silenceThresholdMs || 700);
+    }
+  }
+
   /**
    * Internal method to process buffered audio
    */
@@ -263,6 +707,7 @@ export class VoiceAgent extends EventEmitter {
 
       // Check if we have enough audio (e.g., 0.5 seconds minimum)
       if (!this.audioInputBuffer.hasEnoughData(500)) {
+        this.expireHeldTurn();
         return;
       }
 
@@ -275,8 +720,9 @@ export class VoiceAgent extends EventEmitter {
       this.processingLock = true;
 
       this.isProcessing = true;
-      this.isInterrupted = false;
       const startTime = Date.now();
+      const endOfSpeech = this.lastSpeechEndedAt;
+      this.lastSpeechEndedAt = 0;
 
       this.emit('processing.started');
 
@@ -285,35 +731,61 @@ export class VoiceAgent extends EventEmitter {
 
       // Step 1: STT - Transcribe audio
       const sttStart = Date.now();
-      const transcript = await this.sttProvider.transcribe(audio);
-      this.metrics.sttLatency = Date.now() - sttStart;
+      let transcript: string;
+      try {
+        transcript = await this.sttProvider.transcribe(audio);
+      } catch (error) {
+        this.emit('transcription.failed', error);
+        this.policies?.transcriptionFailed();
+        throw error;
+      }
+      const sttFinal = Date.now();
+      this.metrics.sttLatency = sttFinal - sttStart;
+
+      if ((this.amdState || this.greetingState === 'waiting') && transcript?.trim()) {
+        this.isProcessing = false;
+        this.processingLock = false;
+        this.emit('processing.stopped');
+        if (this.amdState) {
+          this.hearDuringDetection(transcript.trim());
+        } else {
+          this.answerCallee(transcript.trim());
+        }
+        return;
+      }
+
+      // Empty transcripts are not scored; a held turn is then answered as it was
+      const userTurn = transcript && transcript.trim().length > 0
+        ? await this.checkEndOfTurn(transcript, endOfSpeech)
+        : null;
 
-      if (!transcript || transcript.trim().length === 0) {
+      if (!userTurn) {
         this.isProcessing = false;
         this.processingLock = false; // Release lock
         this.emit('processing.stopped');
+        if (!transcript?.trim()) {
+          this.expireHeldTurn();
+          // Speech was committed but nothing was understood
+          this.policies?.transcriptionFailed();
+        }
         return;
       }
 
-      this.logger.info('Transcription:', transcript);
-      this.emit('transcription', transcript);
+      const turn = this.startTurn('audio', userTurn, startTime);
+      turn.mark('sttFinal', sttFinal);
+
+      this.logger.info('Transcription:', userTurn.transcript);
+      this.emit('transcription', userTurn.transcript);
 
       // Cancel ongoing response if interruption is enabled
-      if (this.config.interruption?.enabled && this.currentAudioStream) {
+      if (this.config.interruption?.enabled && this.responseAbortController) {
         await this.interrupt();
       }
 
       // Step 2: Run Agent (agents-sdk handles LLM, tools, handoffs, guardrails)
-      await this.runAgentWithSpeech(transcript);
+      await this.runAgentWithSpeech(userTurn.transcript, turn);
 
-      // Update metrics
-      this.metrics.totalLatency = Date.now() - startTime;
-      this.metrics.turns++;
-
-      if (this.config.logging?.enableMetrics) {
-        this.emit('metrics', this.metrics);
-        this.logger.info('Metrics:', this.metrics);
-      }
+      this.completeTurn(turn, startTime);
 
       this.isProcessing = false;
       this.processingLock = false; // Release lock
@@ -327,6 +799,242 @@ export class VoiceAgent extends EventEmitter {
     }
   }
 
+  /**
+   * Semantic end-of-turn check. Joins a held transcript with the new one and
+   * decides whether to answer now; returns null when the turn is held for more speech.
+   */
+  private async checkEndOfTurn(transcript: string, endOfSpeech: number): Promise<UserTurn | null> {
+    const held = this.releaseHeldTurn();
+    const userTurn: UserTurn = {
+      transcript: held ? joinTranscript(held.transcript, transcript) : transcript,
+      decisions: held ? held.decisions : [],
+      endOfSpeech: endOfSpeech || held?.endOfSpeech || 0,
+    };
+
+    if (!this.endOfTurn) {
+      return userTurn;
+    }
+
+    // Without VAD the speech end is unknown; assume the provider waited the base window
+    const elapsedSilenceMs = userTurn.endOfSpeech
+      ? Date.now() - userTurn.endOfSpeech
+      : this.config.vad?.silenceThresholdMs || 700;
+
+    try {
+      const decision = await this.endOfTurn.evaluate(
+        { transcript: userTurn.transcript, lastAgentMessage: this.lastAgentMessage || undefined },
+        elapsedSilenceMs
+      );
+      userTurn.decisions.push(decision);
+      this.logger.debug(
+        `End of turn p=${decision.probability.toFixed(2)} via ${decision.scorer}`
+          + ` [${decision.reasons.join(', ')}], holding ${decision.holdMs}ms`
+      );
+
+      if (decision.holdMs > 0) {
+        this.heldTurn = { turn: userTurn, timer: setTimeout(() => this.onHeldTurnExpired(), decision.holdMs) };
+        return null;
+      }
+    } catch (error) {
+      this.logger.error('End-of-turn scoring failed', error);
+    }
+
+    return userTurn;
+  }
+
+  /**
+   * The user resumed speaking: wait for their next transcript instead of answering
+   */
+  private deferHeldTurn(): void {
+    if (this.heldTurn && this.endOfTurn) {
+      clearTimeout(this.heldTurn.timer);
+      this.heldTurn.timer = setTimeout(() => this.onHeldTurnExpired(), this.endOfTurn.maxSilenceMs);
+    }
+  }
+
+  /**
+   * Answer a held turn right away (the resumed speech produced no words)
+   */
+  private expireHeldTurn(): void {
+    if (this.heldTurn) {
+      clearTimeout(this.heldTurn.timer);
+      this.heldTurn.timer = setTimeout(() => this.onHeldTurnExpired(), 0);
+    }
+  }
+
+  private releaseHeldTurn(): UserTurn | null {
+    if (!this.heldTurn) {
+      return null;
+    }
+
+    clearTimeout(this.heldTurn.timer);
+    const { turn } = this.heldTurn;
+    this.heldTurn = null;
+    return turn;
+  }
+
+  private onHeldTurnExpired(): void {
+    // A turn in progress picks up the held transcript itself
+    if (this.turnDetector?.isUserSpeaking || this.isProcessing) {
+      this.deferHeldTurn();
+      return;
+    }
+
+    const userTurn = this.releaseHeldTurn();
+    if (userTurn) {
+      void this.processFinalTranscript(userTurn.transcript, userTurn);
+    }
+  }
+
+  /**
+   * Forward audio to the live STT stream, opening it on first use
+   */
+  private processStreamingAudio(audioData: Buffer): void {
+    if (!this.liveAudioStream) {
+      this.liveAudioStream = this.startStreamingTranscription();
+    }
+    this.lastLiveAudioAt = Date.now();
+    this.liveAudioStream.push(audioData);
+  }
+
+  /**
+   * Open a live STT stream and consume its results in the background
+   */
+  private startStreamingTranscription(): AsyncQueue<Buffer> {
+    const audioStream = new AsyncQueue<Buffer>();
+
+    this.consumeTranscriptionStream(audioStream)
+      .catch((error) => {
+        this.logger.error('Streaming transcription failed', error);
+        this.emit('transcription.failed', error);
+        this.policies?.transcriptionFailed();
+        this.emit('error', error);
+      })
+      .finally(() => {
+        audioStream.close();
+        if (this.liveAudioStream === audioStream) {
+          this.liveAudioStream = null;
+        }
+      });
+
+    return audioStream;
+  }
+
+  /**
+   * Consume live STT results: interim and final segments become 'transcription.delta',
+   * the end of an utterance becomes 'transcription.done' and starts the agent turn
+   */
+  private async consumeTranscriptionStream(audioStream: AsyncQueue<Buffer>): Promise<void> {
+    let finalized = '';
+
+    for await (const result of this.streamTranscriptionResults(audioStream)) {
+      const text = result.text?.trim();
+      if (!text) {
+        continue;
+      }
+      this.deferHeldTurn();
+
+      if (!result.isFinal) {
+        this.emit('transcription.delta', {
+          delta: text,
+          transcript: joinTranscript(finalized, text),
+          isFinal: false,
+        });
+        continue;
+      }
+
+      finalized = joinTranscript(finalized, text);
+      this.emit('transcription.delta', {
+        delta: text,
+        transcript: finalized,
+        isFinal: true,
+      });
+
+      // Providers without utterance boundaries treat every final as end of speech
+      if (result.speechFinal !== false) {
+        const transcript = finalized;
+        finalized = '';
+        this.emit('transcription.done', transcript);
+        void this.processFinalTranscript(transcript);
+      }
+    }
+  }
+
+  /**
+   * Normalize provider streaming output to STTStreamResult
+   */
+  private async *streamTranscriptionResults(
+    audioStream: AsyncIterable<Buffer>
+  ): AsyncIterable<STTStreamResult> {
+    if (this.sttProvider.transcribeStreamResults) {
+      yield* this.sttProvider.transcribeStreamResults(audioStream);
+      return;
+    }
+
+    for await (const text of this.sttProvider.transcribeStream(audioStream)) {
+      yield { text, isFinal: true };
+    }
+  }
+
+  /**
+   * Run an agent turn for a final streaming transcript, or for a held turn whose
+   * end-of-turn wait ran out. Transcripts arriving mid-turn are queued and answered
+   * once the turn ends.
+   */
+  private async processFinalTranscript(transcript: string, heldTurn?: UserTurn): Promise<void> {
+    if (this.amdState) {
+      this.hearDuringDetection(transcript);
+      return;
+    }
+    if (this.greetingState === 'waiting') {
+      this.answerCallee(transcript);
+      return;
+    }
+    if (this.isProcessing) {
+      this.pendingTranscript = joinTranscript(this.pendingTranscript, transcript);
+      if (this.config.interruption?.enabled && this.responseAbortController) {
+        await this.interrupt();
+      }
+      return;
+    }
+
+    this.isProcessing = true;
+    const endOfSpeech = this.lastSpeechEndedAt;
+    this.lastSpeechEndedAt = 0;
+    const userTurn = heldTurn ?? await this.checkEndOfTurn(transcript, endOfSpeech);
+
+    if (userTurn) {
+      try {
+        const startTime = Date.now();
+        this.metrics.sttLatency = this.lastLiveAudioAt ? startTime - this.lastLiveAudioAt : 0;
+        const turn = this.startTurn('audio', userTurn, startTime);
+        turn.mark('sttFinal', startTime);
+
+        this.emit('processing.started');
+        this.logger.info('Transcription:', userTurn.transcript);
+        this.emit('transcription', userTurn.transcript);
+
+        await this.runAgentWithSpeech(userTurn.transcript, turn);
+
+        this.completeTurn(turn, startTime);
+      } catch (error) {
+        this.logger.error('Error processing transcript', error);
+        this.emit('error', error);
+      } finally {
+        this.isProcessing = false;
+        this.emit('processing.stopped');
+      }
+    } else {
+      this.isProcessing = false;
+    }
+
+    if (this.pendingTranscript) {
+      const pending = this.pendingTranscript;
+      this.pendingTranscript = '';
+      await this.processFinalTranscript(pending);
+    }
+  }
+
   /**
    * Process text input directly (skip STT, but still produce audio + text)
    * 
@@ -338,20 +1046,31 @@ export class VoiceAgent extends EventEmitter {
    * - 'response.text.delta' (streaming text from LLM)
    * - 'response.text' (full text from LLM)
    * - 'audio.chunk' (audio chunks from TTS) ← IMPORTANT: Audio is ALWAYS generated
+   * - 'response.audio_transcript.delta' (spoken words with timings)
+   * - 'response.filler' (filler speech while a tool runs)
    * - 'tool.call' (when tools are called)
+   * - 'session.transfer_requested' (the agent called transfer_call)
    * - 'processing.stopped'
    * 
    * NOTE: Even with text input, audio output is ALWAYS generated via TTS
    */
   async processText(text: string): Promise<void> {
     try {
-      if (!text || text.trim().length === 0) {
+      if (!text || text.trim().length === 0 || this.ending) {
+        return;
+      }
+      if (this.amdState) {
+        this.hearDuringDetection(text.trim());
+        return;
+      }
+      if (this.greetingState === 'waiting') {
+        this.answerCallee(text.trim());
         return;
       }
 
       this.isProcessing = true;
-      this.isInterrupted = false;
       const startTime = Date.now();
+      const turn = this.startTurn('text');
 
       this.emit('processing.started');
       
@@ -360,21 +1079,15 @@ export class VoiceAgent extends EventEmitter {
       this.logger.info('Text input:', text);
 
       // Cancel ongoing response if interruption is enabled
-      if (this.config.interruption?.enabled && this.currentAudioStream) {
+      if (this.config.interruption?.enabled && this.responseAbortController) {
         await this.interrupt();
       }
 
       // Run agent with speech synthesis (ALWAYS produces audio + text)
-      await this.runAgentWithSpeech(text);
+      await this.runAgentWithSpeech(text, turn);
 
-      this.metrics.totalLatency = Date.now() - startTime;
       this.metrics.sttLatency = 0; // No STT for text input
-      this.metrics.turns++;
-
-      if (this.config.logging?.enableMetrics) {
-        this.emit('metrics', this.metrics);
-        this.logger.info('Metrics:', this.metrics);
-      }
+      this.completeTurn(turn, startTime);
 
       this.isProcessing = false;
       this.emit('processing.stopped');
@@ -396,141 +1109,485 @@ export class VoiceAgent extends EventEmitter {
    * 
    * This ensures dual output regardless of input mode (audio or text)
    */
-  private async runAgentWithSpeech(userInput: string): Promise<void> {
+  private async runAgentWithSpeech(userInput: string, turn: TurnTimer): Promise<void> {
     const llmStart = Date.now();
 
+    // Per-response cancellation: interrupt() aborts the LLM stream and in-flight TTS
+    const abortController = new AbortController();
+    const signal = abortController.signal;
+    this.responseAbortController = abortController;
+    signal.addEventListener('abort', () => turn.mark('interruptedAt'));
+    this.emit('response.started');
+
+    let fullResponse = '';
+    const spokenSentences: string[] = [];
+    this.playbackEndsAt = Math.max(this.playbackEndsAt, Date.now());
+
+    // Call control requested by the model during this response
+    let completedResponse = false;
+    let endCall = false;
+    let transfer: TransferRequest | null = null;
+
+    // Sentences are synthesized ahead in a bounded pipeline so the LLM stream is never
+    // blocked on TTS; audio is still emitted strictly in sentence order
+    // Provider output is normalized to the session output format per sentence
+    const outputFormat = parseAudioFormat(this.config.audio?.outputFormat || 'pcm16');
+    const pipeline = new SynthesisPipeline(
+      (sentence, pipelineSignal) => this.synthesizeSentence(sentence, pipelineSignal, outputFormat),
+      { concurrency: this.config.tts.concurrency, signal }
+    );
+    const playback = this.playSynthesizedSpeech(pipeline, spokenSentences, turn, outputFormat);
+
+    // Fillers are spoken and recorded like the rest of the reply, so barge-in cancels them too
+    let afterFiller = false;
+    const saidFillers: ToolFiller[] = [];
+    const fillerConfig = this.config.toolFillers;
+    const fillers = fillerConfig && fillerConfig.enabled !== false
+      ? new ToolFillerScheduler(
+        fillerConfig,
+        (filler) => {
+          const delta = (fullResponse && !/\s$/.test(fullResponse) ? ' ' : '') + filler.text;
+          fullResponse += delta;
+          afterFiller = true;
+          saidFillers.push(filler);
+          this.emit('response.text.delta', delta);
+          this.emit('response.filler', filler);
+          pipeline.enqueue(filler.text, (sentence, fillerSignal) => this.synthesizeFiller(sentence, fillerSignal, outputFormat));
+        },
+        () => (pipeline.pending > 0 ? 0 : Date.now() - this.playbackEndsAt),
+        this.fillerRotation
+      )
+      : null;
+
     try {
+      // History is loaded and saved here (not by the runner) so an interrupted
+      // turn only records what was actually spoken
+      const history = this.session ? await this.session.getHistory() : [];
+
       // Use agents-sdk streaming for real-time response
       const stream = await runStream(
         this.agent,
-        userInput,
+        [...history, { role: 'user', content: userInput }],
         {
-          session: this.session,
           maxTurns: 10,
+          signal,
         }
       );
 
-      let fullResponse = '';
+      // Observe rejection early so an aborted run never surfaces as unhandled
+      const completed = stream.completed;
+      completed.catch(() => undefined);
+
       let currentSentence = '';
 
-      // Stream the response
-      for await (const chunk of stream.textStream) {
-        if (this.isInterrupted) {
+      // Stream the response; tool calls drive the filler speech
+      for await (const part of stream.fullStream) {
+        if (signal.aborted) {
           this.logger.info('Agent response interrupted');
           break;
         }
 
+        if (part.type === 'tool-call' && part.toolCall) {
+          // The model stopped talking to call a tool: speak what it said so far
+          if (currentSentence.trim()) {
+            pipeline.enqueue(currentSentence.trim());
+            currentSentence = '';
+          }
+          fillers?.toolCalled(part.toolCall.toolName, this.agent.getToolFiller(part.toolCall.toolName));
+          if (part.toolCall.toolName === END_CALL_TOOL) {
+            endCall = true;
+          } else if (part.toolCall.toolName === TRANSFER_CALL_TOOL) {
+            const { target, reason, summary } = part.toolCall.args ?? {};
+            transfer = { target: String(target ?? ''), reason: String(reason ?? ''), summary };
+          }
+          continue;
+        }
+        if (part.type === 'tool-result' && part.toolResult) {
+          fillers?.toolFinished(part.toolResult.toolName);
+          continue;
+        }
+        if (part.type !== 'text-delta' || !part.textDelta) {
+          continue;
+        }
+
+        fillers?.stop();
+        let chunk = part.textDelta;
+        if (afterFiller && !/^\s/.test(chunk)) {
+          chunk = ` ${chunk}`;
+        }
+        afterFiller = false;
+
+        turn.mark('firstLlmToken');
         currentSentence += chunk;
         fullResponse += chunk;
 
         // Emit text delta
         this.emit('response.text.delta', chunk);
-        process.stdout.write(chunk); // For debugging
 
         // Check for sentence boundary
         if (this.isSentenceEnd(currentSentence)) {
           const sentence = currentSentence.trim();
           this.logger.debug('Sentence complete:', sentence);
 
-          // Start TTS for this sentence immediately (streaming)
-          await this.synthesizeSentence(sentence);
+          // Queue TTS for this sentence immediately (streaming)
+          turn.mark('firstSentence');
+          pipeline.enqueue(sentence);
           currentSentence = '';
         }
       }
 
+      fillers?.stop();
+
       // Handle remaining text
-      if (currentSentence.trim() && !this.isInterrupted) {
-        await this.synthesizeSentence(currentSentence.trim());
+      if (currentSentence.trim() && !signal.aborted) {
+        turn.mark('firstSentence');
+        pipeline.enqueue(currentSentence.trim());
+      }
+
+      // Wait for all queued audio to be emitted
+      pipeline.close();
+      await playback;
+
+      if (signal.aborted) {
+        await this.recordTruncatedResponse(userInput, fullResponse, spokenSentences);
+        this.emit('response.done', { status: 'cancelled', text: spokenSentences.join(' ') });
+        return;
       }
 
       // Get final result (includes tool calls, handoffs, etc.)
-      const result = await stream.completed;
+      const result = await completed;
 
       this.metrics.llmLatency = Date.now() - llmStart;
 
-      if (!this.isInterrupted) {
-        this.emit('response.text', fullResponse);
-        
-        // Emit tool calls if any
-        if (result.steps) {
-          for (const step of result.steps) {
-            if (step.toolCalls && step.toolCalls.length > 0) {
-              for (const toolCall of step.toolCalls) {
-                this.emit('tool.call', {
-                  name: toolCall.toolName,
-                  parameters: toolCall.args,
-                  result: toolCall.result,
-                });
-              }
+      // The whole turn as the runner produced it: tool calls and results as well as the reply,
+      // with the fillers spoken while tools ran (an interrupted turn keeps them in its spoken text)
+      if (this.session) {
+        await this.session.addMessages(withSpokenFillers(result.messages.slice(history.length), saidFillers));
+      }
+
+      this.lastAgentMessage = fullResponse;
+      this.emit('response.text', fullResponse);
+      
+      // Emit tool calls if any
+      if (result.steps) {
+        for (const step of result.steps) {
+          if (step.toolCalls && step.toolCalls.length > 0) {
+            for (const toolCall of step.toolCalls) {
+              this.emit('tool.call', {
+                name: toolCall.toolName,
+                parameters: toolCall.args,
+                result: toolCall.result,
+              });
             }
           }
         }
+      }
 
-        // Emit usage metrics
-        if (result.metadata) {
-          this.emit('usage', {
-            totalTokens: result.metadata.totalTokens,
-            promptTokens: result.metadata.promptTokens,
-            completionTokens: result.metadata.completionTokens,
+      // Emit usage metrics
+      if (result.metadata) {
+        this.emit('usage', {
+          totalTokens: result.metadata.totalTokens,
+          promptTokens: result.metadata.promptTokens,
+          completionTokens: result.metadata.completionTokens,
+        });
+        
+        // Emit handoff if any
+        if (result.metadata.handoffChain && result.metadata.handoffChain.length > 1) {
+          this.emit('agent.handoff', {
+            chain: result.metadata.handoffChain,
           });
-          
-          // Emit handoff if any
-          if (result.metadata.handoffChain && result.metadata.handoffChain.length > 1) {
-            this.emit('agent.handoff', {
-              chain: result.metadata.handoffChain,
-            });
-          }
         }
       }
+
+      this.emit('response.done', { status: 'completed', text: fullResponse });
+      completedResponse = true;
     } catch (error) {
+      pipeline.close();
+      await playback;
+
+      if (signal.aborted) {
+        await this.recordTruncatedResponse(userInput, fullResponse, spokenSentences);
+        this.emit('response.done', { status: 'cancelled', text: spokenSentences.join(' ') });
+        return;
+      }
       this.logger.error('Error running agent', error);
       this.emit('error', error);
+      this.emit('response.done', { status: 'failed', text: fullResponse });
+    } finally {
+      if (fillers) {
+        fillers.stop();
+        this.fillerRotation = fillers.rotation;
+      }
+      if (this.responseAbortController === abortController) {
+        this.responseAbortController = null;
+      }
+    }
+
+    // Call control runs once the whole reply has been spoken; a cancelled
+    // reply (the caller barged in) drops it
+    if (completedResponse) {
+      if (transfer) {
+        this.emit('session.transfer_requested', transfer);
+      }
+      if (endCall) {
+        void this.endSession('end_call');
+      }
     }
   }
 
   /**
-   * Synthesize a sentence to audio
+   * Synthesize one sentence in its spoken form (markdown stripped, numbers and
+   * dates verbalized), with word timings relative to the start of the sentence;
+   * sentences with nothing to say produce no audio
    */
-  private async synthesizeSentence(sentence: string): Promise<void> {
-    if (!sentence || sentence.trim().length === 0) {
+  private async *synthesizeSentence(
+    sentence: string,
+    signal: AbortSignal | undefined,
+    outputFormat: AudioFormat
+  ): AsyncIterable<Buffer | TimedAudioChunk> {
+    const pronounced = this.lexicon.apply(sentence);
+    const spoken = this.speechNormalizer ? this.speechNormalizer.normalize(pronounced) : pronounced;
+    if (!spoken) {
       return;
     }
 
-    try {
-      const ttsStart = Date.now();
-      const audioStream = this.ttsProvider.synthesize(sentence);
-      this.currentAudioStream = audioStream;
+    const wordTimings = this.config.tts.wordTimings ?? 'native';
+    const visemes = this.config.tts.visemes ?? false;
+    if (wordTimings === false && !visemes) {
+      yield* normalizeAudioStream(
+        this.ttsProvider.synthesize(spoken, { signal }),
+        this.ttsProvider.outputFormat || DEFAULT_TTS_FORMAT,
+        outputFormat
+      );
+      return;
+    }
 
-      this.emit('audio.started', sentence);
+    // Visemes are estimated from word timings when the provider has none
+    yield* synthesizeWithTimings(this.ttsProvider, spoken, outputFormat, { signal, visemes }, wordTimings !== 'estimated');
+  }
 
-      for await (const audioChunk of audioStream) {
-        if (this.isInterrupted) {
-          this.logger.debug('TTS interrupted');
-          break;
+  /**
+   * Synthesize a filler phrase, replaying its audio when it was synthesized before
+   */
+  private async *synthesizeFiller(
+    text: string,
+    signal: AbortSignal | undefined,
+    outputFormat: AudioFormat
+  ): AsyncIterable<Buffer | TimedAudioChunk> {
+    const cached = this.fillerAudio.get(text);
+    if (cached) {
+      yield* cached;
+      return;
+    }
+
+    const chunks: Array<Buffer | TimedAudioChunk> = [];
+    for await (const chunk of this.synthesizeSentence(text, signal, outputFormat)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    if (!signal?.aborted) {
+      this.fillerAudio.set(text, chunks);
+    }
+  }
+
+  /**
+   * Synthesize the filler phrases ahead of the first tool call
+   */
+  private async prepareFillers(config: ToolFillerConfig): Promise<void> {
+    const outputFormat = parseAudioFormat(this.config.audio?.outputFormat || 'pcm16');
+
+    for (const phrase of fillerPhrases(config, this.agent.getToolFillers())) {
+      try {
+        const chunks: Array<Buffer | TimedAudioChunk> = [];
+        for await (const chunk of this.synthesizeSentence(phrase, undefined, outputFormat)) {
+          chunks.push(chunk);
         }
+        this.fillerAudio.set(phrase, chunks);
+      } catch (error) {
+        this.logger.warn(`Could not pre-synthesize filler "${phrase}"`, error);
+      }
+    }
+  }
+
+  /**
+   * Save an interrupted turn with only the sentences that were fully spoken
+   */
+  private async recordTruncatedResponse(
+    userInput: string,
+    fullText: string,
+    spokenSentences: string[]
+  ): Promise<void> {
+    const spokenText = spokenSentences.join(' ');
 
-        // Emit audio chunk for playback
-        this.emit('audio.chunk', audioChunk);
+    try {
+      if (this.session) {
+        await this.session.addMessages(
+          spokenText
+            ? [
+                { role: 'user', content: userInput },
+                { role: 'assistant', content: spokenText },
+              ]
+            : [{ role: 'user', content: userInput }]
+        );
       }
+    } catch (error) {
+      this.logger.error('Error saving truncated response', error);
+      this.emit('error', error);
+    }
 
-      this.metrics.ttsLatency = Date.now() - ttsStart;
-      this.currentAudioStream = null;
-      
-      if (!this.isInterrupted) {
-        this.emit('audio.ended', sentence);
+    this.lastAgentMessage = spokenText;
+    this.logger.info('Response truncated to spoken text:', spokenText);
+    this.emit('conversation.item.truncated', { spokenText, fullText });
+  }
+
+  /**
+   * Emit synthesized audio in order as the pipeline produces it
+   * 
+   * Sentences whose audio was fully emitted are appended to spokenSentences
+   */
+  private async playSynthesizedSpeech(
+    pipeline: SynthesisPipeline,
+    spokenSentences: string[],
+    turn: TurnTimer | null,
+    outputFormat: AudioFormat
+  ): Promise<void> {
+    // Word timings are per sentence; offset them by the response audio before it
+    let audioMs = 0;
+    let chunkMs = 0;
+    let sentenceStartMs = 0;
+    let transcript = '';
+    const visemes = this.config.tts.visemes ? new VisemeTrack() : null;
+    let nativeVisemes = false;
+    const shift = <T extends { startMs: number }>(timing: T): T => ({ ...timing, startMs: timing.startMs + sentenceStartMs });
+
+    try {
+      for await (const event of pipeline.output()) {
+        switch (event.type) {
+          case 'sentence.started':
+            sentenceStartMs = audioMs;
+            nativeVisemes = false;
+            this.emit('audio.started', event.sentence);
+            break;
+
+          case 'audio':
+            if (visemes) {
+              // Native visemes replace the estimate for the rest of the sentence
+              nativeVisemes = nativeVisemes || Boolean(event.visemes?.length);
+              if (event.visemes?.length) {
+                visemes.addKeyframes(event.visemes.map(shift));
+              } else if (event.words?.length && !nativeVisemes) {
+                visemes.addKeyframes(visemesForWords(event.words).map(shift));
+              }
+            }
+            if (event.words?.length && this.config.tts.wordTimings !== false) {
+              const delta = (transcript ? ' ' : '') + event.words.map((timing) => timing.word).join(' ');
+              transcript += delta;
+              this.emit('response.audio_transcript.delta', {
+                delta,
+                words: event.words.map((timing) => ({
+                  word: timing.word,
+                  startMs: timing.startMs + sentenceStartMs,
+                  endMs: timing.endMs + sentenceStartMs,
+                })),
+                alignment: event.alignment ?? 'native',
+              } satisfies AudioTranscriptDelta);
+            }
+            if (event.chunk.length === 0) {
+              break;
+            }
+
+            turn?.mark('firstTtsByte');
+            turn?.mark('lastAudioByte');
+            chunkMs = audioDurationMs(event.chunk.length, outputFormat);
+            audioMs += chunkMs;
+            this.playbackEndsAt = Math.max(this.playbackEndsAt, Date.now()) + chunkMs;
+            // Emit audio chunk for playback; keep it as the echo reference
+            this.echoSuppressor?.addReference(this.referenceTranscoder.transcode(event.chunk));
+            this.emit('audio.chunk', event.chunk);
+            if (visemes) {
+              visemes.addAudio(chunkMs);
+              this.emitVisemes(visemes);
+            }
+            break;
+
+          case 'sentence.done':
+            this.metrics.ttsLatency = event.synthesisMs;
+            spokenSentences.push(event.sentence);
+            if (visemes) {
+              visemes.complete();
+              this.emitVisemes(visemes);
+            }
+            this.emit('audio.ended', event.sentence);
+            break;
+
+          case 'sentence.failed':
+            this.logger.error('Error synthesizing sentence', event.error);
+            this.emit('error', event.error);
+            break;
+        }
       }
     } catch (error) {
-      this.logger.error('Error synthesizing sentence', error);
+      this.logger.error('Error emitting synthesized audio', error);
       this.emit('error', error);
     }
   }
 
   /**
-   * Check if text ends with sentence boundary
+   * Emit 'response.viseme.delta' for the audio chunks whose visemes are known
+   */
+  private emitVisemes(track: VisemeTrack): void {
+    for (const delta of track.take()) {
+      this.emit('response.viseme.delta', delta);
+    }
+  }
+
+  /**
+   * Start timing a new turn
+   */
+  private startTurn(input: 'audio' | 'text', userTurn?: UserTurn, startedAt?: number): TurnTimer {
+    const turn = new TurnTimer(++this.turnSequence, input, startedAt);
+    this.policies?.userActive();
+    if (input === 'audio') {
+      this.policies?.transcribed();
+    }
+
+    // End of speech is known when VAD-based turn detection committed this turn
+    if (userTurn?.endOfSpeech) {
+      turn.mark('endOfSpeech', userTurn.endOfSpeech);
+    }
+    if (userTurn) {
+      turn.recordEndOfTurn(userTurn.decisions);
+    }
+
+    return turn;
+  }
+
+  /**
+   * Record a finished turn and emit its latency timeline
+   */
+  private completeTurn(turn: TurnTimer, startTime: number): void {
+    const turnMetrics = turn.finish();
+    this.turnMetrics.add(turnMetrics);
+
+    this.metrics.totalLatency = Date.now() - startTime;
+    this.metrics.turns++;
+    this.metrics.lastTurn = turnMetrics;
+
+    this.emit('turn.metrics', turnMetrics);
+
+    if (this.config.logging?.enableMetrics) {
+      this.emit('metrics', this.getMetrics());
+      this.logger.info('Metrics:', this.metrics);
+    }
+  }
+
+  /**
+   * Check if text ends with sentence boundary. A sentence inside an open
+   * speech markup element (e.g. <prosody>) waits for the closing tag.
    */
   private isSentenceEnd(text: string): boolean {
     const trimmed = text.trim();
-    return /[.!?]$/.test(trimmed) && trimmed.length > 10; // Minimum 10 chars
+    return /[.!?]$/.test(trimmed) && trimmed.length > 10 && !hasOpenSpeechMarkup(trimmed); // Minimum 10 chars
   }
 
   /**
@@ -538,19 +1595,385 @@ export class VoiceAgent extends EventEmitter {
    */
   async interrupt(): Promise<void> {
     this.logger.info('Interrupting current response');
-    this.isInterrupted = true;
-    this.currentAudioStream = null;
 
-    // Clear any pending processing timeout
+    // Cancel the LLM stream and any in-flight TTS request
+    if (this.responseAbortController) {
+      this.responseAbortController.abort();
+      this.responseAbortController = null;
+    }
+
+    // The client drops queued playback, so that audio will not echo back
+    this.echoSuppressor?.clearReference();
+
+    // Keep buffered input while the user is mid-turn: that audio is the barge-in itself
+    if (!this.turnDetector?.isUserSpeaking) {
+      // Clear any pending processing timeout
+      if (this.processingTimeout) {
+        clearTimeout(this.processingTimeout);
+        this.processingTimeout = null;
+      }
+
+      // Clear audio buffer
+      this.audioInputBuffer.clear();
+    }
+
+    this.playbackEndsAt = Date.now();
+    this.emit('interrupted');
+  }
+
+  /**
+   * Speak a fixed message without running the agent (greetings, reprompts, goodbyes).
+   * It is emitted and recorded like a response, and interrupt() cancels it.
+   * `audio` is a recording of the message in the session output format, played
+   * instead of synthesizing it.
+   */
+  async say(text: string, audio?: Buffer): Promise<void> {
+    const message = text.trim();
+    if (!message) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const signal = abortController.signal;
+    this.responseAbortController = abortController;
+    this.playbackEndsAt = Math.max(this.playbackEndsAt, Date.now());
+    this.emit('response.started');
+
+    const spokenSentences: string[] = [];
+    const outputFormat = parseAudioFormat(this.config.audio?.outputFormat || 'pcm16');
+    const pipeline = new SynthesisPipeline(
+      (sentence, pipelineSignal) => this.synthesizeSentence(sentence, pipelineSignal, outputFormat),
+      { concurrency: this.config.tts.concurrency, signal }
+    );
+    const playback = this.playSynthesizedSpeech(pipeline, spokenSentences, null, outputFormat);
+
+    this.emit('response.text.delta', message);
+    pipeline.enqueue(message, audio?.length ? async function* () { yield audio; } : undefined);
+    pipeline.close();
+    await playback;
+
+    try {
+      if (signal.aborted) {
+        this.emit('response.done', { status: 'cancelled', text: spokenSentences.join(' ') });
+        return;
+      }
+
+      if (this.session) {
+        await this.session.addMessages([{ role: 'assistant', content: message }]);
+      }
+      this.lastAgentMessage = message;
+      this.emit('response.text', message);
+      this.emit('response.done', { status: 'completed', text: message });
+    } catch (error) {
+      this.logger.error('Error saving spoken message', error);
+      this.emit('error', error);
+      this.emit('response.done', { status: 'failed', text: message });
+    } finally {
+      if (this.responseAbortController === abortController) {
+        this.responseAbortController = null;
+      }
+    }
+  }
+
+  /**
+   * End the session: cancel the current response, speak the goodbye, emit
+   * 'session.ending', then stop once the goodbye has played out. Transports
+   * close the connection on 'session.ended'.
+   */
+  async endSession(reason: SessionEndReason = 'requested', goodbye?: string): Promise<void> {
+    if (this.ending) {
+      return;
+    }
+    this.ending = true;
+    this.policies?.stop();
+    this.logger.info(`Ending session: ${reason}`);
+
+    if (this.responseAbortController) {
+      const cancelled = new Promise((resolve) => this.once('response.done', resolve));
+      await this.interrupt();
+      await Promise.race([cancelled, sleep(1000)]);
+    }
+    if (goodbye) {
+      await this.say(goodbye);
+    }
+    this.emit('session.ending', { reason, message: goodbye } satisfies SessionEnding);
+
+    // Give the client time to play the goodbye before the connection closes
+    await sleep(Math.max(0, this.playbackEndsAt - Date.now()));
+    await this.stop();
+    this.emit('session.ended', { reason });
+  }
+
+  /**
+   * Say a message once the current response, if any, is over
+   */
+  private sayWhenIdle(text: string): void {
+    if (this.ending) {
+      return;
+    }
+    if (this.isProcessing || this.responseAbortController) {
+      setTimeout(() => this.sayWhenIdle(text), IDLE_POLL_MS);
+      return;
+    }
+    void this.say(text);
+  }
+
+  /**
+   * Speak the greeting once its delay runs out: right away for inbound
+   * sessions, after the outbound wait when the callee said nothing
+   */
+  private scheduleGreeting(delayMs: number): void {
+    this.clearGreetingTimer();
+    this.greetingTimer = setTimeout(() => {
+      this.greetingTimer = null;
+      this.greetingState = 'greeting';
+      void this.greet();
+    }, delayMs);
+  }
+
+  private clearGreetingTimer(): void {
+    if (this.greetingTimer) {
+      clearTimeout(this.greetingTimer);
+      this.greetingTimer = null;
+    }
+  }
+
+  /**
+   * The callee answered an outbound call: their words are answered with the greeting
+   */
+  private answerCallee(transcript: string): void {
+    this.clearGreetingTimer();
+    this.greetingState = 'greeting';
+    this.policies?.transcribed();
+    this.logger.info('Callee answered:', transcript);
+    this.emit('transcription', transcript);
+    void this.greet(transcript);
+  }
+
+  /**
+   * Listen for a person or a voicemail greeting before the call goes on
+   */
+  private startAnsweringMachineDetection(config: AnsweringMachineConfig): void {
+    if (!this.vadProvider) {
+      this.logger.warn('Answering machine detection needs VAD; skipping it');
+      return;
+    }
+
+    this.amd = new AnsweringMachineDetector(config, INPUT_SAMPLE_RATE);
+    this.amdState = 'detecting';
+    this.amd.on('result', (result: AnsweringMachineResult) => this.onAnsweringMachineResult(result));
+    this.amd.on('message_ready', () => {
+      if (this.amdState === 'machine' && config.voicemail) {
+        void this.leaveVoicemail(config.voicemail);
+      }
+    });
+  }
+
+  /**
+   * A person (or nobody clear) picked up: the held transcript is answered as
+   * usual. A machine: no greeting, and the agent waits to leave its message,
+   * or ends the session when it has none.
+   */
+  private onAnsweringMachineResult(result: AnsweringMachineResult): void {
+    this.logger.info(`Answering machine detection: ${result.result} (${result.confidence}, ${result.reasons.join(', ')})`);
+    this.emit('call.amd_result', result);
+
+    if (result.result === 'machine') {
+      this.amdState = 'machine';
+      this.clearGreetingTimer();
+      this.greetingState = null;
+      // No message to leave: nobody to talk to
+      if (!this.config.answeringMachine?.voicemail) {
+        void this.endSession('voicemail');
+      }
+      return;
+    }
+
+    this.amdState = null;
+    const transcript = this.amdTranscript;
+    this.amdTranscript = '';
+    if (this.greetingState === 'waiting') {
+      if (transcript) {
+        this.answerCallee(transcript);
+      } else {
+        // The callee's words are still being transcribed, or nobody spoke
+        this.scheduleGreeting(result.result === 'human' ? this.config.greeting?.timeoutMs ?? 3000 : 0);
+      }
+    } else if (transcript) {
+      void this.processFinalTranscript(transcript);
+    }
+  }
+
+  /**
+   * A transcript arrived before the callee is known to be a person
+   */
+  private hearDuringDetection(transcript: string): void {
+    this.emit('transcription', transcript);
+    if (this.amdState === 'detecting') {
+      this.amdTranscript = joinTranscript(this.amdTranscript, transcript);
+    }
+    this.amd?.transcript(transcript);
+  }
+
+  /**
+   * Leave the voicemail message after the beep, then hang up; without
+   * hanging up, the call goes on as a normal conversation
+   */
+  private async leaveVoicemail(voicemail: NonNullable<AnsweringMachineConfig['voicemail']>): Promise<void> {
+    this.logger.info('Leaving voicemail');
+    await this.say(voicemail.text, voicemail.audio);
+    if (voicemail.hangUp !== false) {
+      await this.endSession('voicemail');
+      return;
+    }
+    this.amdState = null;
+  }
+
+  /**
+   * Speak the configured greeting, generating it first when it has instructions
+   */
+  private async greet(calleeSaid?: string): Promise<void> {
+    const greeting = this.config.greeting!;
+
+    try {
+      if (calleeSaid && this.session) {
+        await this.session.addMessages([{ role: 'user', content: calleeSaid }]);
+      }
+
+      let text = greeting.text || '';
+      if (greeting.instructions && !greeting.audio) {
+        try {
+          text = await generateGreeting(this.config.agent.model, greeting, {
+            agentInstructions: typeof this.config.agent.instructions === 'string' ? this.config.agent.instructions : undefined,
+            calleeSaid,
+          });
+        } catch (error) {
+          this.logger.error('Greeting generation failed', error);
+          this.emit('error', error);
+        }
+      }
+
+      if (!this.ending && this.greetingState === 'greeting') {
+        await this.say(text, greeting.audio);
+      }
+    } catch (error) {
+      this.logger.error('Error greeting', error);
+      this.emit('error', error);
+    } finally {
+      if (this.greetingState === 'greeting') {
+        this.greetingState = null;
+      }
+    }
+  }
+
+  /**
+   * Commit buffered input audio as a user turn without waiting for silence
+   * (manual turn detection, e.g. push-to-talk)
+   */
+  async commitAudio(): Promise<void> {
+    if (this.processingTimeout) {
+      clearTimeout(this.processingTimeout);
+      this.processingTimeout = null;
+    }
+
+    if (this.config.stt.streaming) {
+      this.turnDetector?.commit();
+
+      // Ending the live stream makes the provider finalize the utterance
+      if (this.liveAudioStream) {
+        this.liveAudioStream.close();
+        this.liveAudioStream = null;
+      }
+      return;
+    }
+
+    if (this.turnDetector?.isUserSpeaking) {
+      // Emits 'audio.input.buffer.committed' and processes the turn
+      this.turnDetector.commit();
+      return;
+    }
+
+    this.emit('audio.input.buffer.committed', {
+      audioStartMs: 0,
+      audioEndMs: this.audioInputBuffer.duration(),
+    });
+    await this.processBufferedAudio();
+  }
+
+  /**
+   * Discard buffered input audio
+   */
+  clearAudioBuffer(): void {
     if (this.processingTimeout) {
       clearTimeout(this.processingTimeout);
       this.processingTimeout = null;
     }
 
-    // Clear audio buffer
     this.audioInputBuffer.clear();
+    this.turnDetector?.reset();
+    this.releaseHeldTurn();
+    this.emit('audio.input.buffer.cleared');
+  }
 
-    this.emit('interrupted');
+  /**
+   * Apply session changes; they take effect from the next response
+   */
+  updateSession(update: VoiceAgentSessionUpdate): void {
+    // First, so invalid entries throw before anything else changes
+    if (update.pronunciations) {
+      this.lexicon = this.baseLexicon.extend(update.pronunciations);
+      this.fillerAudio.clear();
+    }
+
+    if (update.instructions !== undefined || update.modelSettings) {
+      this.agent = this.agent.clone({
+        instructions: update.instructions,
+        modelSettings: update.modelSettings
+          ? { ...this.agent._modelSettings, ...update.modelSettings }
+          : undefined,
+      });
+    }
+
+    if (update.audio) {
+      this.setAudioFormats(update.audio);
+    }
+
+    if (update.vad) {
+      this.config.vad = { enabled: this.config.vad?.enabled ?? true, ...this.config.vad, ...update.vad };
+      if (this.endOfTurn && update.vad.silenceThresholdMs !== undefined) {
+        // Turns still commit at the shortest window; the threshold is the neutral one
+        this.endOfTurn.setBaseSilence(update.vad.silenceThresholdMs);
+        this.turnDetector?.setThresholds({ speechThresholdMs: update.vad.speechThresholdMs });
+      } else {
+        this.turnDetector?.setThresholds(update.vad);
+      }
+    }
+
+    this.logger.info('Session updated');
+    this.emit('session.updated', update);
+  }
+
+  /**
+   * Set the client input/output audio formats
+   */
+  private setAudioFormats(formats: { inputFormat?: SessionAudioFormat; outputFormat?: SessionAudioFormat }): void {
+    this.config.audio = { ...this.config.audio, ...formats };
+
+    if (formats.inputFormat || !this.inputTranscoder) {
+      this.inputTranscoder = new AudioTranscoder(
+        parseAudioFormat(this.config.audio.inputFormat || 'pcm16'),
+        { sampleRate: INPUT_SAMPLE_RATE, channels: 1, bitDepth: 16, encoding: 'pcm' }
+      );
+    }
+
+    // Output audio is decoded back to the input format to serve as the echo reference
+    if (formats.outputFormat || !this.referenceTranscoder) {
+      this.fillerAudio.clear();
+      this.referenceTranscoder = new AudioTranscoder(
+        parseAudioFormat(this.config.audio.outputFormat || 'pcm16'),
+        { sampleRate: INPUT_SAMPLE_RATE, channels: 1, bitDepth: 16, encoding: 'pcm' }
+      );
+    }
   }
 
   /**
@@ -579,10 +2002,20 @@ export class VoiceAgent extends EventEmitter {
   }
 
   /**
-   * Get current metrics
+   * Get current metrics, including latency percentiles over recent turns
    */
   getMetrics(): Metrics {
-    return { ...this.metrics };
+    return {
+      ...this.metrics,
+      percentiles: this.turnMetrics.summary(),
+    };
+  }
+
+  /**
+   * Quality of the caller's input audio so far, or null when input processing is disabled
+   */
+  getAudioQualityReport(): AudioQualityReport | null {
+    return this.audioProcessor?.getReport() ?? null;
   }
 
   /**
@@ -599,8 +2032,23 @@ export class VoiceAgent extends EventEmitter {
     try {
       this.logger.info('Stopping Voice Agent');
 
-      this.isInterrupted = true;
       this.isProcessing = false;
+      this.pendingTranscript = '';
+      this.responseAbortController?.abort();
+      this.responseAbortController = null;
+      this.turnDetector?.reset();
+      this.echoSuppressor?.reset();
+      this.releaseHeldTurn();
+      this.policies?.stop();
+      this.clearGreetingTimer();
+      this.greetingState = null;
+      this.amdState = null;
+
+      // Close the live STT stream
+      if (this.liveAudioStream) {
+        this.liveAudioStream.close();
+        this.liveAudioStream = null;
+      }
 
       // Clear any pending processing timeout
       if (this.processingTimeout) {
@@ -608,6 +2056,12 @@ export class VoiceAgent extends EventEmitter {
         this.processingTimeout = null;
       }
 
+      // Final input quality for the session
+      const qualityReport = this.audioProcessor?.getReport();
+      if (qualityReport && qualityReport.durationMs > 0) {
+        this.emit('audio.input.quality', qualityReport);
+      }
+
       // Stop all providers
       await Promise.all([
         this.sttProvider.stop(),
@@ -624,5 +2078,12 @@ export class VoiceAgent extends EventEmitter {
   }
 }
 
+/**
+ * Join transcript segments with a single space
+ */
+function joinTranscript(existing: string, next: string): string {
+  return existing ? `${existing} ${next}` : next;
+}
+
 export default VoiceAgent;
 
@@ -1,25 +1,38 @@
 /**
  * Performance & Latency Tests
- * 
- * Benchmarks for voice agent performance
+ *
+ * Benchmarks for voice agent performance, run through VoiceAgent on the
+ * testing kit with simulated provider latency: the model streams a word
+ * every TOKEN_INTERVAL_MS and each TTS request takes TTS_LATENCY_MS before
+ * its first byte.
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { VoiceAgent } from '../../src/voice-agent/voice-agent';
-import { openai } from '@ai-sdk/openai';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel } from '../../src/testing';
+
+const TOKEN_INTERVAL_MS = 10;
+const TTS_LATENCY_MS = 80;
+const REPLY = [
+  'The weather in Tokyo is sunny today.',
+  'Temperatures will reach twenty five degrees.',
+  'Expect light winds in the evening.',
+  'Tomorrow looks much the same.',
+].join(' ');
 
 describe('Performance Benchmarks', () => {
   let voiceAgent: VoiceAgent;
+  let tts: ToneTTSProvider;
 
   beforeEach(() => {
+    tts = new ToneTTSProvider({ msPerCharacter: 5, latencyMs: TTS_LATENCY_MS });
     voiceAgent = new VoiceAgent({
       transport: { type: 'websocket' },
       stt: {
-        provider: 'openai',
-        apiKey: process.env.OPENAI_API_KEY || 'test',
+        provider: new ScriptedSTTProvider({ fallback: '' }),
       },
       agent: {
-        model: openai('gpt-4o-mini'),
+        model: new ScriptedLanguageModel([], { fallback: { text: REPLY, delayMs: TOKEN_INTERVAL_MS } }),
         instructions: 'Be brief.',
         modelSettings: {
           temperature: 0.5,
@@ -27,8 +40,7 @@ describe('Performance Benchmarks', () => {
         },
       },
       tts: {
-        provider: 'openai',
-        apiKey: process.env.OPENAI_API_KEY || 'test',
+        provider: tts,
       },
       logging: {
         level: 'error',
@@ -46,14 +58,12 @@ describe('Performance Benchmarks', () => {
   it('should have total latency under 1000ms', async () => {
     await voiceAgent.initialize();
 
-    const startTime = Date.now();
-
     await voiceAgent.processText('Hello');
-    await new Promise(resolve => setTimeout(resolve, 2000));
 
     const metrics = voiceAgent.getMetrics();
-    
+
     // Target: <1000ms total latency
+    expect(metrics.totalLatency).toBeGreaterThan(0);
     expect(metrics.totalLatency).toBeLessThan(1000);
   }, 10000);
 
@@ -61,18 +71,45 @@ describe('Performance Benchmarks', () => {
     await voiceAgent.initialize();
 
     await voiceAgent.processText('Hi');
-    await new Promise(resolve => setTimeout(resolve, 2000));
 
     const metrics = voiceAgent.getMetrics();
-    
+
     // Target: <500ms LLM latency
+    expect(metrics.llmLatency).toBeGreaterThan(0);
     expect(metrics.llmLatency).toBeLessThan(500);
   }, 10000);
 
+  it('should start audio before the reply is complete', async () => {
+    await voiceAgent.initialize();
+
+    let firstAudioMs = -1;
+    let replyMs = 0;
+    const startTime = Date.now();
+    voiceAgent.on('audio.chunk', () => {
+      if (firstAudioMs < 0) firstAudioMs = Date.now() - startTime;
+    });
+    voiceAgent.on('response.text.delta', () => {
+      replyMs = Date.now() - startTime;
+    });
+
+    await voiceAgent.processText('What is the weather in Tokyo?');
+
+    // Synthesizing the reply once it is complete would start audio no earlier than this
+    const fullReplyFirstAudioMs = replyMs + TTS_LATENCY_MS;
+
+    // Streaming synthesis starts on the first sentence: its words plus one TTS round trip
+    const firstSentenceWords = REPLY.split('.')[0].split(' ').length;
+    expect(firstAudioMs).toBeGreaterThan(0);
+    expect(firstAudioMs).toBeLessThan(replyMs);
+    expect(firstAudioMs).toBeLessThan(fullReplyFirstAudioMs);
+    expect(firstAudioMs).toBeLessThan(firstSentenceWords * TOKEN_INTERVAL_MS + TTS_LATENCY_MS + 150);
+    expect(tts.texts).toHaveLength(4);
+  }, 10000);
+
   it('should handle multiple concurrent requests', async () => {
     await voiceAgent.initialize();
 
-    const requests = Array.from({ length: 5 }, (_, i) => 
+    const requests = Array.from({ length: 5 }, (_, i) =>
       voiceAgent.processText(`Request ${i}`)
     );
 
@@ -84,4 +121,3 @@ describe('Performance Benchmarks', () => {
     expect(duration).toBeLessThan(10000);
   }, 15000);
 });
-
@@ -0,0 +1,129 @@
+/**
+ * Synthesis Pipeline Performance Tests
+ *
+ * Compares sequential sentence synthesis (await each sentence inside the
+ * LLM loop) against the pipelined SynthesisPipeline, using a simulated
+ * LLM token stream and a TTS provider with fixed request latency.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SynthesisPipeline } from '../../src/voice-agent/synthesis-pipeline';
+
+const TTS_LATENCY_MS = 80;
+const TOKEN_INTERVAL_MS = 10;
+const SENTENCES = [
+  'The weather in Tokyo is sunny today.',
+  'Temperatures will reach twenty five degrees.',
+  'Expect light winds in the evening.',
+  'Tomorrow looks much the same.',
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function* fakeTextStream(): AsyncIterable<string> {
+  for (const sentence of SENTENCES) {
+    for (const word of sentence.split(' ')) {
+      await sleep(TOKEN_INTERVAL_MS);
+      yield `${word} `;
+    }
+  }
+}
+
+async function* fakeSynthesize(sentence: string): AsyncIterable<Buffer> {
+  await sleep(TTS_LATENCY_MS);
+  yield Buffer.from(sentence.slice(0, sentence.length / 2));
+  await sleep(TTS_LATENCY_MS / 4);
+  yield Buffer.from(sentence.slice(sentence.length / 2));
+}
+
+function isSentenceEnd(text: string): boolean {
+  return /[.!?]$/.test(text.trim());
+}
+
+async function runSequential() {
+  const start = Date.now();
+  let firstAudioMs = -1;
+  const output: string[] = [];
+  let current = '';
+
+  for await (const token of fakeTextStream()) {
+    current += token;
+    if (isSentenceEnd(current)) {
+      for await (const chunk of fakeSynthesize(current.trim())) {
+        if (firstAudioMs < 0) firstAudioMs = Date.now() - start;
+        output.push(chunk.toString());
+      }
+      current = '';
+    }
+  }
+
+  return { firstAudioMs, totalMs: Date.now() - start, output };
+}
+
+async function runPipelined() {
+  const start = Date.now();
+  let firstAudioMs = -1;
+  const output: string[] = [];
+  const pipeline = new SynthesisPipeline(fakeSynthesize, { concurrency: 3 });
+
+  const playback = (async () => {
+    for await (const event of pipeline.output()) {
+      if (event.type === 'audio') {
+        if (firstAudioMs < 0) firstAudioMs = Date.now() - start;
+        output.push(event.chunk.toString());
+      }
+    }
+  })();
+
+  let current = '';
+  for await (const token of fakeTextStream()) {
+    current += token;
+    if (isSentenceEnd(current)) {
+      pipeline.enqueue(current.trim());
+      current = '';
+    }
+  }
+  pipeline.close();
+  await playback;
+
+  return { firstAudioMs, totalMs: Date.now() - start, output };
+}
+
+describe('Synthesis Pipeline Benchmarks', () => {
+  it('should emit audio in sentence order', async () => {
+    const pipelined = await runPipelined();
+    expect(pipelined.output.join('')).toBe(SENTENCES.join(''));
+  });
+
+  it('should reduce total turn latency versus sequential synthesis', async () => {
+    const sequential = await runSequential();
+    const pipelined = await runPipelined();
+
+    // Sequential pays every TTS round trip on top of LLM streaming time
+    expect(pipelined.totalMs).toBeLessThan(sequential.totalMs * 0.75);
+  }, 15000);
+
+  it('should not delay time-to-first-audio', async () => {
+    const sequential = await runSequential();
+    const pipelined = await runPipelined();
+
+    expect(pipelined.firstAudioMs).toBeLessThanOrEqual(sequential.firstAudioMs + 20);
+  }, 15000);
+
+  it('should stop emitting when aborted', async () => {
+    const controller = new AbortController();
+    const pipeline = new SynthesisPipeline(fakeSynthesize, { signal: controller.signal });
+    SENTENCES.forEach((sentence) => pipeline.enqueue(sentence));
+    pipeline.close();
+
+    const events: string[] = [];
+    for await (const event of pipeline.output()) {
+      events.push(event.type);
+      if (event.type === 'sentence.done') {
+        controller.abort();
+      }
+    }
+
+    expect(events.filter((type) => type === 'sentence.done')).toHaveLength(1);
+  });
+});
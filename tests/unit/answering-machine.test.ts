@@ -0,0 +1,225 @@
+/**
+ * Answering Machine Detection Unit Tests
+ *
+ * Tests beep detection with Goertzel filters, and telling a person from a
+ * voicemail greeting by cadence, beep and transcript, and that VoiceAgent
+ * leaves the voicemail or ends the session on a machine
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ToneDetector, goertzel } from '../../src/utils/tone-detector';
+import { AnsweringMachineDetector, type AnsweringMachineResult } from '../../src/voice-agent/answering-machine';
+import { VoiceAgent, VoiceAgentConfig } from '../../src/voice-agent/voice-agent';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel } from '../../src/testing';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+
+function tone(frequency: number, ms: number, amplitude = 0.3): Buffer {
+  const samples = (SAMPLE_RATE * ms) / 1000;
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * amplitude * 32767), i * 2);
+  }
+  return pcm;
+}
+
+// Deterministic broadband noise standing in for speech
+function noise(ms: number, amplitude = 0.3): Buffer {
+  const samples = (SAMPLE_RATE * ms) / 1000;
+  const pcm = Buffer.alloc(samples * 2);
+  let seed = 1;
+  for (let i = 0; i < samples; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    pcm.writeInt16LE(Math.round(((seed / 0x7fffffff) * 2 - 1) * amplitude * 32767), i * 2);
+  }
+  return pcm;
+}
+
+function silence(ms: number): Buffer {
+  return Buffer.alloc(((SAMPLE_RATE * ms) / 1000) * 2);
+}
+
+describe('ToneDetector', () => {
+  it('should measure the power of the tested frequency', () => {
+    const samples = Float32Array.from({ length: 320 }, (_, i) => Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE));
+
+    expect(goertzel(samples, 1000, SAMPLE_RATE)).toBeGreaterThan(100 * goertzel(samples, 1500, SAMPLE_RATE));
+  });
+
+  it('should report a beep once it ends', () => {
+    const detector = new ToneDetector();
+
+    expect(detector.process(Buffer.concat([silence(200), tone(1037, 400)]))).toEqual([]);
+    const tones = detector.process(silence(100));
+
+    expect(tones).toHaveLength(1);
+    expect(Math.abs(tones[0].frequency - 1037)).toBeLessThanOrEqual(25);
+    expect(tones[0].startMs).toBe(200);
+    expect(tones[0].durationMs).toBe(400);
+  });
+
+  it('should ignore noise, blips and long tones', () => {
+    const detector = new ToneDetector();
+
+    expect(detector.process(Buffer.concat([noise(500), silence(40), tone(1400, 60), silence(40), tone(850, 4000), silence(40)]))).toEqual([]);
+  });
+});
+
+describe('AnsweringMachineDetector', () => {
+  let detector: AnsweringMachineDetector;
+  let results: AnsweringMachineResult[];
+  let ready: Array<{ after: string }>;
+
+  // Frames of speech (noise) or silence, with the VAD decision that goes with them
+  const feed = (kind: 'speech' | 'silence', ms: number) => {
+    for (let t = 0; t < ms; t += FRAME_MS) {
+      detector.process(kind === 'speech' ? noise(FRAME_MS) : silence(FRAME_MS), kind === 'speech');
+    }
+  };
+
+  const start = (config = {}) => {
+    detector = new AnsweringMachineDetector(config);
+    results = [];
+    ready = [];
+    detector.on('result', (result) => results.push(result));
+    detector.on('message_ready', (event) => ready.push(event));
+  };
+
+  beforeEach(() => start());
+
+  it('should hear a person in a short greeting followed by silence', () => {
+    feed('silence', 400);
+    feed('speech', 600);
+    detector.transcript('Hello?');
+    feed('silence', 1000);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ result: 'human', reasons: ['short_greeting', 'short_transcript'], transcript: 'Hello?' });
+    expect(results[0].confidence).toBe(0.9);
+  });
+
+  it('should hear a machine in a long greeting and wait for its beep', () => {
+    feed('speech', 1500);
+    feed('silence', 300);
+    feed('speech', 2000);
+
+    expect(results[0]).toMatchObject({ result: 'machine', reasons: ['long_greeting'], confidence: 0.75 });
+    expect(ready).toEqual([]);
+
+    feed('speech', 500);
+    detector.process(tone(1000, 500), true);
+    feed('silence', 100);
+
+    expect(ready).toEqual([{ after: 'beep' }]);
+    expect(results).toHaveLength(1);
+  });
+
+  it('should decide on voicemail phrases and leave the message after silence without a beep', () => {
+    start({ beep: false, messageSilenceMs: 1500 });
+    feed('speech', 1200);
+    detector.transcript("Hi, you've reached Ada.");
+
+    expect(results[0]).toMatchObject({ result: 'machine', reasons: ['voicemail_phrase'], confidence: 0.9 });
+
+    feed('silence', 400);
+    feed('speech', 1500);
+    feed('silence', 1400);
+    expect(ready).toEqual([]);
+
+    feed('silence', 200);
+    expect(ready).toEqual([{ after: 'silence' }]);
+  });
+
+  it('should be undecided when nobody speaks', () => {
+    feed('silence', 4000);
+
+    expect(results).toEqual([expect.objectContaining({ result: 'unknown', reasons: ['initial_silence'], confidence: 0.5 })]);
+  });
+});
+
+describe('VoiceAgent answering machine handling', () => {
+  const GREETING = "Hi, you've reached Sam. Please leave a message.";
+  let voiceAgent: VoiceAgent;
+  let model: ScriptedLanguageModel;
+  let tts: ToneTTSProvider;
+
+  const start = async (overrides: Partial<VoiceAgentConfig>) => {
+    model = new ScriptedLanguageModel([], { fallback: 'Hello!' });
+    tts = new ToneTTSProvider({ msPerCharacter: 5 });
+    voiceAgent = new VoiceAgent({
+      transport: { type: 'websocket' },
+      // The beep is never transcribed
+      stt: { provider: new ScriptedSTTProvider({ fallback: '' }) },
+      agent: { model, instructions: 'You are a test assistant.' },
+      tts: { provider: tts },
+      vad: { enabled: true, provider: 'energy', speechThresholdMs: 100, silenceThresholdMs: 300 },
+      audio: { processing: false, echoSuppression: false },
+      logging: { level: 'error' },
+      ...overrides,
+    });
+    await voiceAgent.initialize();
+  };
+  const nextEvent = (event: string) => new Promise((resolve) => voiceAgent.once(event, resolve));
+
+  // The beep, fed in 20ms chunks like a transport would
+  const beep = async () => {
+    const audio = Buffer.concat([tone(1000, 400), silence(100)]);
+    for (let offset = 0; offset < audio.length; offset += 640) {
+      await voiceAgent.processAudio(audio.subarray(offset, offset + 640));
+    }
+  };
+
+  afterEach(async () => {
+    await voiceAgent.stop();
+  });
+
+  it('should leave a voicemail after the beep and hang up', async () => {
+    await start({ answeringMachine: { voicemail: { text: 'Please call us back.' } } });
+    const result = vi.fn();
+    voiceAgent.on('call.amd_result', result);
+    const ended = nextEvent('session.ended');
+
+    await voiceAgent.processText(GREETING);
+    expect(result).toHaveBeenCalledWith(expect.objectContaining({ result: 'machine', reasons: ['voicemail_phrase'] }));
+    expect(tts.texts).toEqual([]);
+
+    await beep();
+
+    expect(await ended).toEqual({ reason: 'voicemail' });
+    expect(tts.texts).toEqual(['Please call us back.']);
+    expect(model.calls).toHaveLength(0);
+  });
+
+  it('should end the session on a machine when there is no voicemail', async () => {
+    await start({ answeringMachine: {} });
+    const ended = nextEvent('session.ended');
+
+    await voiceAgent.processText(GREETING);
+
+    expect(await ended).toEqual({ reason: 'voicemail' });
+    expect(tts.texts).toEqual([]);
+  });
+
+  it('should go on with the call after a voicemail without hanging up', async () => {
+    await start({
+      answeringMachine: { voicemail: { text: 'Please call us back.', hangUp: false } },
+      policies: { idle: { timeoutMs: 200, reprompts: ['Are you still there?'] } },
+    });
+    const ended = vi.fn();
+    voiceAgent.on('session.ended', ended);
+
+    await voiceAgent.processText(GREETING);
+    const voicemail = nextEvent('response.text');
+    await beep();
+    expect(await voicemail).toBe('Please call us back.');
+
+    // Idle time passes again
+    expect(await nextEvent('response.text')).toBe('Are you still there?');
+
+    // And the callee is answered
+    await voiceAgent.processText('Sorry, I just picked up.');
+    expect(model.calls).toHaveLength(1);
+    expect(ended).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * AsyncQueue Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AsyncQueue } from '../../src/utils/async-queue';
+
+describe('AsyncQueue', () => {
+  it('should yield buffered items in order', async () => {
+    const queue = new AsyncQueue<number>();
+    queue.push(1);
+    queue.push(2);
+    queue.close();
+
+    const items: number[] = [];
+    for await (const item of queue) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2]);
+  });
+
+  it('should resolve waiting consumers when items are pushed', async () => {
+    const queue = new AsyncQueue<string>();
+    const consumed = (async () => {
+      const items: string[] = [];
+      for await (const item of queue) {
+        items.push(item);
+      }
+      return items;
+    })();
+
+    queue.push('a');
+    await Promise.resolve();
+    queue.push('b');
+    queue.close();
+
+    expect(await consumed).toEqual(['a', 'b']);
+  });
+
+  it('should ignore pushes after close', () => {
+    const queue = new AsyncQueue<number>();
+    queue.close();
+    queue.push(1);
+
+    expect(queue.size).toBe(0);
+    expect(queue.isClosed).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Audio Codec Unit Tests
+ *
+ * Tests G.711 μ-law/A-law codecs, session format parsing, transcoding
+ * and provider output normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AudioTranscoder,
+  decodeAlaw,
+  decodeMulaw,
+  encodeAlaw,
+  encodeMulaw,
+  isSessionAudioFormat,
+  normalizeAudioStream,
+  parseAudioFormat,
+} from '../../src/utils/audio-codec';
+
+function pcm(samples: number[]): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+}
+
+function samples(buffer: Buffer): number[] {
+  const result: number[] = [];
+  for (let i = 0; i + 1 < buffer.length; i += 2) {
+    result.push(buffer.readInt16LE(i));
+  }
+  return result;
+}
+
+function wavHeader(dataLength: number, sampleRate: number, channels: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataLength, 40);
+  return header;
+}
+
+function sine(count: number, sampleRate: number, frequency = 440): number[] {
+  return Array.from({ length: count }, (_, i) =>
+    Math.round(8000 * Math.sin((2 * Math.PI * frequency * i) / sampleRate))
+  );
+}
+
+describe('G.711', () => {
+  it('should encode silence to the standard code words', () => {
+    expect(encodeMulaw(pcm([0]))[0]).toBe(0xff);
+    expect(encodeAlaw(pcm([0]))[0]).toBe(0xd5);
+  });
+
+  it('should round-trip μ-law within quantization error', () => {
+    const input = [0, 100, -100, 1000, -1000, 12000, -12000, 32767, -32768];
+    const output = samples(decodeMulaw(encodeMulaw(pcm(input))));
+
+    input.forEach((sample, i) => {
+      expect(Math.abs(output[i] - sample)).toBeLessThanOrEqual(Math.max(8, Math.abs(sample) * 0.07));
+    });
+  });
+
+  it('should round-trip A-law within quantization error', () => {
+    const input = [0, 100, -100, 1000, -1000, 12000, -12000, 32767, -32768];
+    const output = samples(decodeAlaw(encodeAlaw(pcm(input))));
+
+    input.forEach((sample, i) => {
+      expect(Math.abs(output[i] - sample)).toBeLessThanOrEqual(Math.max(16, Math.abs(sample) * 0.07));
+    });
+  });
+
+  it('should produce one byte per sample', () => {
+    expect(encodeMulaw(pcm([1, 2, 3, 4]))).toHaveLength(4);
+    expect(decodeAlaw(Buffer.from([0xd5, 0xd5]))).toHaveLength(4);
+  });
+});
+
+describe('Session audio formats', () => {
+  it('should parse supported formats', () => {
+    expect(parseAudioFormat('g711_ulaw')).toMatchObject({ sampleRate: 8000, encoding: 'mulaw' });
+    expect(parseAudioFormat('pcm16_48000')).toMatchObject({ sampleRate: 48000, encoding: 'pcm' });
+    expect(parseAudioFormat('pcm16')).toMatchObject({ sampleRate: 16000, encoding: 'pcm' });
+  });
+
+  it('should reject unknown formats', () => {
+    expect(isSessionAudioFormat('g711_alaw')).toBe(true);
+    expect(isSessionAudioFormat('opus')).toBe(false);
+    expect(isSessionAudioFormat('toString')).toBe(false);
+  });
+});
+
+describe('AudioTranscoder', () => {
+  it('should pass identical formats through untouched', () => {
+    const transcoder = new AudioTranscoder(parseAudioFormat('pcm16'), parseAudioFormat('pcm16_16000'));
+    const chunk = pcm([1, 2, 3]);
+
+    expect(transcoder.isPassthrough).toBe(true);
+    expect(transcoder.transcode(chunk)).toBe(chunk);
+  });
+
+  it('should carry an odd byte through identical PCM16 formats', () => {
+    const transcoder = new AudioTranscoder(parseAudioFormat('pcm16'), parseAudioFormat('pcm16'));
+    const input = pcm(sine(5, 16000));
+
+    const first = transcoder.transcode(input.subarray(0, 5));
+    const second = transcoder.transcode(input.subarray(5));
+
+    expect(first).toHaveLength(4);
+    expect(Buffer.concat([first, second])).toEqual(input);
+  });
+
+  it('should decode 8kHz μ-law to 16kHz PCM16', () => {
+    const transcoder = new AudioTranscoder(parseAudioFormat('g711_ulaw'), parseAudioFormat('pcm16'));
+    const ulaw = encodeMulaw(pcm(sine(160, 8000)));
+
+    // 20ms at 8kHz → 20ms at 16kHz, the tail arrives on flush
+    const output = Buffer.concat([transcoder.transcode(ulaw), transcoder.flush()]);
+    expect(output).toHaveLength(320 * 2);
+  });
+
+  it('should encode 16kHz PCM16 to 8kHz A-law', () => {
+    const transcoder = new AudioTranscoder(parseAudioFormat('pcm16'), parseAudioFormat('g711_alaw'));
+
+    const output = Buffer.concat([transcoder.transcode(pcm(sine(320, 16000))), transcoder.flush()]);
+    expect(output).toHaveLength(160);
+  });
+
+  it('should carry PCM16 samples split across chunks', () => {
+    const transcoder = new AudioTranscoder(parseAudioFormat('pcm16_8000'), parseAudioFormat('g711_ulaw'));
+    const input = pcm(sine(4, 8000));
+
+    const first = transcoder.transcode(input.subarray(0, 3));
+    const second = transcoder.transcode(input.subarray(3));
+
+    expect(Buffer.concat([first, second])).toEqual(encodeMulaw(input));
+  });
+
+  it('should resample split chunks the same as one chunk', () => {
+    const input = pcm(sine(480, 24000));
+    const whole = new AudioTranscoder(parseAudioFormat('pcm16_24000'), parseAudioFormat('pcm16'));
+    const split = new AudioTranscoder(parseAudioFormat('pcm16_24000'), parseAudioFormat('pcm16'));
+
+    const expected = Buffer.concat([whole.transcode(input), whole.flush()]);
+    const actual = Buffer.concat([
+      split.transcode(input.subarray(0, 101)),
+      split.transcode(input.subarray(101, 600)),
+      split.transcode(input.subarray(600)),
+      split.flush(),
+    ]);
+
+    expect(actual).toEqual(expected);
+  });
+
+  it('should strip a WAV header split across chunks and use its format', () => {
+    const body = pcm(sine(240, 24000));
+    const wav = Buffer.concat([wavHeader(body.length, 24000, 1), body]);
+    const transcoder = new AudioTranscoder(
+      { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'wav' },
+      parseAudioFormat('pcm16_24000')
+    );
+
+    const output = Buffer.concat([
+      transcoder.transcode(wav.subarray(0, 20)),
+      transcoder.transcode(wav.subarray(20)),
+      transcoder.flush(),
+    ]);
+
+    // The header says 24kHz, so no resampling happens
+    expect(output).toEqual(body);
+  });
+
+  it('should downmix stereo to mono', () => {
+    const transcoder = new AudioTranscoder(
+      { sampleRate: 16000, channels: 2, bitDepth: 16, encoding: 'pcm' },
+      parseAudioFormat('pcm16')
+    );
+
+    expect(samples(transcoder.transcode(pcm([100, 300, -50, -150])))).toEqual([200, -100]);
+  });
+
+  it('should reject compressed encodings', () => {
+    expect(
+      () => new AudioTranscoder({ sampleRate: 24000, channels: 1, bitDepth: 16, encoding: 'mp3' }, parseAudioFormat('pcm16'))
+    ).toThrow(/mp3/);
+  });
+});
+
+describe('normalizeAudioStream', () => {
+  async function collect(stream: AsyncIterable<Buffer>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async function* chunks(...buffers: Buffer[]) {
+    yield* buffers;
+  }
+
+  it('should convert 24kHz provider audio to 8kHz μ-law including the flushed tail', async () => {
+    const source = pcm(sine(2400, 24000));
+    const output = await collect(
+      normalizeAudioStream(
+        chunks(source.subarray(0, 1000), source.subarray(1000)),
+        { sampleRate: 24000, channels: 1, bitDepth: 16, encoding: 'pcm' },
+        parseAudioFormat('g711_ulaw')
+      )
+    );
+
+    // 100ms at 8kHz, one byte per sample
+    expect(output).toHaveLength(800);
+  });
+});
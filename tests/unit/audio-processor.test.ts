@@ -0,0 +1,129 @@
+/**
+ * Audio Processor Unit Tests
+ *
+ * Tests DC removal, automatic gain control, the noise gate and the
+ * quality report on synthetic PCM16 input
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AudioProcessor } from '../../src/utils/audio-processor';
+
+const SAMPLE_RATE = 16000;
+
+function tone(ms: number, amplitude: number, dc = 0): Buffer {
+  const samples = Math.round((SAMPLE_RATE * ms) / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = dc + amplitude * Math.sin((2 * Math.PI * 300 * i) / SAMPLE_RATE);
+    buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value * 32768))), i * 2);
+  }
+  return buffer;
+}
+
+function rms(buffer: Buffer, fromSample = 0): number {
+  let sum = 0;
+  const samples = buffer.length / 2;
+  for (let i = fromSample; i < samples; i++) {
+    sum += (buffer.readInt16LE(i * 2) / 32768) ** 2;
+  }
+  return Math.sqrt(sum / (samples - fromSample));
+}
+
+function mean(buffer: Buffer, fromSample = 0): number {
+  let sum = 0;
+  const samples = buffer.length / 2;
+  for (let i = fromSample; i < samples; i++) {
+    sum += buffer.readInt16LE(i * 2) / 32768;
+  }
+  return sum / (samples - fromSample);
+}
+
+describe('AudioProcessor', () => {
+  it('should keep the input length', () => {
+    const processor = new AudioProcessor();
+
+    expect(processor.process(tone(25, 0.1))).toHaveLength(800);
+  });
+
+  it('should process chunks split mid-sample the same as whole chunks', () => {
+    const input = tone(100, 0.1, 0.05);
+    const whole = new AudioProcessor().process(input);
+    const split = new AudioProcessor();
+
+    const output = Buffer.concat([
+      split.process(input.subarray(0, 641)),
+      split.process(input.subarray(641, 1921)),
+      split.process(input.subarray(1921)),
+    ]);
+
+    expect(output).toEqual(whole);
+  });
+
+  it('should remove DC offset', () => {
+    const processor = new AudioProcessor({ agc: false });
+
+    const output = processor.process(tone(1000, 0.1, 0.2));
+
+    expect(Math.abs(mean(output, 8000))).toBeLessThan(0.005);
+    expect(processor.getReport().issues).toContain('dc_offset');
+  });
+
+  it('should bring quiet speech up toward the target level', () => {
+    const processor = new AudioProcessor({ agc: { targetDbfs: -20 } });
+    processor.process(tone(500, 0));
+
+    const output = processor.process(tone(3000, 0.01));
+    const levelDb = 20 * Math.log10(rms(output, SAMPLE_RATE * 2));
+
+    expect(levelDb).toBeGreaterThan(-24);
+    expect(levelDb).toBeLessThan(-16);
+  });
+
+  it('should not boost audio into clipping', () => {
+    const processor = new AudioProcessor({ agc: { targetDbfs: 0, maxGainDb: 24 } });
+
+    const output = processor.process(tone(1000, 0.5));
+    let peak = 0;
+    for (let i = 0; i < output.length; i += 2) {
+      peak = Math.max(peak, Math.abs(output.readInt16LE(i)));
+    }
+
+    expect(peak).toBeLessThan(32767);
+  });
+
+  it('should attenuate audio below the gate threshold', () => {
+    const processor = new AudioProcessor({ agc: false, noiseGate: { thresholdDbfs: -40, holdMs: 50, attenuationDb: -30 } });
+
+    const speech = processor.process(tone(500, 0.1));
+    const hiss = processor.process(tone(1000, 0.003));
+
+    expect(rms(speech, 1600)).toBeGreaterThan(0.06);
+    expect(rms(hiss, 8000)).toBeLessThan(0.0003);
+  });
+
+  it('should report clipping, levels and SNR', () => {
+    const processor = new AudioProcessor();
+    processor.process(tone(1000, 0.001));
+    processor.process(tone(1000, 1.2));
+
+    const report = processor.getReport();
+
+    expect(report.durationMs).toBe(2000);
+    expect(report.clippingRatio).toBeGreaterThan(0.1);
+    expect(report.issues).toContain('clipping');
+    expect(report.peakDbfs).toBeCloseTo(0, 0);
+    expect(report.snrDb).toBeGreaterThan(30);
+  });
+
+  it('should emit periodic reports', () => {
+    const processor = new AudioProcessor({ reportIntervalMs: 500 });
+    const reports: any[] = [];
+    processor.on('report', (report) => reports.push(report));
+
+    for (let i = 0; i < 10; i++) {
+      processor.process(tone(100, 0.1));
+    }
+
+    expect(reports.map((report) => report.durationMs)).toEqual([500, 1000]);
+  });
+});
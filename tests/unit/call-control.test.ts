@@ -0,0 +1,102 @@
+/**
+ * Call Control Unit Tests
+ *
+ * Tests the built-in end_call and transfer_call tools and which tools an
+ * agent's call control configuration enables, and that VoiceAgent acts on
+ * them once the reply has been spoken
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { VoiceAgent, VoiceAgentConfig } from '../../src/voice-agent/voice-agent';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel } from '../../src/testing';
+import {
+  callControlTools,
+  endCallTool,
+  transferCallTool,
+  END_CALL_TOOL,
+  TRANSFER_CALL_TOOL,
+} from '../../src/voice-agent/call-control';
+
+describe('call control tools', () => {
+  it('should enable only the tools an agent opts into', () => {
+    expect(callControlTools()).toEqual({});
+    expect(Object.keys(callControlTools({ endCall: true }))).toEqual([END_CALL_TOOL]);
+    expect(Object.keys(callControlTools({ endCall: true, transfer: { targets: ['sales'] } }))).toEqual([
+      END_CALL_TOOL,
+      TRANSFER_CALL_TOOL,
+    ]);
+  });
+
+  it('should never trigger filler speech', () => {
+    expect(endCallTool().filler).toBe(false);
+    expect(transferCallTool().filler).toBe(false);
+  });
+
+  it('should limit transfers to the configured targets and ask for a summary', () => {
+    const parameters = transferCallTool({ targets: ['sales', 'support'] }).parameters;
+
+    expect(parameters.safeParse({ target: 'support', reason: 'billing question', summary: 'Charged twice' }).success).toBe(true);
+    expect(parameters.safeParse({ target: 'legal', reason: 'billing question', summary: 'Charged twice' }).success).toBe(false);
+    expect(parameters.safeParse({ target: 'support', reason: 'billing question' }).success).toBe(false);
+  });
+
+  it('should leave the summary out when disabled', () => {
+    const parameters = transferCallTool({ summary: false }).parameters;
+
+    expect(parameters.safeParse({ target: '+15551234567', reason: 'wants a human' }).success).toBe(true);
+    expect(Object.keys(parameters.shape)).toEqual(['target', 'reason']);
+  });
+});
+
+describe('VoiceAgent call control', () => {
+  let voiceAgent: VoiceAgent;
+  let model: ScriptedLanguageModel;
+
+  const start = async (callControl: VoiceAgentConfig['agent']['callControl']) => {
+    voiceAgent = new VoiceAgent({
+      transport: { type: 'websocket' },
+      stt: { provider: new ScriptedSTTProvider({ fallback: '' }) },
+      agent: { model, instructions: 'You are a test assistant.', callControl },
+      tts: { provider: new ToneTTSProvider({ msPerCharacter: 5 }) },
+      logging: { level: 'error' },
+    });
+    await voiceAgent.initialize();
+  };
+
+  afterEach(async () => {
+    await voiceAgent.stop();
+  });
+
+  it('should end the call once the goodbye has been spoken', async () => {
+    model = new ScriptedLanguageModel([
+      { text: 'Thanks for calling, goodbye!', toolCalls: [{ toolName: 'end_call', args: { reason: 'done' } }] },
+      '',
+    ]);
+    await start({ endCall: true });
+    const ended = new Promise((resolve) => voiceAgent.once('session.ended', resolve));
+    const audioEnded = vi.fn();
+    voiceAgent.on('audio.ended', audioEnded);
+
+    await voiceAgent.processText("That's all, thanks");
+
+    expect(await ended).toEqual({ reason: 'end_call' });
+    expect(audioEnded).toHaveBeenCalledWith('Thanks for calling, goodbye!');
+  });
+
+  it('should request a transfer after the reply', async () => {
+    model = new ScriptedLanguageModel([
+      {
+        text: 'Let me transfer you to billing.',
+        toolCalls: [{ toolName: 'transfer_call', args: { target: 'billing', reason: 'refund', summary: 'Wants a refund' } }],
+      },
+      '',
+    ]);
+    await start({ transfer: { targets: ['billing', 'support'] } });
+    const transfer = vi.fn();
+    voiceAgent.on('session.transfer_requested', transfer);
+
+    await voiceAgent.processText('I want a refund');
+
+    expect(transfer).toHaveBeenCalledWith({ target: 'billing', reason: 'refund', summary: 'Wants a refund' });
+  });
+});
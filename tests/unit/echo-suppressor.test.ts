@@ -0,0 +1,224 @@
+/**
+ * Echo Suppressor Unit Tests
+ *
+ * Plays synthetic speech as the reference and feeds it back as delayed,
+ * attenuated input to check echo detection, suppression and half-duplex gating,
+ * then checks that VoiceAgent gates its own playback out of the input
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EchoSuppressor } from '../../src/utils/echo-suppressor';
+import { VoiceAgent, VoiceAgentConfig } from '../../src/voice-agent/voice-agent';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel } from '../../src/testing';
+
+const SAMPLE_RATE = 16000;
+const CHUNK_MS = 20;
+
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
+
+/**
+ * Voiced syllables of random length and loudness separated by short pauses
+ */
+function speech(seconds: number, seed: number, pitch = 120): Float32Array {
+  const next = random(seed);
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  let i = 0;
+  while (i < samples.length) {
+    const syllable = Math.round((0.08 + 0.2 * next()) * SAMPLE_RATE);
+    const pause = Math.round((0.03 + 0.12 * next()) * SAMPLE_RATE);
+    const loudness = 0.05 + 0.25 * next();
+    for (let j = 0; j < syllable && i < samples.length; j++, i++) {
+      const envelope = Math.sin((Math.PI * j) / syllable);
+      samples[i] = loudness * envelope * Math.sin((2 * Math.PI * pitch * i) / SAMPLE_RATE);
+    }
+    i += pause;
+  }
+  return samples;
+}
+
+function delayed(signal: Float32Array, delayMs: number, gainDb: number): Float32Array {
+  const offset = Math.round((delayMs / 1000) * SAMPLE_RATE);
+  const gain = Math.pow(10, gainDb / 20);
+  return signal.map((_, i) => (i >= offset ? signal[i - offset] * gain : 0));
+}
+
+function pcm(samples: Float32Array): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((value, i) => buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value * 32768))), i * 2));
+  return buffer;
+}
+
+/**
+ * Feed input in real-time chunks starting at startMs; returns one analysis per chunk
+ */
+function feed(suppressor: EchoSuppressor, input: Float32Array, startMs = 0) {
+  const chunkSamples = (SAMPLE_RATE * CHUNK_MS) / 1000;
+  const results = [];
+  for (let offset = 0; offset < input.length; offset += chunkSamples) {
+    const chunk = pcm(input.subarray(offset, offset + chunkSamples));
+    results.push(suppressor.process(chunk, startMs + ((offset + chunkSamples) / SAMPLE_RATE) * 1000));
+  }
+  return results;
+}
+
+function share(results: Array<{ gated: boolean }>): number {
+  return results.filter((result) => result.gated).length / results.length;
+}
+
+describe('EchoSuppressor', () => {
+  it('should detect delayed, attenuated output as echo and estimate the delay', () => {
+    const suppressor = new EchoSuppressor();
+    const output = speech(3, 1);
+    suppressor.addReference(pcm(output), 0);
+
+    const results = feed(suppressor, delayed(output, 240, -12));
+    const settled = results.slice(30);
+
+    expect(settled.filter((result) => result.echo).length / settled.length).toBeGreaterThan(0.6);
+    expect(settled[settled.length - 1].delayMs).toBeGreaterThanOrEqual(220);
+    expect(settled[settled.length - 1].delayMs).toBeLessThanOrEqual(260);
+  });
+
+  it('should attenuate echo', () => {
+    const suppressor = new EchoSuppressor({ suppressionDb: -30 });
+    const output = speech(3, 2);
+    suppressor.addReference(pcm(output), 0);
+
+    const input = delayed(output, 150, -6);
+    const results = feed(suppressor, input);
+    const echoChunk = results.findIndex((result, index) => index > 40 && result.echo);
+    const peak = (buffer: Buffer) => Math.max(...Array.from({ length: buffer.length / 2 }, (_, i) => Math.abs(buffer.readInt16LE(i * 2))));
+
+    expect(echoChunk).toBeGreaterThan(0);
+    const chunkSamples = (SAMPLE_RATE * CHUNK_MS) / 1000;
+    const original = pcm(input.subarray(echoChunk * chunkSamples, (echoChunk + 1) * chunkSamples));
+    expect(peak(results[echoChunk].audio)).toBeLessThan(peak(original) * 0.2);
+  });
+
+  it('should pass the caller speaking over the agent', () => {
+    const suppressor = new EchoSuppressor();
+    const output = speech(4, 3);
+    suppressor.addReference(pcm(output), 0);
+
+    // The agent talks alone for 1.5s, then the caller joins
+    const caller = speech(4, 99, 210).fill(0, 0, SAMPLE_RATE * 1.5);
+    const echo = delayed(output, 200, -20);
+    const results = feed(suppressor, caller.map((value, i) => value + echo[i]));
+
+    // Only chunks where the caller is audible; their pauses are echo alone
+    const chunkSamples = (SAMPLE_RATE * CHUNK_MS) / 1000;
+    const talking = results.filter((_, index) =>
+      caller.subarray(index * chunkSamples, (index + 1) * chunkSamples).some((value) => Math.abs(value) > 0.03)
+    );
+    expect(talking.length).toBeGreaterThan(50);
+    expect(share(talking)).toBeLessThan(0.1);
+    expect(results.slice(30, 75).filter((result) => result.echo).length).toBeGreaterThan(20);
+  });
+
+  it('should not gate input when nothing was played', () => {
+    const suppressor = new EchoSuppressor({ halfDuplex: true });
+
+    const results = feed(suppressor, speech(1, 4));
+
+    expect(share(results)).toBe(0);
+    expect(results.every((result) => !result.agentSpeaking)).toBe(true);
+  });
+
+  it('should gate quiet input in half-duplex mode but allow loud barge-in', () => {
+    const suppressor = new EchoSuppressor({ halfDuplex: true, bargeInThresholdDbfs: -30 });
+    suppressor.addReference(pcm(new Float32Array(SAMPLE_RATE * 2).fill(0.1)), 0);
+
+    const quiet = suppressor.process(pcm(new Float32Array(320).map((_, i) => 0.005 * Math.sin(i))), 500);
+    const loud = suppressor.process(pcm(new Float32Array(320).map((_, i) => 0.3 * Math.sin(i))), 520);
+
+    expect(quiet.agentSpeaking).toBe(true);
+    expect(quiet.gated).toBe(true);
+    expect(loud.gated).toBe(false);
+  });
+
+  it('should carry a sample split across input chunks', () => {
+    const suppressor = new EchoSuppressor();
+    const input = pcm(speech(1, 5).subarray(0, 640));
+
+    const first = suppressor.process(input.subarray(0, 641), 20);
+    const second = suppressor.process(input.subarray(641), 40);
+
+    expect(first.audio).toHaveLength(640);
+    expect(Buffer.concat([first.audio, second.audio])).toEqual(input);
+  });
+
+  it('should stop treating output as playing once the reference is cleared', () => {
+    const suppressor = new EchoSuppressor({ maxDelayMs: 500 });
+    suppressor.addReference(pcm(new Float32Array(SAMPLE_RATE * 5).fill(0.1)), 0);
+
+    suppressor.clearReference(1000);
+
+    expect(suppressor.isAgentSpeaking(1200)).toBe(true);
+    expect(suppressor.isAgentSpeaking(1600)).toBe(false);
+  });
+});
+
+describe('VoiceAgent echo gating', () => {
+  let voiceAgent: VoiceAgent;
+
+  // About two seconds of playback for the prompt below
+  const start = async (overrides: Partial<VoiceAgentConfig> = {}) => {
+    voiceAgent = new VoiceAgent({
+      transport: { type: 'websocket' },
+      stt: { provider: new ScriptedSTTProvider({ fallback: '' }) },
+      agent: { model: new ScriptedLanguageModel([]), instructions: 'You are a test assistant.' },
+      tts: { provider: new ToneTTSProvider({ msPerCharacter: 60 }) },
+      vad: { enabled: true, provider: 'energy', speechThresholdMs: 100, silenceThresholdMs: 300 },
+      audio: { processing: false, echoSuppression: { halfDuplex: true, bargeInThresholdDbfs: -20 } },
+      logging: { level: 'error' },
+      ...overrides,
+    });
+    await voiceAgent.initialize();
+  };
+
+  // Deterministic broadband noise at a given amplitude, fed in 20ms chunks
+  const feed = async (ms: number, amplitude: number) => {
+    const next = random(7);
+    const input = new Float32Array((SAMPLE_RATE * ms) / 1000).map(() => (next() * 2 - 1) * amplitude);
+    const audio = pcm(input);
+    for (let offset = 0; offset < audio.length; offset += 640) {
+      await voiceAgent.processAudio(audio.subarray(offset, offset + 640));
+    }
+  };
+
+  afterEach(async () => {
+    await voiceAgent.stop();
+  });
+
+  it('should not take quiet input during playback for speech', async () => {
+    await start();
+    const speechStarted = vi.fn();
+    voiceAgent.on('audio.input.buffer.speech_started', speechStarted);
+
+    await voiceAgent.say('Thanks for calling, how can I help?');
+    await feed(300, 0.05);
+    expect(speechStarted).not.toHaveBeenCalled();
+
+    await feed(300, 0.5);
+    expect(speechStarted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream silence to STT in place of gated input', async () => {
+    const stt = new ScriptedSTTProvider({ fallback: '' });
+    await start({ stt: { provider: stt, streaming: true } });
+
+    await voiceAgent.say('Thanks for calling, how can I help?');
+    await feed(300, 0.05);
+    await voiceAgent.commitAudio();
+
+    await vi.waitFor(() => expect(stt.calls).toHaveLength(1));
+    expect(stt.calls[0]).toHaveLength((SAMPLE_RATE * 300 * 2) / 1000);
+    expect(stt.calls[0].every((byte) => byte === 0)).toBe(true);
+  });
+});
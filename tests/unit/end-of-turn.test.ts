@@ -0,0 +1,158 @@
+/**
+ * End of Turn Unit Tests
+ *
+ * Tests the heuristic scorer, the silence window mapping and the
+ * LLM fallback for unsure scores
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EndOfTurnDetector,
+  HeuristicEndOfTurnScorer,
+  LLMEndOfTurnScorer,
+} from '../../src/voice-agent/end-of-turn';
+import { TurnTimer } from '../../src/voice-agent/turn-metrics';
+import { VoiceAgent } from '../../src/voice-agent/voice-agent';
+import { ScriptedLanguageModel, ScriptedSTTProvider, ToneTTSProvider } from '../../src/testing';
+
+const scorer = new HeuristicEndOfTurnScorer();
+
+describe('HeuristicEndOfTurnScorer', () => {
+  it('should score trailing conjunctions and fillers as unfinished', () => {
+    const conjunction = scorer.score({ transcript: 'I want to change my flight and' });
+    const filler = scorer.score({ transcript: 'my account number is, uh' });
+
+    expect(conjunction.probability).toBeLessThan(0.3);
+    expect(conjunction.reasons).toContain('trailing_conjunction');
+    expect(filler.probability).toBeLessThan(0.2);
+    expect(filler.reasons).toEqual(expect.arrayContaining(['trailing_filler']));
+  });
+
+  it('should score complete sentences and questions as finished', () => {
+    expect(scorer.score({ transcript: 'I want to change my flight.' }).probability).toBeGreaterThan(0.6);
+    expect(scorer.score({ transcript: 'What time do you close?' }).probability).toBeGreaterThan(0.75);
+    expect(scorer.score({ transcript: 'Yes.', lastAgentMessage: 'Shall I book it?' }).probability).toBeGreaterThan(0.9);
+  });
+
+  it('should wait for the rest of a number the agent asked for', () => {
+    const lastAgentMessage = 'Can I have your phone number?';
+
+    const partial = scorer.score({ transcript: 'It is 555 123', lastAgentMessage });
+    const complete = scorer.score({ transcript: 'It is 555 123 4567.', lastAgentMessage });
+    const spoken = scorer.score({ transcript: 'four one five', lastAgentMessage: 'What is your PIN?' });
+
+    expect(partial.reasons).toContain('incomplete_number');
+    expect(partial.probability).toBeLessThan(0.2);
+    expect(complete.reasons).toContain('number_complete');
+    expect(complete.probability).toBeGreaterThan(0.7);
+    expect(spoken.reasons).toContain('incomplete_number');
+  });
+
+  it('should treat preamble after a question as unanswered', () => {
+    const result = scorer.score({ transcript: 'Let me see', lastAgentMessage: 'Which date works for you?' });
+
+    expect(result.reasons).toContain('unanswered_question');
+    expect(result.probability).toBeLessThan(0.2);
+  });
+});
+
+describe('EndOfTurnDetector', () => {
+  it('should map scores to the silence window around the base threshold', () => {
+    const detector = new EndOfTurnDetector({ minSilenceMs: 200, maxSilenceMs: 2000 }, 700);
+
+    expect(detector.silenceFor(0.5)).toBe(700);
+    expect(detector.silenceFor(1)).toBe(200);
+    expect(detector.silenceFor(0)).toBe(2000);
+    expect(detector.silenceFor(0.25)).toBe(1350);
+  });
+
+  it('should hold only for the silence not yet observed', async () => {
+    const detector = new EndOfTurnDetector({ minSilenceMs: 200, maxSilenceMs: 2000 }, 700);
+
+    const finished = await detector.evaluate({ transcript: 'That is all, thanks.' }, 600);
+    const unfinished = await detector.evaluate({ transcript: 'I was wondering if' }, 300);
+
+    expect(finished.silenceMs).toBeLessThan(600);
+    expect(finished.holdMs).toBe(0);
+    expect(finished.scorer).toBe('heuristic');
+    expect(unfinished.holdMs).toBe(unfinished.silenceMs - 300);
+    expect(unfinished.silenceMs).toBeGreaterThan(1500);
+  });
+
+  it('should ask the model only when the heuristic is unsure', async () => {
+    const model = new ScriptedLanguageModel(['{"probability": 0.9, "reason": "complete request"}']);
+    const detector = new EndOfTurnDetector({ llm: { model } }, 700);
+
+    const unsure = await detector.evaluate({ transcript: 'book me a table for two tonight' }, 0);
+    const clear = await detector.evaluate({ transcript: 'and then' }, 0);
+
+    expect(unsure).toMatchObject({ scorer: 'llm', probability: 0.9, reasons: ['complete request'] });
+    expect(clear.scorer).toBe('heuristic');
+    expect(model.calls).toHaveLength(1);
+  });
+
+  it('should run the model as an agent with its settings and abort signal', async () => {
+    const model = new ScriptedLanguageModel(['{"probability": 0.2, "reason": "mid-sentence"}']);
+    const scorer = new LLMEndOfTurnScorer({ model, modelSettings: { temperature: 0.1, maxTokens: 40 } });
+
+    const score = await scorer.score({ transcript: 'my number is 4 5', lastAgentMessage: 'What is your phone number?' });
+
+    expect(score).toEqual({ probability: 0.2, reasons: ['mid-sentence'] });
+    expect(model.calls[0]).toMatchObject({ temperature: 0.1, maxTokens: 40 });
+    expect(model.calls[0].abortSignal).toBeInstanceOf(AbortSignal);
+    expect(JSON.stringify(model.calls[0].prompt)).toContain('Agent: What is your phone number?\\nCaller so far: my number is 4 5');
+  });
+
+  it('should default the scoring model to the voice agent model', () => {
+    const voiceAgent = new VoiceAgent({
+      transport: { type: 'websocket' },
+      stt: { provider: new ScriptedSTTProvider() },
+      agent: { model: new ScriptedLanguageModel([]), instructions: 'You are a test assistant.' },
+      tts: { provider: new ToneTTSProvider() },
+      endOfTurn: { llm: { timeoutMs: 500 } },
+      logging: { level: 'error' },
+    });
+
+    expect(voiceAgent).toBeDefined();
+  });
+
+  it('should reject a classification outside the schema', async () => {
+    const scorer = new LLMEndOfTurnScorer({ model: new ScriptedLanguageModel(['{"probability": 2}']) });
+
+    await expect(scorer.score({ transcript: 'book me a table' })).rejects.toThrow();
+  });
+
+  it('should keep the heuristic score when the model fails', async () => {
+    const model = new ScriptedLanguageModel([{ error: new Error('rate limited') }]);
+    const detector = new EndOfTurnDetector({ llm: { model } }, 700);
+
+    const decision = await detector.evaluate({ transcript: 'book me a table for two tonight' }, 0);
+
+    expect(decision.scorer).toBe('heuristic');
+    expect(decision.probability).toBe(0.5);
+    expect(decision.reasons).toContain('llm_unavailable');
+  });
+
+  it('should use a custom scorer', async () => {
+    const detector = new EndOfTurnDetector(
+      { scorer: { name: 'always-done', score: () => ({ probability: 1, reasons: ['custom'] }) } },
+      700
+    );
+
+    expect(await detector.evaluate({ transcript: 'and' }, 0)).toMatchObject({ scorer: 'always-done', holdMs: 250 });
+  });
+});
+
+describe('TurnTimer end-of-turn decisions', () => {
+  it('should include recorded decisions in the turn metrics', async () => {
+    const detector = new EndOfTurnDetector({}, 700);
+    const timer = new TurnTimer(1, 'audio', 1000);
+
+    timer.recordEndOfTurn([await detector.evaluate({ transcript: 'my number is' }, 250)]);
+
+    expect(new TurnTimer(2, 'audio').finish().endOfTurn).toBeUndefined();
+    expect(timer.finish().endOfTurn).toEqual([
+      expect.objectContaining({ transcript: 'my number is', reasons: ['incomplete_phrase'] }),
+    ]);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Fallback Provider Unit Tests
+ *
+ * Tests the circuit breaker and the STT/TTS fallback chains using
+ * in-memory providers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '../../src/utils/retry';
+import { FallbackSTTProvider } from '../../src/providers/stt/fallback';
+import { FallbackTTSProvider } from '../../src/providers/tts/fallback';
+import type { AudioFormat, STTProvider, TTSProvider } from '../../src/types';
+
+const PCM_16K: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm' };
+
+function ttsProvider(synthesize: (text: string) => AsyncIterable<Buffer>): TTSProvider {
+  return {
+    outputFormat: PCM_16K,
+    synthesize: vi.fn(synthesize),
+    synthesizeStream: vi.fn(),
+    stop: vi.fn(async () => undefined),
+  };
+}
+
+function sttProvider(transcribe: (audio: Buffer) => Promise<string>, stream?: STTProvider['transcribeStream']): STTProvider {
+  return {
+    transcribe: vi.fn(transcribe),
+    transcribeStream: vi.fn(stream ?? (async function* () {})),
+    stop: vi.fn(async () => undefined),
+  };
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+  }
+  return items;
+}
+
+function failing(error: Error): AsyncIterable<never> {
+  return {
+    [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(error) }),
+  };
+}
+
+async function* chunks(...buffers: Buffer[]) {
+  yield* buffers;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open once the failure rate crosses the threshold', () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 4, failureRateThreshold: 0.5 });
+
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should count slow calls as failures', () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 2, slowCallThresholdMs: 100 });
+
+    breaker.recordSuccess(500);
+    breaker.recordSuccess(800);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should allow a single half-open probe after the open duration', () => {
+    vi.useFakeTimers();
+    const states: string[] = [];
+    const breaker = new CircuitBreaker({
+      minimumCalls: 1,
+      openDurationMs: 1000,
+      onStateChange: (state) => states.push(state),
+    });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(states).toEqual(['open', 'half_open', 'closed']);
+  });
+
+  it('should back off the open duration after a failed probe', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ minimumCalls: 1, openDurationMs: 1000, backoffMultiplier: 2 });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(false);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
+
+describe('FallbackTTSProvider', () => {
+  it('should fail over to the next provider and emit provider.failover', async () => {
+    const primary = ttsProvider(() => failing(new Error('503')));
+    const secondary = ttsProvider(async function* () {
+      yield Buffer.from([1, 2]);
+    });
+    const tts = new FallbackTTSProvider([
+      { name: 'elevenlabs', provider: primary },
+      { name: 'openai', provider: secondary },
+    ]);
+    const failovers: any[] = [];
+    tts.on('provider.failover', (event) => failovers.push(event));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const audio = await collect(tts.synthesize('Hello.'));
+
+    expect(Buffer.concat(audio)).toEqual(Buffer.from([1, 2]));
+    expect(failovers).toEqual([
+      expect.objectContaining({ kind: 'tts', from: 'elevenlabs', to: 'openai', reason: 'error' }),
+    ]);
+    expect(tts.activeProvider).toBe('openai');
+  });
+
+  it('should not resynthesize a sentence whose audio was already handed out', async () => {
+    const primary = ttsProvider(async function* () {
+      yield Buffer.from([1, 1]);
+      throw new Error('connection reset');
+    });
+    const secondary = ttsProvider(async function* () {
+      yield Buffer.from([2, 2]);
+    });
+    const tts = new FallbackTTSProvider(
+      [
+        { name: 'primary', provider: primary },
+        { name: 'secondary', provider: secondary },
+      ],
+      { circuitBreaker: { minimumCalls: 1, openDurationMs: 60000 } }
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const audio: Buffer[] = [];
+    await expect(async () => {
+      for await (const chunk of tts.synthesize('Second sentence.')) {
+        audio.push(chunk);
+      }
+    }).rejects.toThrow('connection reset');
+
+    expect(audio).toEqual([Buffer.from([1, 1])]);
+    expect(secondary.synthesize).not.toHaveBeenCalled();
+
+    // The failure still counts: the next sentence goes to the fallback
+    expect(await collect(tts.synthesize('Third sentence.'))).toEqual([Buffer.from([2, 2])]);
+    expect(secondary.synthesize).toHaveBeenCalledWith('Third sentence.', {});
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    const primary = ttsProvider(() => failing(new Error('down')));
+    const secondary = ttsProvider(async function* () {
+      yield Buffer.from([0, 0]);
+    });
+    const tts = new FallbackTTSProvider(
+      [
+        { name: 'primary', provider: primary },
+        { name: 'secondary', provider: secondary },
+      ],
+      { circuitBreaker: { minimumCalls: 1, openDurationMs: 60000 } }
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await collect(tts.synthesize('One.'));
+    await collect(tts.synthesize('Two.'));
+
+    expect(primary.synthesize).toHaveBeenCalledTimes(1);
+    expect(secondary.synthesize).toHaveBeenCalledTimes(2);
+  });
+
+  it('should normalize fallback audio to the primary output format', async () => {
+    const primary = ttsProvider(() => failing(new Error('down')));
+    const secondary: TTSProvider = {
+      ...ttsProvider(async function* () {
+        yield Buffer.alloc(480 * 2);
+      }),
+      outputFormat: { sampleRate: 24000, channels: 1, bitDepth: 16, encoding: 'pcm' },
+    };
+    const tts = new FallbackTTSProvider([
+      { name: 'primary', provider: primary },
+      { name: 'secondary', provider: secondary },
+    ]);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const audio = Buffer.concat(await collect(tts.synthesize('Hi.')));
+
+    expect(tts.outputFormat.sampleRate).toBe(16000);
+    expect(audio).toHaveLength(320 * 2);
+  });
+
+  it('should not fail over when the request was aborted', async () => {
+    const controller = new AbortController();
+    const primary = ttsProvider(() => {
+      controller.abort();
+      return failing(new Error('aborted'));
+    });
+    const secondary = ttsProvider(async function* () {
+      yield Buffer.from([0, 0]);
+    });
+    const tts = new FallbackTTSProvider([
+      { name: 'primary', provider: primary },
+      { name: 'secondary', provider: secondary },
+    ]);
+
+    await expect(collect(tts.synthesize('Hi.', { signal: controller.signal }))).rejects.toThrow('aborted');
+    expect(secondary.synthesize).not.toHaveBeenCalled();
+  });
+});
+
+describe('FallbackSTTProvider', () => {
+  it('should fail over batch transcription', async () => {
+    const stt = new FallbackSTTProvider([
+      { name: 'deepgram', provider: sttProvider(async () => Promise.reject(new Error('timeout'))) },
+      { name: 'openai', provider: sttProvider(async () => 'hello') },
+    ]);
+    const failover = vi.fn();
+    stt.on('provider.failover', failover);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await stt.transcribe(Buffer.alloc(4))).toBe('hello');
+    expect(failover).toHaveBeenCalledWith(expect.objectContaining({ from: 'deepgram', to: 'openai' }));
+  });
+
+  it('should replay the current utterance to the fallback stream', async () => {
+    const received: Buffer[] = [];
+    const primary: STTProvider = {
+      ...sttProvider(async () => ''),
+      transcribeStreamResults: async function* (audio) {
+        for await (const chunk of audio) {
+          if (chunk[0] === 2) {
+            throw new Error('socket closed');
+          }
+          yield { text: 'full', isFinal: false };
+        }
+      },
+    };
+    const secondary = sttProvider(async () => '', async function* (audio) {
+      for await (const chunk of audio) {
+        received.push(chunk);
+      }
+      yield 'full utterance';
+    });
+    const stt = new FallbackSTTProvider([
+      { name: 'primary', provider: primary },
+      { name: 'secondary', provider: secondary },
+    ]);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const texts = await collect(
+      stt.transcribeStream(chunks(Buffer.from([1]), Buffer.from([2]), Buffer.from([3])))
+    );
+
+    expect(texts).toEqual(['full utterance']);
+    expect(received).toEqual([Buffer.from([1]), Buffer.from([2]), Buffer.from([3])]);
+  });
+
+  it('should throw the last error when every provider fails', async () => {
+    const stt = new FallbackSTTProvider([
+      { name: 'a', provider: sttProvider(async () => Promise.reject(new Error('a down'))) },
+      { name: 'b', provider: sttProvider(async () => Promise.reject(new Error('b down'))) },
+    ]);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(stt.transcribe(Buffer.alloc(4))).rejects.toThrow('b down');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Greeting Unit Tests
+ *
+ * Tests the caller context prompt, the generated opening line, and that
+ * VoiceAgent speaks first on inbound calls and answers the callee on outbound ones
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { describeCallerContext, generateGreeting } from '../../src/voice-agent/greeting';
+import { VoiceAgent, VoiceAgentConfig } from '../../src/voice-agent/voice-agent';
+import { MemorySession } from '../../src/agents-sdk/index';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel } from '../../src/testing';
+
+describe('describeCallerContext', () => {
+  it('should list context fields and skip empty ones', () => {
+    expect(describeCallerContext({ name: 'Ada', account: 1234, plan: '', order: { id: 'A1' } })).toBe(
+      'name: Ada\naccount: 1234\norder: {"id":"A1"}'
+    );
+    expect(describeCallerContext('  Returning customer  ')).toBe('Returning customer');
+    expect(describeCallerContext(undefined)).toBe('');
+  });
+});
+
+describe('generateGreeting', () => {
+  it('should open with the agent persona, the instructions and the caller context', async () => {
+    const model = new ScriptedLanguageModel(['Hi Ada, this is Sam from Acme about your order.']);
+
+    const text = await generateGreeting(
+      model,
+      { mode: 'outbound', instructions: 'Mention the delayed order.', context: { name: 'Ada' } },
+      { agentInstructions: 'You are Sam from Acme.', calleeSaid: 'Hello?' }
+    );
+
+    expect(text).toBe('Hi Ada, this is Sam from Acme about your order.');
+    const prompt = JSON.stringify(model.calls[0].prompt);
+    expect(prompt).toContain('You are Sam from Acme.');
+    expect(prompt).toContain('Mention the delayed order.');
+    expect(prompt).toContain('callee has just picked up');
+    expect(prompt).toContain('name: Ada');
+    expect(prompt).toContain('The callee answered: \\"Hello?\\"');
+  });
+
+  it('should fail when the model says nothing', async () => {
+    const model = new ScriptedLanguageModel(['  ']);
+
+    await expect(generateGreeting(model, { instructions: 'Greet the caller.' })).rejects.toThrow('no text');
+  });
+});
+
+describe('VoiceAgent greeting', () => {
+  let voiceAgent: VoiceAgent;
+
+  const create = (model: ScriptedLanguageModel, session: MemorySession, greeting: VoiceAgentConfig['greeting']) => {
+    voiceAgent = new VoiceAgent({
+      transport: { type: 'websocket' },
+      stt: { provider: new ScriptedSTTProvider({ fallback: '' }) },
+      agent: { model, instructions: 'You are a test assistant.', session },
+      tts: { provider: new ToneTTSProvider({ msPerCharacter: 5 }) },
+      greeting,
+      logging: { level: 'error' },
+    });
+  };
+  const nextEvent = (event: string) => new Promise((resolve) => voiceAgent.once(event, resolve));
+
+  afterEach(async () => {
+    await voiceAgent.stop();
+  });
+
+  it('should greet inbound callers first', async () => {
+    const session = new MemorySession('inbound');
+    create(new ScriptedLanguageModel([]), session, { text: 'Hi, thanks for calling Acme.' });
+    const greeted = nextEvent('response.done');
+
+    await voiceAgent.initialize();
+
+    expect(await greeted).toEqual({ status: 'completed', text: 'Hi, thanks for calling Acme.' });
+    expect(await session.getHistory()).toEqual([{ role: 'assistant', content: 'Hi, thanks for calling Acme.' }]);
+  });
+
+  it('should answer the callee of an outbound call with a generated greeting', async () => {
+    const session = new MemorySession('outbound');
+    const model = new ScriptedLanguageModel(['Hi Sam, this is Acme calling about your order.']);
+    create(model, session, {
+      mode: 'outbound',
+      instructions: 'Introduce yourself.',
+      context: { name: 'Sam' },
+      text: 'Hello from Acme.',
+    });
+    await voiceAgent.initialize();
+    const greeted = nextEvent('response.done');
+
+    await voiceAgent.processText('Hello?');
+
+    expect(await greeted).toEqual({ status: 'completed', text: 'Hi Sam, this is Acme calling about your order.' });
+    expect(JSON.stringify(model.calls[0].prompt)).toContain('The callee answered: \\"Hello?\\"');
+    expect(await session.getHistory()).toEqual([
+      { role: 'user', content: 'Hello?' },
+      { role: 'assistant', content: 'Hi Sam, this is Acme calling about your order.' },
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Pronunciation Lexicon Unit Tests
+ *
+ * Tests term matching, alias and phoneme output per provider dialect,
+ * session layering and loading from JSON
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PronunciationLexicon, validatePronunciations } from '../../src/utils/pronunciation-lexicon';
+import { renderSpeechMarkup } from '../../src/utils/speech-markup';
+import { SpeechNormalizer } from '../../src/utils/speech-normalizer';
+
+const lexicon = new PronunciationLexicon([
+  { grapheme: 'Acme', alias: 'Ack-mee' },
+  { grapheme: 'Acme Pro', alias: 'Ack-mee Pro' },
+  { grapheme: 'US', alias: 'U.S.' },
+  { grapheme: 'Nguyen', phoneme: 'wɪn', alias: 'win' },
+]);
+
+describe('PronunciationLexicon', () => {
+  it('should replace whole words with the longest matching term', () => {
+    expect(lexicon.apply('Try acme or Acme Pro, not Acmeish.')).toBe('Try Ack-mee or Ack-mee Pro, not Acmeish.');
+  });
+
+  it('should match acronyms case-sensitively', () => {
+    expect(lexicon.apply('Call us in the US')).toBe('Call us in the U.S.');
+  });
+
+  it('should emit phoneme markup with the alias as fallback', () => {
+    const marked = lexicon.apply('Ask Ms Nguyen');
+
+    expect(marked).toBe('Ask Ms <phoneme alphabet="ipa" ph="wɪn">win</phoneme>');
+    expect(renderSpeechMarkup(marked, 'ssml').text).toBe(marked);
+    expect(renderSpeechMarkup(marked, 'elevenlabs').text).toBe(marked);
+    expect(renderSpeechMarkup(marked, 'plain').text).toBe('Ask Ms win');
+  });
+
+  it('should leave existing markup alone and survive normalization', () => {
+    const marked = lexicon.apply('<say-as interpret-as="characters">US</say-as> Acme costs $5');
+
+    expect(marked).toBe('<say-as interpret-as="characters">US</say-as> Ack-mee costs $5');
+    expect(new SpeechNormalizer().normalize(lexicon.apply('Nguyen paid $5')))
+      .toBe('<phoneme alphabet="ipa" ph="wɪn">win</phoneme> paid five dollars');
+  });
+
+  it('should layer session entries over the base lexicon', () => {
+    const session = lexicon.extend([{ grapheme: 'Acme', alias: 'Ak-me' }]);
+
+    expect(session.apply('Acme')).toBe('Ak-me');
+    expect(lexicon.apply('Acme')).toBe('Ack-mee');
+    expect(session.size).toBe(lexicon.size);
+  });
+
+  it('should validate entries', () => {
+    expect(validatePronunciations([{ grapheme: 'SKU', alias: 'skew' }])).toEqual([]);
+    expect(validatePronunciations([{ grapheme: 'SKU' }, { alias: 'x' }, { grapheme: 'A1', phoneme: 'x', alphabet: 'abc' }]))
+      .toEqual(['"SKU" needs an alias or a phoneme', 'entry 1 needs a grapheme', '"A1" has unsupported alphabet "abc"']);
+    expect(() => new PronunciationLexicon([{ grapheme: '' }])).toThrow('Invalid pronunciation lexicon');
+  });
+
+  it('should load entries from a JSON file', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'lexicon-')), 'lexicon.json');
+    writeFileSync(path, JSON.stringify({ entries: [{ grapheme: 'XR-200', alias: 'X R two hundred' }] }));
+
+    const loaded = await PronunciationLexicon.load(path);
+
+    expect(loaded.apply('The XR-200 ships today')).toBe('The X R two hundred ships today');
+  });
+});
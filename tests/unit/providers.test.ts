@@ -5,9 +5,10 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createSTTProvider } from '../../src/providers/stt';
-import { createTTSProvider } from '../../src/providers/tts';
-import { createVADProvider } from '../../src/providers/vad';
+import { z } from 'zod';
+import { createSTTProvider, registerSTTProvider, getSTTProviderNames } from '../../src/providers/stt';
+import { createTTSProvider, registerTTSProvider } from '../../src/providers/tts';
+import { createVADProvider, registerVADProvider } from '../../src/providers/vad';
 
 describe('STT Providers', () => {
   describe('createSTTProvider', () => {
@@ -140,3 +141,62 @@ describe('VAD Providers', () => {
   });
 });
 
+describe('Provider Registry', () => {
+  it('should list built-in providers', () => {
+    expect(getSTTProviderNames()).toEqual(expect.arrayContaining(['deepgram', 'assemblyai', 'openai']));
+  });
+
+  it('should create a registered custom TTS provider with validated options', () => {
+    const create = vi.fn((options: { apiKey: string; speed: number }) => ({
+      speed: options.speed,
+      synthesize: vi.fn(),
+      synthesizeStream: vi.fn(),
+      stop: vi.fn(),
+    }));
+    registerTTSProvider('in-house', {
+      schema: z.object({ apiKey: z.string(), speed: z.number().default(1) }),
+      create,
+    });
+
+    const provider = createTTSProvider({ provider: 'in-house', apiKey: 'key' });
+
+    expect(create).toHaveBeenCalledWith({ apiKey: 'key', speed: 1 });
+    expect(provider).toHaveProperty('speed', 1);
+  });
+
+  it('should merge config.config into the options', () => {
+    const create = vi.fn(() => ({ transcribe: vi.fn(), transcribeStream: vi.fn(), stop: vi.fn() }));
+    registerSTTProvider('on-prem', {
+      schema: z.object({ endpoint: z.string().url() }),
+      create,
+    });
+
+    createSTTProvider({ provider: 'on-prem', config: { endpoint: 'https://stt.internal' } });
+
+    expect(create).toHaveBeenCalledWith({ endpoint: 'https://stt.internal' });
+  });
+
+  it('should reject options that fail the schema', () => {
+    expect(() => createTTSProvider({ provider: 'elevenlabs', apiKey: 'key' })).toThrow(
+      /Invalid options for TTS provider 'elevenlabs': voiceId: ElevenLabs requires voiceId/
+    );
+    expect(() => createTTSProvider({ provider: 'azure', apiKey: 'key' })).toThrow(/region/);
+  });
+
+  it('should reject unknown options for built-in providers', () => {
+    expect(() => createSTTProvider({ provider: 'deepgram', apiKey: 'key', modle: 'nova-2' } as any)).toThrow(
+      /Invalid options for STT provider 'deepgram': Unrecognized key\(s\) in object: 'modle'/
+    );
+    expect(() => createTTSProvider({ provider: 'cartesia', apiKey: 'key', config: { voice: 'x' } })).toThrow(/'voice'/);
+    expect(() =>
+      createVADProvider({ provider: 'energy', enabled: true, silenceThresholdMs: 700, speechThresholdMs: 300, config: { treshold: 0.1 } })
+    ).toThrow(/'treshold'/);
+  });
+
+  it('should select a registered VAD provider by name', () => {
+    const vad = { detect: vi.fn(), start: vi.fn(), stop: vi.fn() };
+    registerVADProvider('always-on', { schema: z.object({}), create: () => vad });
+
+    expect(createVADProvider({ provider: 'always-on', enabled: true, silenceThresholdMs: 700, speechThresholdMs: 300 })).toBe(vad);
+  });
+});
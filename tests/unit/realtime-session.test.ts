@@ -0,0 +1,395 @@
+/**
+ * Realtime Session Unit Tests
+ *
+ * Tests the protocol bridge between a WebSocketConnection and a VoiceAgent
+ * using in-memory stand-ins for both.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { RealtimeSession, toAgentUpdate } from '../../src/server/realtime-session';
+
+class FakeConnection extends EventEmitter {
+  events: any[] = [];
+  close = vi.fn();
+
+  sendEvent(event: any) {
+    this.events.push(event);
+  }
+
+  ofType(type: string) {
+    return this.events.filter((event) => event.type === type);
+  }
+}
+
+class FakeAgent extends EventEmitter {
+  initialize = vi.fn(async () => undefined);
+  processAudio = vi.fn(async () => undefined);
+  processText = vi.fn(async (text: string) => {
+    this.emit('transcription', text);
+    this.emit('response.started');
+    this.emit('response.text.delta', 'Hello ');
+    this.emit('response.text.delta', 'there.');
+    this.emit('audio.chunk', Buffer.from([1, 2, 3, 4]));
+    this.emit('response.text', 'Hello there.');
+    this.emit('response.done', { status: 'completed', text: 'Hello there.' });
+  });
+  commitAudio = vi.fn(async () => undefined);
+  clearAudioBuffer = vi.fn();
+  updateSession = vi.fn();
+  interrupt = vi.fn(async () => undefined);
+  stop = vi.fn(async () => undefined);
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('RealtimeSession', () => {
+  let connection: FakeConnection;
+  let agent: FakeAgent;
+  let factory: ReturnType<typeof vi.fn>;
+  let session: RealtimeSession;
+
+  beforeEach(() => {
+    connection = new FakeConnection();
+    agent = new FakeAgent();
+    factory = vi.fn(async () => agent);
+    session = new RealtimeSession('sess_1', connection as any, factory as any);
+  });
+
+  it('should create one agent on session.create and reply with session.created', async () => {
+    connection.emit('message', {
+      type: 'session.create',
+      session: { instructions: 'Be brief', turn_detection: { type: 'server_vad', silence_duration_ms: 500 } },
+    });
+    await flush();
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(agent.initialize).toHaveBeenCalled();
+    expect(agent.updateSession).toHaveBeenCalledWith({
+      instructions: 'Be brief',
+      vad: { silenceThresholdMs: 500 },
+    });
+
+    const [created] = connection.ofType('session.created');
+    expect(created.session.id).toBe('sess_1');
+    expect(created.session.turn_detection.silence_duration_ms).toBe(500);
+  });
+
+  it('should pass negotiated audio formats to the agent', async () => {
+    connection.emit('message', {
+      type: 'session.create',
+      session: { input_audio_format: 'g711_ulaw', output_audio_format: 'g711_ulaw' },
+    });
+    await flush();
+
+    expect(agent.updateSession).toHaveBeenCalledWith({
+      audio: { inputFormat: 'g711_ulaw', outputFormat: 'g711_ulaw' },
+    });
+    const [created] = connection.ofType('session.created');
+    expect(created.session.input_audio_format).toBe('g711_ulaw');
+  });
+
+  it('should reject unsupported audio formats', async () => {
+    connection.emit('message', { type: 'session.create', session: { input_audio_format: 'opus' } });
+    await flush();
+
+    expect(factory).not.toHaveBeenCalled();
+    expect(connection.ofType('error')[0].error.code).toBe('unsupported_audio_format');
+  });
+
+  it('should pass pronunciations to the agent and reject invalid ones', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+    connection.emit('message', {
+      type: 'session.update',
+      session: { pronunciations: [{ grapheme: 'SQL', alias: 'sequel', case_sensitive: true }] },
+    });
+    connection.emit('message', { type: 'session.update', session: { pronunciations: [{ grapheme: 'Acme' }] } });
+    await flush();
+
+    expect(agent.updateSession).toHaveBeenCalledTimes(1);
+    expect(agent.updateSession).toHaveBeenCalledWith({
+      pronunciations: [{ grapheme: 'SQL', alias: 'sequel', caseSensitive: true }],
+    });
+    expect(connection.ofType('session.updated')[0].session.pronunciations).toHaveLength(1);
+    expect(connection.ofType('error')[0].error.code).toBe('invalid_pronunciation');
+  });
+
+  it('should append base64 and binary audio to the agent', async () => {
+    connection.emit('message', {
+      type: 'input_audio_buffer.append',
+      audio: Buffer.from([1, 2]).toString('base64'),
+    });
+    connection.emit('audio-data', Buffer.from([3, 4]));
+    await flush();
+
+    expect(agent.processAudio).toHaveBeenCalledWith(Buffer.from([1, 2]));
+    expect(agent.processAudio).toHaveBeenCalledWith(Buffer.from([3, 4]));
+  });
+
+  it('should process input audio one chunk at a time, in order', async () => {
+    const processed: number[] = [];
+    let active = 0;
+    let maxActive = 0;
+    // Resolves on a later tick, like a VAD that runs off the event loop
+    agent.processAudio.mockImplementation(async (audio: Buffer) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5 - audio[0]));
+      processed.push(audio[0]);
+      active--;
+    });
+
+    connection.emit('audio-data', Buffer.from([1, 0]));
+    connection.emit('message', {
+      type: 'input_audio_buffer.append',
+      audio: Buffer.from([2, 0]).toString('base64'),
+    });
+    connection.emit('audio-data', Buffer.from([3, 0]));
+    await session.handleAudio(Buffer.from([4, 0]));
+
+    expect(processed).toEqual([1, 2, 3, 4]);
+    expect(maxActive).toBe(1);
+  });
+
+  it('should keep processing input audio after a chunk fails', async () => {
+    agent.processAudio.mockRejectedValueOnce(new Error('decode failed'));
+
+    await expect(session.handleAudio(Buffer.from([1, 0]))).rejects.toThrow('decode failed');
+    await session.handleAudio(Buffer.from([2, 0]));
+
+    expect(agent.processAudio).toHaveBeenLastCalledWith(Buffer.from([2, 0]));
+  });
+
+  it('should commit and clear the input audio buffer', async () => {
+    connection.emit('message', { type: 'input_audio_buffer.commit' });
+    connection.emit('message', { type: 'input_audio_buffer.clear' });
+    await flush();
+
+    expect(agent.commitAudio).toHaveBeenCalled();
+    expect(agent.clearAudioBuffer).toHaveBeenCalled();
+  });
+
+  it('should answer text items on response.create', async () => {
+    connection.emit('message', {
+      type: 'conversation.item.create',
+      item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Hi' }] },
+    });
+    connection.emit('message', { type: 'response.create' });
+    await flush();
+
+    expect(agent.processText).toHaveBeenCalledWith('Hi');
+    expect(connection.ofType('conversation.item.created')).toHaveLength(1);
+    // Text input is not reported back as an audio transcription
+    expect(connection.ofType('conversation.item.input_audio_transcription.completed')).toHaveLength(0);
+
+    const types = connection.events.map((event) => event.type);
+    expect(types).toEqual(
+      expect.arrayContaining([
+        'response.created',
+        'response.text.delta',
+        'response.audio.delta',
+        'response.text.done',
+        'response.audio.done',
+        'response.done',
+      ])
+    );
+
+    const [audio] = connection.ofType('response.audio.delta');
+    expect(Buffer.from(audio.delta, 'base64')).toEqual(Buffer.from([1, 2, 3, 4]));
+
+    const [done] = connection.ofType('response.done');
+    expect(done.response.status).toBe('completed');
+    expect(done.response.output[0].content[0].text).toBe('Hello there.');
+  });
+
+  it('should report an error for response.create without input', async () => {
+    connection.emit('message', { type: 'response.create' });
+    await flush();
+
+    const [error] = connection.ofType('error');
+    expect(error.error.code).toBe('no_input');
+    expect(agent.processText).not.toHaveBeenCalled();
+  });
+
+  it('should reject response.create while a response is active', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+    agent.emit('response.started');
+
+    connection.emit('message', {
+      type: 'conversation.item.create',
+      item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Hi' }] },
+    });
+    connection.emit('message', { type: 'response.create' });
+    await flush();
+
+    expect(connection.ofType('error')[0].error.code).toBe('conversation_already_has_active_response');
+    expect(agent.processText).not.toHaveBeenCalled();
+
+    // The item is answered once the active response is done
+    agent.emit('response.done', { status: 'completed', text: '' });
+    connection.emit('message', { type: 'response.create' });
+    await flush();
+
+    expect(agent.processText).toHaveBeenCalledWith('Hi');
+  });
+
+  it('should forward audio transcriptions with a shared item id', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    agent.emit('audio.input.buffer.speech_started', { audioStartMs: 100 });
+    agent.emit('audio.input.buffer.committed', { audioStartMs: 100, audioEndMs: 900 });
+    agent.emit('transcription', 'What time is it?');
+
+    const [started] = connection.ofType('audio.input.buffer.speech_started');
+    const [committed] = connection.ofType('audio.input.buffer.committed');
+    const [transcription] = connection.ofType('conversation.item.input_audio_transcription.completed');
+
+    expect(committed.item_id).toBe(started.item_id);
+    expect(transcription.item_id).toBe(started.item_id);
+    expect(transcription.transcript).toBe('What time is it?');
+  });
+
+  it('should forward spoken word timings as audio transcript deltas', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    agent.emit('response.started');
+    agent.emit('response.audio_transcript.delta', {
+      delta: 'Hello there.',
+      words: [{ word: 'Hello', startMs: 0, endMs: 300 }, { word: 'there.', startMs: 320, endMs: 700 }],
+      alignment: 'estimated',
+    });
+
+    expect(connection.ofType('response.audio_transcript.delta')[0]).toMatchObject({
+      content_index: 1,
+      delta: 'Hello there.',
+      words: [{ word: 'Hello', start_ms: 0, end_ms: 300 }, { word: 'there.', start_ms: 320, end_ms: 700 }],
+      alignment: 'estimated',
+    });
+  });
+
+  it('should forward viseme keyframes per audio chunk', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    agent.emit('response.started');
+    agent.emit('response.viseme.delta', {
+      chunkIndex: 2,
+      audioStartMs: 400,
+      visemes: [{ viseme: 'PP', offsetMs: 0 }, { viseme: 'aa', offsetMs: 60 }],
+    });
+
+    expect(connection.ofType('response.viseme.delta')[0]).toMatchObject({
+      content_index: 1,
+      chunk_index: 2,
+      audio_start_ms: 400,
+      visemes: [{ viseme: 'PP', offset_ms: 0 }, { viseme: 'aa', offset_ms: 60 }],
+    });
+  });
+
+  it('should announce the session ending and close the connection once it has ended', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    agent.emit('session.ending', { reason: 'idle_timeout', message: 'Goodbye!' });
+    expect(connection.ofType('session.ending')[0]).toMatchObject({ reason: 'idle_timeout', message: 'Goodbye!' });
+    expect(connection.close).not.toHaveBeenCalled();
+
+    agent.emit('session.ended', { reason: 'idle_timeout' });
+    await flush();
+
+    expect(connection.close).toHaveBeenCalledWith(1000, 'Session ended');
+    // Ending the session stopped the agent
+    expect(agent.stop).not.toHaveBeenCalled();
+    expect(agent.listenerCount('response.done')).toBe(0);
+  });
+
+  it('should forward transfer requests to the client', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    agent.emit('session.transfer_requested', { target: 'billing', reason: 'refund', summary: 'Wants a refund for order 1234' });
+
+    expect(connection.ofType('session.transfer_requested')[0]).toMatchObject({
+      target: 'billing',
+      reason: 'refund',
+      summary: 'Wants a refund for order 1234',
+    });
+    expect(connection.close).not.toHaveBeenCalled();
+  });
+
+  it('should forward answering machine detection results', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    agent.emit('call.amd_result', { result: 'machine', confidence: 0.95, reasons: ['beep'], decisionMs: 4200, transcript: 'Leave a message' });
+
+    expect(connection.ofType('call.amd_result')[0]).toMatchObject({
+      result: 'machine',
+      confidence: 0.95,
+      reasons: ['beep'],
+      decision_ms: 4200,
+      transcript: 'Leave a message',
+    });
+  });
+
+  it('should cancel the response on response.cancel', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    agent.emit('response.started');
+    connection.emit('message', { type: 'response.cancel' });
+    await flush();
+    agent.emit('response.done', { status: 'cancelled', text: '' });
+
+    expect(agent.interrupt).toHaveBeenCalled();
+    expect(connection.ofType('response.cancelled')).toHaveLength(1);
+    expect(connection.ofType('response.done')[0].response.status).toBe('cancelled');
+  });
+
+  it('should stop the agent when the connection closes', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+
+    connection.emit('close', 1000, 'bye');
+    await flush();
+
+    expect(agent.stop).toHaveBeenCalled();
+  });
+
+  it('should forward events raised while the agent stops', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+    agent.stop.mockImplementation(async () => {
+      agent.emit('error', new Error('STT stream closed'));
+    });
+
+    await session.close();
+
+    expect(connection.ofType('error')[0].error.message).toBe('STT stream closed');
+    expect(agent.listenerCount('error')).toBe(0);
+  });
+
+  it('should close once when closed repeatedly', async () => {
+    connection.emit('message', { type: 'session.create', session: {} });
+    await flush();
+    const closed = vi.fn();
+    session.on('closed', closed);
+
+    await Promise.all([session.close(), session.close()]);
+    await session.close();
+
+    expect(agent.stop).toHaveBeenCalledTimes(1);
+    expect(closed).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('toAgentUpdate', () => {
+  it('should only include provided settings', () => {
+    expect(toAgentUpdate({ temperature: 0.2 })).toEqual({ modelSettings: { temperature: 0.2 } });
+    expect(toAgentUpdate({ max_response_output_tokens: 'inf' })).toEqual({});
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Resampler Unit Tests
+ *
+ * Tests output length, signal fidelity, streaming consistency and
+ * anti-aliasing of the windowed-sinc resampler
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Resampler } from '../../src/utils/resampler';
+
+function sine(count: number, sampleRate: number, frequency: number, amplitude = 10000): Buffer {
+  const buffer = Buffer.alloc(count * 2);
+  for (let i = 0; i < count; i++) {
+    buffer.writeInt16LE(Math.round(amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate)), i * 2);
+  }
+  return buffer;
+}
+
+function samples(buffer: Buffer): number[] {
+  const result: number[] = [];
+  for (let i = 0; i + 1 < buffer.length; i += 2) {
+    result.push(buffer.readInt16LE(i));
+  }
+  return result;
+}
+
+function resample(input: Buffer, from: number, to: number): number[] {
+  const resampler = new Resampler(from, to);
+  return samples(Buffer.concat([resampler.process(input), resampler.flush()]));
+}
+
+function rms(values: number[]): number {
+  return Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / values.length);
+}
+
+describe('Resampler', () => {
+  it('should produce the expected number of samples', () => {
+    expect(resample(sine(160, 8000, 440), 8000, 16000)).toHaveLength(320);
+    expect(resample(sine(480, 24000, 440), 24000, 16000)).toHaveLength(320);
+    expect(resample(sine(960, 48000, 440), 48000, 8000)).toHaveLength(160);
+  });
+
+  it('should pass equal rates through untouched', () => {
+    const input = sine(100, 16000, 440);
+    expect(new Resampler(16000, 16000).process(input)).toBe(input);
+  });
+
+  it('should reproduce an in-band sine closely', () => {
+    const output = resample(sine(2400, 24000, 1000), 24000, 16000);
+    const expected = samples(sine(1600, 16000, 1000));
+
+    // Ignore the edges where the kernel runs into zero padding
+    const errors = output.slice(100, -100).map((value, i) => value - expected[i + 100]);
+    expect(rms(errors)).toBeLessThan(50);
+  });
+
+  it('should give identical output for chunked and one-shot input', () => {
+    const input = sine(1000, 24000, 700);
+    const oneShot = resample(input, 24000, 16000);
+
+    const resampler = new Resampler(24000, 16000);
+    const parts: Buffer[] = [];
+    for (let offset = 0; offset < input.length; offset += 37) {
+      parts.push(resampler.process(input.subarray(offset, offset + 37)));
+    }
+    parts.push(resampler.flush());
+
+    expect(samples(Buffer.concat(parts))).toEqual(oneShot);
+  });
+
+  it('should filter content above the target Nyquist rate when downsampling', () => {
+    // 6kHz cannot be represented at 8kHz and would alias to 2kHz without filtering
+    const output = resample(sine(4800, 48000, 6000), 48000, 8000);
+
+    expect(rms(output.slice(50, -50))).toBeLessThan(200);
+  });
+});
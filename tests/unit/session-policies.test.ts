@@ -0,0 +1,122 @@
+/**
+ * Session Policy Unit Tests
+ *
+ * Tests idle reprompts, the call duration limit and the failed-transcription
+ * limit, each ending with a goodbye, and that VoiceAgent ends its session on them
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionPolicies, DEFAULT_GOODBYES, type SessionPolicyConfig } from '../../src/voice-agent/session-policies';
+import { VoiceAgent } from '../../src/voice-agent/voice-agent';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel } from '../../src/testing';
+
+describe('SessionPolicies', () => {
+  let said: string[];
+  let ended: Array<{ reason: string; goodbye: string }>;
+  let busy: boolean;
+
+  const policies = (config: SessionPolicyConfig) => new SessionPolicies(config, {
+    say: (text) => said.push(text),
+    end: (reason, goodbye) => ended.push({ reason, goodbye }),
+    isBusy: () => busy,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    said = [];
+    ended = [];
+    busy = false;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reprompt with escalating messages and end after the last goes unanswered', () => {
+    const session = policies({ idle: { timeoutMs: 1000, reprompts: ['Hello?', 'Still there?'], goodbye: 'Bye.' } });
+    session.start();
+
+    vi.advanceTimersByTime(1000);
+    expect(said).toEqual(['Hello?']);
+
+    vi.advanceTimersByTime(1000);
+    expect(said).toEqual(['Hello?', 'Still there?']);
+    expect(ended).toEqual([]);
+
+    vi.advanceTimersByTime(1000);
+    expect(ended).toEqual([{ reason: 'idle_timeout', goodbye: 'Bye.' }]);
+
+    vi.advanceTimersByTime(10_000);
+    expect(said).toHaveLength(2);
+  });
+
+  it('should not count time while the agent is busy and start over when the user speaks', () => {
+    const session = policies({ idle: { timeoutMs: 1000, reprompts: ['Hello?'] } });
+    session.start();
+
+    busy = true;
+    vi.advanceTimersByTime(5000);
+    expect(said).toEqual([]);
+
+    busy = false;
+    vi.advanceTimersByTime(1000);
+    expect(said).toEqual(['Hello?']);
+
+    session.userActive();
+    vi.advanceTimersByTime(1000);
+    expect(said).toEqual(['Hello?', 'Hello?']);
+    expect(ended).toEqual([]);
+    session.stop();
+  });
+
+  it('should warn before the maximum duration and then end', () => {
+    const session = policies({ maxDuration: { durationMs: 120_000, warningBeforeMs: 30_000, warning: 'Thirty seconds left.' } });
+    session.start();
+
+    vi.advanceTimersByTime(90_000);
+    expect(said).toEqual(['Thirty seconds left.']);
+
+    vi.advanceTimersByTime(30_000);
+    expect(ended).toEqual([{ reason: 'max_duration', goodbye: DEFAULT_GOODBYES.max_duration }]);
+  });
+
+  it('should end after consecutive failed transcriptions', () => {
+    const session = policies({ failedTranscriptions: { max: 2 } });
+    session.start();
+
+    session.transcriptionFailed();
+    session.transcribed();
+    session.transcriptionFailed();
+    expect(ended).toEqual([]);
+
+    session.transcriptionFailed();
+    expect(ended).toEqual([{ reason: 'transcription_failures', goodbye: DEFAULT_GOODBYES.transcription_failures }]);
+  });
+});
+
+describe('VoiceAgent session policies', () => {
+  let voiceAgent: VoiceAgent;
+
+  afterEach(async () => {
+    await voiceAgent.stop();
+  });
+
+  it('should reprompt an idle caller and then end the session', async () => {
+    voiceAgent = new VoiceAgent({
+      transport: { type: 'websocket' },
+      stt: { provider: new ScriptedSTTProvider({ fallback: '' }) },
+      agent: { model: new ScriptedLanguageModel([]), instructions: 'You are a test assistant.' },
+      tts: { provider: new ToneTTSProvider({ msPerCharacter: 5 }) },
+      policies: { idle: { timeoutMs: 100, reprompts: ['Are you still there?'], goodbye: 'Goodbye for now.' } },
+      logging: { level: 'error' },
+    });
+    const spoken: string[] = [];
+    voiceAgent.on('response.text', (text: string) => spoken.push(text));
+    const ended = new Promise((resolve) => voiceAgent.once('session.ended', resolve));
+
+    await voiceAgent.initialize();
+
+    expect(await ended).toEqual({ reason: 'idle_timeout' });
+    expect(spoken).toEqual(['Are you still there?', 'Goodbye for now.']);
+  });
+});
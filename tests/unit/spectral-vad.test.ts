@@ -0,0 +1,149 @@
+/**
+ * Spectral VAD Unit Tests
+ *
+ * Runs the spectral VAD on synthetic voiced speech, steady noise and quiet
+ * speech to check the adaptive noise floor and per-frame probabilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SpectralVADProvider, EnergyVADProvider, createVADProvider } from '../../src/providers/vad';
+import type { VADFrameResult } from '../../src/types';
+
+const SAMPLE_RATE = 16000;
+
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
+
+function scale(samples: Float32Array, dbfs: number): Float32Array {
+  const rms = Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length);
+  const gain = Math.pow(10, dbfs / 20) / rms;
+  return samples.map((value) => value * gain);
+}
+
+/**
+ * Harmonics of a 120Hz voice shaped by two formants, in syllables with pauses
+ */
+function voiced(seconds: number, dbfs: number): Float32Array {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    let value = 0;
+    for (let harmonic = 1; harmonic * 120 < 4000; harmonic++) {
+      const f = harmonic * 120;
+      const envelope = Math.exp(-((f - 500) ** 2) / 2e4) + 0.6 * Math.exp(-((f - 1500) ** 2) / 5e4) + 0.02;
+      value += envelope * Math.sin(2 * Math.PI * f * t + harmonic);
+    }
+    samples[i] = value * Math.max(0, Math.sin(2 * Math.PI * 2.5 * t));
+  }
+  return scale(samples, dbfs);
+}
+
+/**
+ * Low-frequency rumble plus mains hum, like a fan or air conditioner
+ */
+function fan(seconds: number, dbfs: number): Float32Array {
+  const next = random(7);
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  let rumble = 0;
+  for (let i = 0; i < samples.length; i++) {
+    rumble = 0.97 * rumble + (next() - 0.5);
+    samples[i] = rumble + 2 * Math.sin((2 * Math.PI * 100 * i) / SAMPLE_RATE);
+  }
+  return scale(samples, dbfs);
+}
+
+function mix(...signals: Float32Array[]): Float32Array {
+  return signals[0].map((_, i) => signals.reduce((sum, signal) => sum + signal[i], 0));
+}
+
+function pcm(samples: Float32Array): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((value, i) => buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value * 32768))), i * 2));
+  return buffer;
+}
+
+function speechShare(results: VADFrameResult[]): number {
+  return results.filter((result) => result.isSpeech).length / results.length;
+}
+
+describe('SpectralVADProvider', () => {
+  it('should report one result per complete frame and hold partial frames', async () => {
+    const vad = new SpectralVADProvider({ frameMs: 20 });
+
+    expect(await vad.analyze(Buffer.alloc(500))).toHaveLength(0);
+    const results = await vad.analyze(Buffer.alloc(780));
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({ isSpeech: false, probability: 0 });
+  });
+
+  it('should detect voiced speech', async () => {
+    const vad = new SpectralVADProvider();
+
+    const results = await vad.analyze(pcm(voiced(2, -20)));
+
+    expect(speechShare(results)).toBeGreaterThan(0.35);
+    expect(Math.max(...results.map((result) => result.probability))).toBeGreaterThan(0.9);
+  });
+
+  it('should adapt to steady fan noise instead of treating it as speech', async () => {
+    const vad = new SpectralVADProvider();
+
+    const results = await vad.analyze(pcm(fan(2, -20)));
+
+    expect(speechShare(results.slice(25))).toBe(0);
+    expect(vad.noiseFloorDb).toBeGreaterThan(-30);
+  });
+
+  it('should detect speech over the adapted noise floor', async () => {
+    const vad = new SpectralVADProvider();
+    await vad.analyze(pcm(fan(2, -30)));
+
+    const results = await vad.analyze(pcm(mix(voiced(2, -22), fan(2, -30))));
+
+    expect(speechShare(results)).toBeGreaterThan(0.3);
+  });
+
+  it('should detect quiet speech in a quiet room', async () => {
+    const vad = new SpectralVADProvider();
+
+    const results = await vad.analyze(pcm(voiced(2, -45)));
+
+    expect(speechShare(results)).toBeGreaterThan(0.3);
+    expect(await new EnergyVADProvider().detect(pcm(voiced(1, -45)))).toBe(false);
+  });
+
+  it('should only detect once started', async () => {
+    const vad = new SpectralVADProvider();
+    const speech = pcm(voiced(1, -20));
+
+    expect(await vad.detect(speech)).toBe(false);
+    await vad.start();
+    expect(await vad.detect(speech)).toBe(true);
+  });
+
+  it('should reject frames outside 10-30ms', () => {
+    expect(() => new SpectralVADProvider({ frameMs: 50 })).toThrow('between 10 and 30');
+  });
+});
+
+describe('createVADProvider', () => {
+  it('should default to the spectral VAD and keep the energy VAD selectable', () => {
+    const options = { enabled: true, silenceThresholdMs: 700, speechThresholdMs: 300 };
+
+    expect(createVADProvider(options)).toBeInstanceOf(SpectralVADProvider);
+    expect(createVADProvider({ ...options, provider: 'energy' })).toBeInstanceOf(EnergyVADProvider);
+  });
+
+  it('should map sensitivity onto the energy threshold', async () => {
+    const vad = createVADProvider({ provider: 'energy', enabled: true, silenceThresholdMs: 700, speechThresholdMs: 300, sensitivity: 0.5 });
+    await vad.start();
+
+    expect(await vad.detect(pcm(voiced(1, -20)))).toBe(true);
+  });
+});
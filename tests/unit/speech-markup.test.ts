@@ -0,0 +1,110 @@
+/**
+ * Speech Markup Unit Tests
+ *
+ * Tests parsing and validation of the provider-neutral markup, rendering
+ * per provider dialect and escaping in the Azure SSML request
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios from 'axios';
+import {
+  parseSpeechMarkup,
+  validateSpeechMarkup,
+  renderSpeechMarkup,
+  stripSpeechMarkup,
+  hasOpenSpeechMarkup,
+} from '../../src/utils/speech-markup';
+import { SpeechNormalizer } from '../../src/utils/speech-normalizer';
+import { AzureTTSProvider } from '../../src/providers/tts/azure';
+
+describe('parseSpeechMarkup', () => {
+  it('should parse breaks, prosody and say-as', () => {
+    const { nodes, issues } = parseSpeechMarkup(
+      'Hi<break strength="strong"/> <prosody rate="slow">your code is <say-as interpret-as="characters">AB1</say-as></prosody>'
+    );
+
+    expect(issues).toEqual([]);
+    expect(nodes).toEqual([
+      { type: 'text', text: 'Hi' },
+      { type: 'break', timeMs: 750 },
+      { type: 'text', text: ' ' },
+      {
+        type: 'prosody',
+        rate: 0.75,
+        children: [
+          { type: 'text', text: 'your code is ' },
+          { type: 'say-as', interpretAs: 'characters', format: undefined, text: 'AB1' },
+        ],
+      },
+    ]);
+  });
+
+  it('should keep the text of invalid markup and report it', () => {
+    const { nodes, issues } = parseSpeechMarkup('<prosody rate="warp">Fast</prosody> <b>bold</b> <emphasis>open');
+
+    expect(nodes.map((node) => node.type)).toEqual(['text', 'emphasis']);
+    expect(stripSpeechMarkup('<prosody rate="warp">Fast</prosody> <b>bold</b>')).toBe('Fast bold');
+    expect(issues).toEqual(['Invalid <prosody> rate "warp"', 'Unsupported <b>', 'Unclosed <emphasis>']);
+  });
+
+  it('should treat stray angle brackets and ampersands as text', () => {
+    expect(validateSpeechMarkup('If a < b & c > d, stop.')).toEqual([]);
+    expect(stripSpeechMarkup('If a < b & c > d, stop.')).toBe('If a < b & c > d, stop.');
+    expect(validateSpeechMarkup('Done</emphasis>')).toEqual(['Unexpected </emphasis>']);
+  });
+
+  it('should detect markup left open at a sentence end', () => {
+    expect(hasOpenSpeechMarkup('<prosody rate="slow">One.')).toBe(true);
+    expect(hasOpenSpeechMarkup('<prosody rate="slow">One.</prosody> Two<break time="1s"/>.')).toBe(false);
+  });
+});
+
+describe('renderSpeechMarkup', () => {
+  const text = 'Tom & Jerry<break time="800ms"/> <prosody rate="+20%" pitch="+2st">'
+    + 'call <say-as interpret-as="telephone">555</say-as></prosody>';
+
+  it('should escape text for SSML', () => {
+    expect(renderSpeechMarkup(text, 'ssml')).toEqual({
+      text: 'Tom &amp; Jerry<break time="800ms"/> <prosody rate="1.2" pitch="+2st">'
+        + 'call <say-as interpret-as="telephone">555</say-as></prosody>',
+    });
+  });
+
+  it('should reduce markup to breaks and a rate for ElevenLabs and Cartesia', () => {
+    expect(renderSpeechMarkup(text, 'elevenlabs')).toEqual({ text: 'Tom & Jerry <break time="0.8s" /> call 5 5 5', rate: 1.2 });
+    expect(renderSpeechMarkup(text, 'cartesia')).toEqual({ text: 'Tom & Jerry <break time="800ms"/> call 5 5 5', rate: 1.2 });
+  });
+
+  it('should turn markup into plain text and punctuation', () => {
+    expect(renderSpeechMarkup(text, 'plain').text).toBe('Tom & Jerry... call 5 5 5');
+    expect(renderSpeechMarkup('Wait<break time="200ms"/> what', 'plain').text).toBe('Wait, what');
+  });
+});
+
+describe('AzureTTSProvider markup', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send escaped SSML in the voice locale', async () => {
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({ data: new ArrayBuffer(4) });
+    const provider = new AzureTTSProvider({ subscriptionKey: 'key', region: 'eastus', voice: 'en-GB-SoniaNeural' });
+
+    for await (const chunk of provider.synthesize('Fish & chips <break time="300ms"/>')) {
+      expect(chunk.length).toBe(4);
+    }
+
+    const ssml = post.mock.calls[0][1] as string;
+    expect(ssml).toContain("xml:lang='en-GB'");
+    expect(ssml).toContain("<voice name='en-GB-SoniaNeural'>Fish &amp; chips <break time=\"300ms\"/></voice>");
+  });
+});
+
+describe('SpeechNormalizer markup', () => {
+  it('should normalize text around tags and leave say-as content alone', () => {
+    const normalizer = new SpeechNormalizer();
+
+    expect(normalizer.normalize('Pay $5 <break time="1s"/> to <say-as interpret-as="digits">1234567</say-as> **now**'))
+      .toBe('Pay five dollars <break time="1s"/> to <say-as interpret-as="digits">1234567</say-as> now');
+  });
+});
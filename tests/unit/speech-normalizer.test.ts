@@ -0,0 +1,77 @@
+/**
+ * Speech Normalizer Unit Tests
+ *
+ * Tests markdown stripping and the verbalization of numbers, currency,
+ * dates, times, phone numbers, emails and identifiers per locale
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SpeechNormalizer, numberToWords } from '../../src/utils/speech-normalizer';
+
+const us = new SpeechNormalizer();
+const gb = new SpeechNormalizer({ locale: 'en-GB' });
+
+describe('SpeechNormalizer', () => {
+  it('should strip markdown, links and code', () => {
+    expect(us.normalize('**Note:** see the [docs](https://example.com/docs) for `retry()`.'))
+      .toBe('Note: see the docs for retry().');
+    expect(us.normalize('- First, open the _settings_ page')).toBe('First, open the settings page');
+    expect(us.normalize('## Steps')).toBe('Steps');
+    expect(us.normalize('```js\nconsole.log(1);\n```')).toBe('');
+  });
+
+  it('should speak currency amounts', () => {
+    expect(us.normalize('It costs $1,299.50.')).toBe('It costs one thousand two hundred ninety-nine dollars and fifty cents.');
+    expect(us.normalize('Only $1 and €0.05')).toBe('Only one dollar and five cents');
+    expect(gb.normalize('That is £2.5m')).toBe('That is two point five million pounds');
+  });
+
+  it('should order numeric dates by locale', () => {
+    expect(us.normalize('Due 3/4/2025.')).toBe('Due March fourth, twenty twenty-five.');
+    expect(gb.normalize('Due 3/4/2025.')).toBe('Due the third of April, twenty twenty-five.');
+    expect(us.normalize('On 2024-12-01 and May 21st')).toBe('On December first, twenty twenty-four and May twenty-first');
+  });
+
+  it('should speak times in 12 or 24 hour style', () => {
+    expect(us.normalize('Open at 9:05 a.m.')).toBe('Open at nine oh five AM.');
+    expect(us.normalize('Closes 17:30')).toBe('Closes five thirty PM');
+    expect(gb.normalize('Closes 17:30')).toBe('Closes seventeen thirty');
+    expect(us.normalize('Call at 10:00')).toBe("Call at ten o'clock");
+  });
+
+  it('should speak phone numbers, emails and URLs', () => {
+    expect(us.normalize('Call (555) 123-4567.')).toBe('Call five five five, one two three, four five six seven.');
+    expect(us.normalize('Email jane.doe@acme.io')).toBe('Email jane dot doe at acme dot io');
+    expect(us.normalize('Visit www.acme.com/help.')).toBe('Visit acme dot com slash help.');
+  });
+
+  it('should speak numbers, ordinals, percentages and identifiers', () => {
+    expect(us.normalize('Order ORD-48213 is 3rd in line, 15% done')).toBe(
+      'Order O R D dash four eight two one three is third in line, fifteen percent done'
+    );
+    expect(us.normalize('Pick 2-3 of 105 items, about 3.5 each')).toBe('Pick two to three of one hundred five items, about three point five each');
+    expect(gb.normalize('105 items')).toBe('one hundred and five items');
+    expect(us.normalize('Code 0042 or 1234567')).toBe('Code zero zero four two or one two three four five six seven');
+  });
+
+  it('should apply custom rules before the built-in ones', () => {
+    const normalizer = new SpeechNormalizer({ rules: [{ pattern: 'SKU', replacement: 'stock unit' }] });
+    normalizer.addRule({ pattern: /\bKB(\d+)/g, replacement: (match, id) => `article ${id.split('').join(' ')}` });
+
+    expect(normalizer.normalize('SKU KB123')).toBe('stock unit article one two three');
+  });
+
+  it('should leave numbers to the provider for other languages', () => {
+    const es = new SpeechNormalizer({ locale: 'es-ES' });
+
+    expect(es.normalize('**Total:** 25 euros')).toBe('Total: 25 euros');
+  });
+});
+
+describe('numberToWords', () => {
+  it('should spell large numbers', () => {
+    expect(numberToWords(0)).toBe('zero');
+    expect(numberToWords(2_000_021)).toBe('two million twenty-one');
+    expect(numberToWords(1005, true)).toBe('one thousand and five');
+  });
+});
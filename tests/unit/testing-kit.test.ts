@@ -0,0 +1,147 @@
+/**
+ * Testing Kit Unit Tests
+ *
+ * Tests the scripted STT provider, the tone TTS provider and the scripted
+ * language model exported from the testing entry point
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateText, streamText, tool } from 'ai';
+import { z } from 'zod';
+import { Agent, run } from '../../src/agents-sdk/agent';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel, handoffTo } from '../../src/testing';
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function* chunks(...buffers: Buffer[]) {
+  yield* buffers;
+}
+
+describe('ScriptedSTTProvider', () => {
+  it('should return transcripts in call order', async () => {
+    const stt = new ScriptedSTTProvider({ transcripts: ['hello', 'goodbye'] });
+
+    expect(await stt.transcribe(Buffer.alloc(4))).toBe('hello');
+    expect(await stt.transcribe(Buffer.alloc(4))).toBe('goodbye');
+    await expect(stt.transcribe(Buffer.alloc(4))).rejects.toThrow('no transcript left');
+  });
+
+  it('should match audio fixtures before the call order', async () => {
+    const fixture = Buffer.from([1, 2, 3, 4]);
+    const stt = new ScriptedSTTProvider({
+      transcripts: ['in order'],
+      fixtures: [{ audio: fixture, transcript: 'from fixture' }],
+    });
+
+    const texts = await collect(stt.transcribeStream(chunks(Buffer.from([1, 2]), Buffer.from([3, 4]))));
+
+    expect(texts).toEqual(['from fixture']);
+    expect(await stt.transcribe(Buffer.alloc(2))).toBe('in order');
+    expect(stt.calls).toHaveLength(2);
+  });
+
+  it('should fail calls scripted as errors', async () => {
+    const stt = new ScriptedSTTProvider({ transcripts: [new Error('503'), 'recovered'] });
+
+    await expect(stt.transcribe(Buffer.alloc(2))).rejects.toThrow('503');
+    expect(await stt.transcribe(Buffer.alloc(2))).toBe('recovered');
+  });
+});
+
+describe('ToneTTSProvider', () => {
+  it('should produce audio proportional to text length', async () => {
+    const tts = new ToneTTSProvider({ msPerCharacter: 50, sampleRate: 16000 });
+
+    const short = Buffer.concat(await collect(tts.synthesize('Hi.')));
+    const long = Buffer.concat(await collect(tts.synthesize('Hi there.')));
+
+    expect(short).toHaveLength(3 * 800 * 2);
+    expect(long).toHaveLength(9 * 800 * 2);
+    expect(tts.texts).toEqual(['Hi.', 'Hi there.']);
+  });
+
+  it('should be deterministic', async () => {
+    const tts = new ToneTTSProvider();
+
+    const first = Buffer.concat(await collect(tts.synthesize('Same text')));
+    const second = Buffer.concat(await collect(tts.synthesize('Same text')));
+
+    expect(first.equals(second)).toBe(true);
+    expect(first.some((byte) => byte !== 0)).toBe(true);
+  });
+
+  it('should fail for matching text', async () => {
+    const tts = new ToneTTSProvider({ failWhen: (text) => text.includes('boom') });
+
+    await expect(collect(tts.synthesize('boom'))).rejects.toThrow('synthesis failed');
+  });
+});
+
+describe('ScriptedLanguageModel', () => {
+  it('should stream scripted text as deltas', async () => {
+    const model = new ScriptedLanguageModel(['Hello there, how can I help?']);
+
+    const result = streamText({ model, prompt: 'Hi' });
+    const deltas = await collect(result.textStream);
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe('Hello there, how can I help?');
+    expect(model.calls).toHaveLength(1);
+  });
+
+  it('should emit scripted tool calls and continue with the next step', async () => {
+    const model = new ScriptedLanguageModel([
+      { toolCalls: [{ toolName: 'get_weather', args: { city: 'Paris' } }] },
+      (options) => (JSON.stringify(options.prompt).includes('sunny') ? 'It is sunny in Paris.' : 'Unknown.'),
+    ]);
+
+    const result = await generateText({
+      model,
+      prompt: 'Weather in Paris?',
+      maxSteps: 2,
+      tools: {
+        get_weather: tool({
+          parameters: z.object({ city: z.string() }),
+          execute: async ({ city }) => `sunny in ${city}`,
+        }),
+      },
+    });
+
+    expect(result.steps[0].toolCalls[0]).toMatchObject({ toolName: 'get_weather', args: { city: 'Paris' } });
+    expect(result.text).toBe('It is sunny in Paris.');
+  });
+
+  it('should build handoff tool calls for agent names', () => {
+    expect(handoffTo('Billing Support', 'refund question')).toEqual({
+      toolName: 'handoff_to_billing_support',
+      args: { reason: 'refund question' },
+    });
+  });
+
+  it('should drive an agent handoff', async () => {
+    const model = new ScriptedLanguageModel([
+      { toolCalls: [handoffTo('Billing', 'refund request')] },
+      'Billing here, I can help with that refund.',
+    ]);
+    const billing = new Agent({ name: 'Billing', instructions: 'Handle billing.', model });
+    const triage = new Agent({ name: 'Triage', instructions: 'Route requests.', model, handoffs: [billing] });
+
+    const result = await run(triage, 'I need a refund');
+
+    expect(result.finalOutput).toBe('Billing here, I can help with that refund.');
+    expect(model.calls).toHaveLength(2);
+  });
+
+  it('should throw scripted errors and when the script is exhausted', async () => {
+    const model = new ScriptedLanguageModel([{ error: new Error('rate limited') }]);
+
+    await expect(generateText({ model, prompt: 'Hi', maxRetries: 0 })).rejects.toThrow('rate limited');
+    await expect(generateText({ model, prompt: 'Hi', maxRetries: 0 })).rejects.toThrow('no step left');
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Tool Filler Unit Tests
+ *
+ * Tests when fillers and progress updates are due while tools run, which
+ * phrases are pre-synthesized, and that VoiceAgent speaks them
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import type { CoreMessage } from 'ai';
+import { VoiceAgent, VoiceAgentConfig } from '../../src/voice-agent/voice-agent';
+import { Agent, tool } from '../../src/agents-sdk/agent';
+import { MemorySession } from '../../src/agents-sdk/index';
+import { ScriptedSTTProvider, ToneTTSProvider, ScriptedLanguageModel } from '../../src/testing';
+import { sleep } from '../../src/utils/retry';
+import { ToolFillerScheduler, fillerPhrases, withSpokenFillers, DEFAULT_FILLER_PHRASES } from '../../src/voice-agent/tool-fillers';
+import type { ToolFiller } from '../../src/voice-agent/tool-fillers';
+
+describe('ToolFillerScheduler', () => {
+  let said: ToolFiller[];
+  let silentMs: number;
+
+  const scheduler = (config = {}) =>
+    new ToolFillerScheduler(config, (filler) => said.push(filler), () => silentMs);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    said = [];
+    silentMs = 10_000;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should speak the tool filler after the delay', () => {
+    const fillers = scheduler({ delayMs: 500, progressIntervalMs: false });
+
+    fillers.toolCalled('lookup_order', 'Let me pull up your order.');
+    vi.advanceTimersByTime(499);
+    expect(said).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(said).toEqual([{ text: 'Let me pull up your order.', toolName: 'lookup_order', kind: 'filler' }]);
+  });
+
+  it('should wait for playing audio to finish', () => {
+    // Audio plays until 600ms after the tool call
+    const playbackEndsAt = Date.now() + 600;
+    const fillers = new ToolFillerScheduler(
+      { delayMs: 500, progressIntervalMs: false },
+      (filler) => said.push(filler),
+      () => Math.max(0, Date.now() - playbackEndsAt)
+    );
+
+    fillers.toolCalled('lookup_order');
+    vi.advanceTimersByTime(1099);
+    expect(said).toEqual([]);
+
+    vi.advanceTimersByTime(1);
+    expect(said.map((filler) => filler.text)).toEqual([DEFAULT_FILLER_PHRASES[0]]);
+  });
+
+  it('should give progress updates for long tools up to the limit', () => {
+    const fillers = scheduler({ delayMs: 500, progressIntervalMs: 3000, progressPhrases: ['Still on it.'], maxPerResponse: 2 });
+
+    fillers.toolCalled('charge_card');
+    vi.advanceTimersByTime(20_000);
+
+    expect(said.map((filler) => filler.kind)).toEqual(['filler', 'progress']);
+    expect(said[1].text).toBe('Still on it.');
+  });
+
+  it('should stop once the tools return', () => {
+    const fillers = scheduler({ delayMs: 500 });
+
+    fillers.toolCalled('lookup_order');
+    fillers.toolFinished('lookup_order');
+    vi.advanceTimersByTime(10_000);
+
+    expect(said).toEqual([]);
+  });
+
+  it('should skip tools that opt out and rotate default phrases', () => {
+    const fillers = scheduler({ delayMs: 500, progressIntervalMs: false, phrases: ['One.', 'Two.'] });
+
+    fillers.toolCalled('get_time', false);
+    vi.advanceTimersByTime(1000);
+    expect(said).toEqual([]);
+
+    fillers.toolCalled('lookup_order');
+    vi.advanceTimersByTime(500);
+    const next = new ToolFillerScheduler({ delayMs: 500, phrases: ['One.', 'Two.'] }, (filler) => said.push(filler), () => silentMs, fillers.rotation);
+    next.toolCalled('lookup_order');
+    vi.advanceTimersByTime(500);
+
+    expect(said.map((filler) => filler.text)).toEqual(['One.', 'Two.']);
+    next.stop();
+  });
+});
+
+describe('fillerPhrases', () => {
+  it('should list configured, progress and tool-declared phrases once', () => {
+    const phrases = fillerPhrases(
+      { phrases: ['One moment.'], progressPhrases: ['Still on it.'] },
+      ['Let me pull up your order.', 'One moment.']
+    );
+
+    expect(phrases).toEqual(['One moment.', 'Still on it.', 'Let me pull up your order.']);
+    expect(fillerPhrases({ phrases: ['One moment.'], progressIntervalMs: false })).toEqual(['One moment.']);
+  });
+});
+
+describe('Agent tool fillers', () => {
+  const lookupOrder = tool({ description: 'Look up the order', parameters: z.object({}), execute: async () => 'shipped' });
+  const getTime = tool({ description: 'Get the time', parameters: z.object({}), execute: async () => 'noon' });
+
+  const agents = () => {
+    const model = new ScriptedLanguageModel([]);
+    const billing = new Agent({
+      name: 'Billing',
+      instructions: 'Handle billing.',
+      model,
+      tools: { charge_card: { ...lookupOrder, filler: 'Processing your payment now.' } },
+    });
+    const support = new Agent({
+      name: 'Support',
+      instructions: 'Help the caller.',
+      model,
+      tools: { lookup_order: { ...lookupOrder, filler: 'Let me pull up your order.' }, get_time: { ...getTime, filler: false } },
+      handoffs: [billing],
+    });
+    return { support, billing };
+  };
+
+  it('should find the filler on the agent or an agent it hands off to', () => {
+    const { support } = agents();
+
+    expect(support.getToolFiller('lookup_order')).toBe('Let me pull up your order.');
+    expect(support.getToolFiller('get_time')).toBe(false);
+    expect(support.getToolFiller('charge_card')).toBe('Processing your payment now.');
+    expect(support.getToolFiller('handoff_to_billing')).toBeUndefined();
+    expect(support.getToolFiller('unknown')).toBeUndefined();
+  });
+
+  it('should list the declared filler phrases', () => {
+    const { support, billing } = agents();
+
+    expect(support.getToolFillers()).toEqual(['Let me pull up your order.', 'Processing your payment now.']);
+    expect(billing.getToolFillers()).toEqual(['Processing your payment now.']);
+  });
+});
+
+describe('withSpokenFillers', () => {
+  const messages: CoreMessage[] = [
+    { role: 'user', content: 'Where is my order?' },
+    { role: 'assistant', content: [{ type: 'tool-call', toolCallId: '1', toolName: 'lookup_order', args: {} }] },
+    { role: 'tool', content: [{ type: 'tool-result', toolCallId: '1', toolName: 'lookup_order', result: 'shipped' }] },
+    { role: 'assistant', content: 'Your order has shipped.' },
+  ];
+
+  it('should record fillers after the results of the tool they covered', () => {
+    const recorded = withSpokenFillers(messages, [
+      { text: 'Let me check.', toolName: 'lookup_order', kind: 'filler' },
+      { text: 'Still on it.', toolName: 'lookup_order', kind: 'progress' },
+    ]);
+
+    expect(recorded).toEqual([
+      ...messages.slice(0, 3),
+      { role: 'assistant', content: 'Let me check. Still on it.' },
+      messages[3],
+    ]);
+    expect(withSpokenFillers(messages, [])).toEqual(messages);
+  });
+});
+
+describe('VoiceAgent fillers', () => {
+  let voiceAgent: VoiceAgent;
+  let session: MemorySession;
+  let tts: ToneTTSProvider;
+
+  const start = async (config: Partial<VoiceAgentConfig> = {}) => {
+    session = new MemorySession('fillers');
+    tts = new ToneTTSProvider({ msPerCharacter: 5 });
+    voiceAgent = new VoiceAgent({
+      transport: { type: 'websocket' },
+      stt: { provider: new ScriptedSTTProvider({ fallback: '' }) },
+      agent: {
+        model: new ScriptedLanguageModel([{ toolCalls: [{ toolName: 'lookup_order', args: {} }] }, 'Your order has shipped.']),
+        instructions: 'You are a test assistant.',
+        session,
+        tools: {
+          lookup_order: tool({
+            description: 'Look up the order',
+            parameters: z.object({}),
+            execute: async () => {
+              await sleep(300);
+              return 'shipped';
+            },
+          }),
+        },
+      },
+      tts: { provider: tts },
+      toolFillers: { delayMs: 50, phrases: ['One moment please.'], preSynthesize: false },
+      logging: { level: 'error' },
+      ...config,
+    });
+    await voiceAgent.initialize();
+  };
+
+  afterEach(async () => {
+    await voiceAgent.stop();
+  });
+
+  it('should speak a filler while a slow tool runs', async () => {
+    await start();
+    const filler = vi.fn();
+    voiceAgent.on('response.filler', filler);
+    const text = vi.fn();
+    voiceAgent.on('response.text', text);
+
+    await voiceAgent.processText('Where is my order?');
+
+    expect(filler).toHaveBeenCalledWith({ text: 'One moment please.', toolName: 'lookup_order', kind: 'filler' });
+    expect(text).toHaveBeenCalledWith('One moment please. Your order has shipped.');
+    expect(tts.texts).toEqual(['One moment please.', 'Your order has shipped.']);
+
+    const history = await session.getHistory();
+    expect(history.map((message) => message.role)).toEqual(['user', 'assistant', 'tool', 'assistant', 'assistant']);
+    expect(history[3]).toEqual({ role: 'assistant', content: 'One moment please.' });
+    expect(history[4].content).toEqual([{ type: 'text', text: 'Your order has shipped.' }]);
+  });
+
+  it('should keep a spoken filler when the caller barges in', async () => {
+    await start({
+      vad: { enabled: true, provider: 'energy', speechThresholdMs: 100, silenceThresholdMs: 300 },
+      audio: { processing: false, echoSuppression: false },
+      interruption: { enabled: true },
+    });
+    const filler = new Promise((resolve) => voiceAgent.once('audio.ended', resolve));
+
+    const response = voiceAgent.processText('Where is my order?');
+    expect(await filler).toBe('One moment please.');
+    const speech = Buffer.alloc(9600);
+    for (let i = 0; i < speech.length / 2; i++) {
+      speech.writeInt16LE(Math.round(Math.sin(i / 3) * 16000), i * 2);
+    }
+    for (let offset = 0; offset < speech.length; offset += 640) {
+      await voiceAgent.processAudio(speech.subarray(offset, offset + 640));
+    }
+    await response;
+
+    expect(await session.getHistory()).toEqual([
+      { role: 'user', content: 'Where is my order?' },
+      { role: 'assistant', content: 'One moment please.' },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Turn Detector Unit Tests
+ *
+ * Tests the idle → speech-pending → speaking → trailing-silence → committed state machine
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TurnDetector } from '../../src/voice-agent/turn-detector';
+
+function feed(detector: TurnDetector, isSpeech: boolean, durationMs: number, frameMs = 20) {
+  for (let elapsed = 0; elapsed < durationMs; elapsed += frameMs) {
+    detector.process(isSpeech, frameMs);
+  }
+}
+
+describe('TurnDetector', () => {
+  let detector: TurnDetector;
+
+  beforeEach(() => {
+    detector = new TurnDetector({ speechThresholdMs: 100, silenceThresholdMs: 200 });
+  });
+
+  it('should start idle', () => {
+    expect(detector.getState()).toBe('idle');
+  });
+
+  it('should enter speech-pending before the speech threshold', () => {
+    feed(detector, true, 60);
+    expect(detector.getState()).toBe('speech-pending');
+  });
+
+  it('should ignore speech shorter than the speech threshold', () => {
+    const started = vi.fn();
+    detector.on('speech_started', started);
+
+    feed(detector, true, 60);
+    feed(detector, false, 20);
+
+    expect(detector.getState()).toBe('idle');
+    expect(started).not.toHaveBeenCalled();
+  });
+
+  it('should emit speech_started once the speech threshold is reached', () => {
+    const started = vi.fn();
+    detector.on('speech_started', started);
+
+    feed(detector, false, 40);
+    feed(detector, true, 100);
+
+    expect(detector.getState()).toBe('speaking');
+    expect(started).toHaveBeenCalledWith({ audioStartMs: 40 });
+  });
+
+  it('should resume speaking on speech during trailing silence', () => {
+    feed(detector, true, 100);
+    feed(detector, false, 100);
+    expect(detector.getState()).toBe('trailing-silence');
+
+    feed(detector, true, 20);
+    expect(detector.getState()).toBe('speaking');
+  });
+
+  it('should commit after the silence threshold', () => {
+    const stopped = vi.fn();
+    const committed = vi.fn();
+    detector.on('speech_stopped', stopped);
+    detector.on('committed', committed);
+
+    feed(detector, true, 200);
+    feed(detector, false, 200);
+
+    expect(detector.getState()).toBe('committed');
+    expect(stopped).toHaveBeenCalledWith({ audioEndMs: 200 });
+    expect(committed).toHaveBeenCalledWith({ audioStartMs: 0, audioEndMs: 200 });
+  });
+
+  it('should return to idle after a committed turn', () => {
+    feed(detector, true, 200);
+    feed(detector, false, 200);
+    feed(detector, false, 20);
+
+    expect(detector.getState()).toBe('idle');
+  });
+
+  it('should commit on demand while speaking', () => {
+    const committed = vi.fn();
+    detector.on('committed', committed);
+
+    feed(detector, true, 200);
+    detector.commit();
+
+    expect(committed).toHaveBeenCalledWith({ audioStartMs: 0, audioEndMs: 200 });
+  });
+
+  it('should not commit on demand while idle', () => {
+    const committed = vi.fn();
+    detector.on('committed', committed);
+
+    detector.commit();
+
+    expect(committed).not.toHaveBeenCalled();
+  });
+});
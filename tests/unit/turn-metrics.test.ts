@@ -0,0 +1,100 @@
+/**
+ * Turn Metrics Unit Tests
+ *
+ * Tests the per-turn latency timeline and rolling percentile window
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TurnTimer, TurnMetricsWindow, percentiles } from '../../src/voice-agent/turn-metrics';
+
+describe('TurnTimer', () => {
+  it('should measure latencies from the end of speech', () => {
+    const timer = new TurnTimer(1, 'audio', 1200);
+    timer.mark('endOfSpeech', 1000);
+    timer.mark('sttFinal', 1200);
+    timer.mark('firstLlmToken', 1500);
+    timer.mark('firstSentence', 1700);
+    timer.mark('firstTtsByte', 1900);
+    timer.mark('lastAudioByte', 3000);
+
+    const metrics = timer.finish();
+
+    expect(metrics.sttLatency).toBe(200);
+    expect(metrics.timeToFirstToken).toBe(500);
+    expect(metrics.timeToFirstSentence).toBe(700);
+    expect(metrics.timeToFirstAudio).toBe(900);
+    expect(metrics.totalLatency).toBe(2000);
+    expect(metrics.interrupted).toBe(false);
+  });
+
+  it('should measure from turn start when end of speech is unknown', () => {
+    const timer = new TurnTimer(1, 'text', 1000);
+    timer.mark('firstLlmToken', 1300);
+
+    const metrics = timer.finish();
+
+    expect(metrics.sttLatency).toBeUndefined();
+    expect(metrics.timeToFirstToken).toBe(300);
+    expect(metrics.timeToFirstAudio).toBeUndefined();
+  });
+
+  it('should keep the first mark except for the last audio byte', () => {
+    const timer = new TurnTimer(1, 'text', 0);
+    timer.mark('firstTtsByte', 100);
+    timer.mark('firstTtsByte', 200);
+    timer.mark('lastAudioByte', 100);
+    timer.mark('lastAudioByte', 200);
+
+    const { timeline } = timer.finish();
+
+    expect(timeline.firstTtsByte).toBe(100);
+    expect(timeline.lastAudioByte).toBe(200);
+  });
+
+  it('should flag interrupted turns', () => {
+    const timer = new TurnTimer(1, 'audio', 0);
+    timer.mark('interruptedAt', 500);
+
+    expect(timer.finish().interrupted).toBe(true);
+  });
+});
+
+describe('TurnMetricsWindow', () => {
+  function turnWithFirstAudio(turnId: number, ms: number) {
+    const timer = new TurnTimer(turnId, 'text', 0);
+    timer.mark('firstTtsByte', ms);
+    return timer.finish();
+  }
+
+  it('should report percentiles for recorded latencies only', () => {
+    const window = new TurnMetricsWindow();
+    for (let i = 1; i <= 10; i++) {
+      window.add(turnWithFirstAudio(i, i * 100));
+    }
+
+    const summary = window.summary();
+
+    expect(summary.count).toBe(10);
+    expect(summary.timeToFirstAudio).toEqual({ p50: 500, p90: 900, p99: 1000 });
+    expect(summary.timeToFirstToken).toBeUndefined();
+  });
+
+  it('should drop the oldest turns once full', () => {
+    const window = new TurnMetricsWindow(2);
+    window.add(turnWithFirstAudio(1, 5000));
+    window.add(turnWithFirstAudio(2, 100));
+    window.add(turnWithFirstAudio(3, 200));
+
+    const summary = window.summary();
+
+    expect(summary.count).toBe(2);
+    expect(summary.timeToFirstAudio?.p99).toBe(200);
+  });
+});
+
+describe('percentiles', () => {
+  it('should use nearest rank', () => {
+    expect(percentiles([30, 10, 20])).toEqual({ p50: 20, p90: 30, p99: 30 });
+    expect(percentiles([42])).toEqual({ p50: 42, p90: 42, p99: 42 });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Viseme Unit Tests
+ *
+ * Tests the text-based viseme estimate, Azure viseme mapping and the split
+ * of keyframes into per-chunk deltas
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { textToVisemes, visemesForWords, VisemeTrack, AZURE_VISEMES } from '../../src/utils/visemes';
+import { AzureTTSProvider } from '../../src/providers/tts/azure';
+import type { TimedAudioChunk } from '../../src/types';
+
+const mockSocket = vi.hoisted(() => ({ current: null as any }));
+
+vi.mock('ws', async () => {
+  const { EventEmitter } = await import('events');
+  class MockWebSocket extends EventEmitter {
+    static OPEN = 1;
+    static CONNECTING = 0;
+    readyState = 1;
+    sent: string[] = [];
+    constructor() {
+      super();
+      mockSocket.current = this;
+    }
+    send(data: string) {
+      this.sent.push(data);
+    }
+    close() {
+      this.readyState = 3;
+    }
+    terminate() {
+      this.readyState = 3;
+    }
+  }
+  return { default: MockWebSocket };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('textToVisemes', () => {
+  it('should spell words out into visemes', () => {
+    expect(textToVisemes('Hello')).toEqual(['E', 'nn', 'O']);
+    expect(textToVisemes('think')).toEqual(['TH', 'I', 'nn', 'kk']);
+    expect(textToVisemes('city')).toEqual(['SS', 'I', 'DD', 'I']);
+    expect(textToVisemes('make')).toEqual(['PP', 'aa', 'kk']);
+  });
+
+  it('should collapse repeats and skip words without letters', () => {
+    expect(textToVisemes('Bob')).toEqual(['PP', 'O', 'PP']);
+    expect(textToVisemes('mmm')).toEqual(['PP']);
+    expect(textToVisemes('—')).toEqual([]);
+  });
+});
+
+describe('visemesForWords', () => {
+  it('should spread visemes over each word and close the mouth in pauses', () => {
+    const keyframes = visemesForWords([
+      { word: 'Yes,', startMs: 0, endMs: 150 },
+      { word: 'Bob', startMs: 400, endMs: 700 },
+    ]);
+
+    expect(keyframes).toEqual([
+      { viseme: 'I', startMs: 0 },
+      { viseme: 'E', startMs: 50 },
+      { viseme: 'SS', startMs: 100 },
+      { viseme: 'sil', startMs: 150 },
+      { viseme: 'PP', startMs: 400 },
+      { viseme: 'O', startMs: 500 },
+      { viseme: 'PP', startMs: 600 },
+      { viseme: 'sil', startMs: 700 },
+    ]);
+  });
+});
+
+describe('VisemeTrack', () => {
+  it('should release chunks once their visemes are known, with chunk-relative offsets', () => {
+    const track = new VisemeTrack();
+    track.addKeyframes([{ viseme: 'PP', startMs: 0 }, { viseme: 'aa', startMs: 150 }]);
+    track.addAudio(100);
+    track.addAudio(100);
+
+    expect(track.take()).toEqual([{ chunkIndex: 0, audioStartMs: 0, visemes: [{ viseme: 'PP', offsetMs: 0 }] }]);
+
+    track.addKeyframes([{ viseme: 'sil', startMs: 180 }]);
+    track.complete();
+
+    expect(track.take()).toEqual([
+      { chunkIndex: 1, audioStartMs: 100, visemes: [{ viseme: 'aa', offsetMs: 50 }, { viseme: 'sil', offsetMs: 80 }] },
+    ]);
+  });
+
+  it('should skip chunks without keyframes', () => {
+    const track = new VisemeTrack();
+    track.addAudio(100);
+    track.addAudio(100);
+    track.addKeyframes([{ viseme: 'E', startMs: 120 }]);
+    track.complete();
+
+    expect(track.take()).toEqual([{ chunkIndex: 1, audioStartMs: 100, visemes: [{ viseme: 'E', offsetMs: 20 }] }]);
+  });
+});
+
+describe('Azure visemes', () => {
+  it('should map all Azure viseme IDs', () => {
+    expect(AZURE_VISEMES).toHaveLength(22);
+    expect(AZURE_VISEMES[21]).toBe('PP');
+  });
+
+  it('should request and read visemes from the speech websocket', async () => {
+    const tts = new AzureTTSProvider({ subscriptionKey: 'key', region: 'westus' });
+    const chunks: TimedAudioChunk[] = [];
+    const done = (async () => {
+      for await (const chunk of tts.synthesizeWithTimestamps('Hi', { visemes: true })) {
+        chunks.push(chunk);
+      }
+    })();
+
+    const socket: EventEmitter & { sent: string[] } = mockSocket.current;
+    socket.emit('open');
+    const metadata = {
+      Metadata: [
+        { Type: 'Viseme', Data: { Offset: 500000, VisemeId: 12 } },
+        { Type: 'Viseme', Data: { Offset: 1500000, VisemeId: 6 } },
+      ],
+    };
+    socket.emit('message', Buffer.from(`Path:audio.metadata\r\n\r\n${JSON.stringify(metadata)}`), false);
+    socket.emit('message', Buffer.from('Path:turn.end\r\n\r\n'), false);
+    await done;
+
+    expect(socket.sent[0]).toContain('"visemeEnabled":"true"');
+    expect(chunks).toEqual([
+      {
+        audio: Buffer.alloc(0),
+        words: undefined,
+        visemes: [{ viseme: 'kk', startMs: 50 }, { viseme: 'I', startMs: 150 }],
+        alignment: 'native',
+      },
+    ]);
+  });
+
+  it('should fail the synthesis on malformed metadata', async () => {
+    const tts = new AzureTTSProvider({ subscriptionKey: 'key', region: 'westus' });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const chunks: TimedAudioChunk[] = [];
+    const done = (async () => {
+      for await (const chunk of tts.synthesizeWithTimestamps('Hi', { visemes: true })) {
+        chunks.push(chunk);
+      }
+    })();
+
+    const socket: EventEmitter & { readyState: number } = mockSocket.current;
+    socket.emit('open');
+    socket.emit('message', Buffer.from('Path:audio.metadata\r\n\r\n{"Metadata": ['), false);
+
+    await expect(done).rejects.toThrow('Azure TTS sent malformed metadata');
+    expect(chunks).toEqual([]);
+    expect(socket.readyState).toBe(3);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Word Timing Unit Tests
+ *
+ * Tests timing estimates, character alignment, native provider alignment
+ * (ElevenLabs, Cartesia) and timings through the fallback chain
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Readable } from 'stream';
+import axios from 'axios';
+import {
+  estimateWordTimings,
+  CharacterAligner,
+  synthesizeWithTimings,
+  audioDurationMs,
+} from '../../src/utils/word-timing';
+import { ElevenLabsTTSProvider } from '../../src/providers/tts/elevenlabs';
+import { CartesiaTTSProvider } from '../../src/providers/tts/cartesia';
+import { FallbackTTSProvider } from '../../src/providers/tts/fallback';
+import type { AudioFormat, TimedAudioChunk, TTSProvider } from '../../src/types';
+
+const PCM16: AudioFormat = { sampleRate: 16000, channels: 1, bitDepth: 16, encoding: 'pcm', container: 'raw' };
+
+async function collect(stream: AsyncIterable<TimedAudioChunk>): Promise<TimedAudioChunk[]> {
+  const chunks: TimedAudioChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function plainProvider(ms: number): TTSProvider {
+  return {
+    outputFormat: PCM16,
+    async *synthesize() {
+      yield Buffer.alloc(ms * 32);
+    },
+    synthesizeStream: vi.fn(),
+    stop: vi.fn(async () => undefined),
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('estimateWordTimings', () => {
+  it('should spread the duration by word length with pauses at punctuation', () => {
+    const words = estimateWordTimings('Hi, I am Sam.', 1000);
+
+    expect(words.map((timing) => timing.word)).toEqual(['Hi,', 'I', 'am', 'Sam.']);
+    expect(words[0].startMs).toBe(0);
+    expect(words[1].startMs - words[0].endMs).toBeGreaterThan(words[2].startMs - words[1].endMs);
+    expect(words[3].endMs).toBe(1000);
+  });
+
+  it('should skip words without letters or digits', () => {
+    expect(estimateWordTimings('Well — okay', 600).map((timing) => timing.word)).toEqual(['Well', 'okay']);
+    expect(estimateWordTimings('Hello', 0)).toEqual([]);
+  });
+});
+
+describe('CharacterAligner', () => {
+  it('should group characters into words across chunks and skip tags', () => {
+    const aligner = new CharacterAligner();
+    const chars = (text: string, from: number) => [
+      text.split(''),
+      text.split('').map((_, index) => from + index * 10),
+      text.split('').map((_, index) => from + index * 10 + 10),
+    ] as const;
+
+    const first = aligner.push(...chars('Hi <break time="1s" /> th', 0));
+    const second = aligner.push(...chars('ere', 250));
+
+    expect(first).toEqual([{ word: 'Hi', startMs: 0, endMs: 20 }]);
+    expect(second).toEqual([]);
+    expect(aligner.flush()).toEqual([{ word: 'there', startMs: 230, endMs: 280 }]);
+  });
+});
+
+describe('synthesizeWithTimings', () => {
+  it('should estimate timings from the converted audio duration', async () => {
+    const chunks = await collect(
+      synthesizeWithTimings(plainProvider(500), 'Hello <break time="200ms"/> world', { ...PCM16, sampleRate: 8000 })
+    );
+    const last = chunks[chunks.length - 1];
+
+    expect(audioDurationMs(chunks[0].audio.length, { ...PCM16, sampleRate: 8000 })).toBeCloseTo(500, -1);
+    expect(last).toMatchObject({ audio: Buffer.alloc(0), alignment: 'estimated' });
+    expect(last.words!.map((timing) => timing.word)).toEqual(['Hello,', 'world']);
+  });
+
+  it('should keep native timings from the fallback chain', async () => {
+    const native: TTSProvider = {
+      ...plainProvider(100),
+      async *synthesizeWithTimestamps() {
+        yield { audio: Buffer.alloc(3200), words: [{ word: 'Hi', startMs: 0, endMs: 90 }], alignment: 'native' };
+      },
+    };
+    const tts = new FallbackTTSProvider([{ name: 'native', provider: native }]);
+
+    const chunks = await collect(synthesizeWithTimings(tts, 'Hi', PCM16));
+
+    expect(chunks).toEqual([
+      { audio: Buffer.alloc(3200), words: [{ word: 'Hi', startMs: 0, endMs: 90 }], alignment: 'native' },
+    ]);
+  });
+});
+
+describe('native alignment', () => {
+  it('should read ElevenLabs character alignment from streamed JSON lines', async () => {
+    const line = (text: string, startSeconds: number) => JSON.stringify({
+      audio_base64: Buffer.alloc(3200).toString('base64'),
+      alignment: {
+        characters: text.split(''),
+        character_start_times_seconds: text.split('').map((_, index) => startSeconds + index * 0.02),
+        character_end_times_seconds: text.split('').map((_, index) => startSeconds + index * 0.02 + 0.02),
+      },
+    }) + '\n';
+    const body = line('Hello wo', 0) + line('rld', 0);
+    const post = vi.spyOn(axios, 'post').mockResolvedValue({
+      data: Readable.from([body.slice(0, 40), body.slice(40)]),
+    });
+    const tts = new ElevenLabsTTSProvider({ apiKey: 'key', voiceId: 'voice' });
+
+    const chunks = await collect(tts.synthesizeWithTimestamps('Hello world'));
+    const words = chunks.flatMap((chunk) => chunk.words ?? []);
+
+    expect(post.mock.calls[0][0]).toContain('/stream/with-timestamps');
+    // The second chunk restarts its clock: offset by the 100ms of audio before it
+    expect(words).toEqual([
+      { word: 'Hello', startMs: 0, endMs: 100 },
+      { word: 'world', startMs: 120, endMs: 160 },
+    ]);
+  });
+
+  it('should read Cartesia word timestamps from server-sent events', async () => {
+    const events = [
+      { type: 'chunk', data: Buffer.alloc(64).toString('base64') },
+      { type: 'timestamps', word_timestamps: { words: ['Hi', 'there'], start: [0, 0.25], end: [0.2, 0.6] } },
+      { type: 'done' },
+    ].map((event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+    vi.spyOn(axios, 'post').mockResolvedValue({ data: Readable.from([events]) });
+    const tts = new CartesiaTTSProvider({ apiKey: 'key' });
+
+    const chunks = await collect(tts.synthesizeWithTimestamps('Hi there'));
+
+    expect(chunks[0].audio.length).toBe(64);
+    expect(chunks[1].words).toEqual([
+      { word: 'Hi', startMs: 0, endMs: 200 },
+      { word: 'there', startMs: 250, endMs: 600 },
+    ]);
+  });
+});
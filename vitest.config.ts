@@ -29,6 +29,8 @@ export default defineConfig({
   },
   resolve: {
     alias: {
+      // Same as the tsconfig path: the SDK's own entry point
+      '@tawk/voice-agents-sdk/core': path.resolve(__dirname, './src/index'),
       '@': path.resolve(__dirname, './src'),
       '@agents-sdk': path.resolve(__dirname, './src/agents-sdk'),
       '@voice-agent': path.resolve(__dirname, './src/voice-agent'),